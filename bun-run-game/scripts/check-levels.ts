@@ -0,0 +1,81 @@
+/**
+ * Checks that levels can still be finished: every built-in level by default,
+ * or the level files and generated seeds given as arguments.
+ *
+ *   bun scripts/check-levels.ts [--preset responsive|classic|floaty] [--autoplay] [--seed seed ...] [level.json ...]
+ *
+ * `--autoplay` also plays each level through with the bot. Exits with status 1
+ * when any level cannot be completed within its time limit, or the bot fails
+ * to finish one.
+ */
+import { readFileSync } from 'node:fs';
+import { autoplay } from '../src/game/bot';
+import { DEFAULT_MOVEMENT_PRESET, MOVEMENT_PRESETS, type MovementPreset } from '../src/game/config';
+import { FIXED_TIMESTEP } from '../src/game/engine';
+import { generateLevel, LEVELS, loadLevel, normalizeSeed } from '../src/game/levels';
+import { checkLevel, describeLevelCheck } from '../src/game/solvability';
+import type { LevelDefinition } from '../src/game/types';
+
+const isPreset = (name: string | undefined): name is MovementPreset =>
+  name !== undefined && name in MOVEMENT_PRESETS;
+
+const args = process.argv.slice(2);
+let preset: MovementPreset = DEFAULT_MOVEMENT_PRESET;
+let playThrough = false;
+const files: string[] = [];
+const seeds: string[] = [];
+for (let index = 0; index < args.length; index += 1) {
+  if (args[index] === '--preset') {
+    const name = args[++index];
+    if (!isPreset(name)) {
+      console.error(`Unknown preset ${name ?? '(none)'}; use one of ${Object.keys(MOVEMENT_PRESETS).join(', ')}`);
+      process.exit(2);
+    }
+    preset = name;
+  } else if (args[index] === '--seed') {
+    const seed = normalizeSeed(args[++index] ?? '');
+    if (!seed) {
+      console.error('--seed needs a seed of letters, digits or dashes');
+      process.exit(2);
+    }
+    seeds.push(seed);
+  } else if (args[index] === '--autoplay') {
+    playThrough = true;
+  } else {
+    files.push(args[index]);
+  }
+}
+
+let levels: LevelDefinition[] = LEVELS;
+try {
+  if (files.length || seeds.length) {
+    levels = [
+      ...files.map((file) => loadLevel(readFileSync(file, 'utf8'), file)),
+      ...seeds.map(generateLevel),
+    ];
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+}
+
+console.log(`Checking ${levels.length} level${levels.length === 1 ? '' : 's'} with ${preset} movement`);
+const checks = levels.map((level) => checkLevel(level, MOVEMENT_PRESETS[preset]));
+checks.forEach((check) => console.log(describeLevelCheck(check)));
+let failed = checks.some((check) => !check.completable);
+
+if (playThrough) {
+  levels.forEach((level) => {
+    const state = autoplay(level, MOVEMENT_PRESETS[preset]);
+    const coins = `${state.collected} of ${state.coins.length} coins`;
+    const elapsed = (state.tick * FIXED_TIMESTEP).toFixed(1);
+    if (state.status === 'won') {
+      console.log(`ok   ${level.id}: autoplay finished in ${elapsed}s with ${coins}`);
+    } else {
+      failed = true;
+      const reason = state.status === 'lost' ? 'ran out of time' : 'ran out of lives';
+      console.log(`FAIL ${level.id}: autoplay ${reason} after ${elapsed}s with ${coins}`);
+    }
+  });
+}
+if (failed) process.exit(1);
@@ -0,0 +1,293 @@
+/**
+ * Hosts online races. Players who join the same room race the same level
+ * from a shared countdown, see each other move and get live standings; the
+ * server checks every finish against the level before it counts.
+ *
+ *   bun scripts/race-server.ts [--port 8787] [--host 127.0.0.1]
+ *
+ * Only this machine can connect by default; pass `--host 0.0.0.0` to let
+ * others on the network join.
+ */
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { FIXED_TIMESTEP } from '../src/game/engine';
+import { LEVELS } from '../src/game/levels';
+import {
+  checkFinish,
+  COUNTDOWN_SECONDS,
+  DEFAULT_RACE_SERVER_PORT,
+  MAX_NAME_LENGTH,
+  NET_PROTOCOL_VERSION,
+  NET_TINTS,
+  parseClientMessage,
+  rankStandings,
+  type ClientMessage,
+  type NetSnapshot,
+  type ServerMessage,
+  type Standing,
+} from '../src/game/netplay';
+import { checkLevel } from '../src/game/solvability';
+import type { GameStatus, LevelDefinition } from '../src/game/types';
+import { acceptWebSocket, type WebSocketConnection } from './websocket';
+
+type Racer = {
+  id: string;
+  name: string;
+  tint: string;
+  ready: boolean;
+  connection: WebSocketConnection;
+  snapshot: NetSnapshot | null;
+  finish: { status: GameStatus; time: number | null; collected: number; rejected: string | null } | null;
+};
+
+type Room = {
+  name: string;
+  level: LevelDefinition;
+  /** The level's estimated fastest route in seconds, for checking winning times. */
+  fastest: number | null;
+  racers: Map<string, Racer>;
+  phase: 'lobby' | 'countdown' | 'racing';
+  /** When the countdown ended, in seconds on this server's clock. */
+  startedAt: number;
+  /** Calls the race for anyone still out once the level's clock must have run out. */
+  deadline: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * Seconds past a level's time limit before racers who never reported a
+ * finish are timed out: finishes reach the server late, and slow frames
+ * stretch a run's clock a little.
+ */
+const DEADLINE_SLACK = 5;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+const port = Number(option('--port') ?? DEFAULT_RACE_SERVER_PORT);
+const host = option('--host') ?? '127.0.0.1';
+if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+  console.error(`Invalid port ${option('--port')}`);
+  process.exit(2);
+}
+
+const rooms = new Map<string, Room>();
+
+const now = () => performance.now() / 1000;
+
+const send = (racer: Racer, message: ServerMessage) => racer.connection.send(JSON.stringify(message));
+
+const broadcast = (room: Room, message: ServerMessage, except?: Racer) => {
+  const text = JSON.stringify(message);
+  room.racers.forEach((racer) => {
+    if (racer !== except) racer.connection.send(text);
+  });
+};
+
+const standingOf = ({ id, name, tint, snapshot, finish }: Racer): Standing => ({
+  id,
+  name,
+  tint,
+  status: finish?.status ?? snapshot?.status ?? 'idle',
+  collected: finish?.collected ?? snapshot?.collected ?? 0,
+  time: finish?.time ?? null,
+  rejected: finish?.rejected ?? null,
+});
+
+const broadcastPlayers = (room: Room) =>
+  broadcast(room, {
+    type: 'players',
+    players: [...room.racers.values()].map(({ id, name, tint, ready }) => ({ id, name, tint, ready })),
+  });
+
+const broadcastStandings = (room: Room, over = false) =>
+  broadcast(room, {
+    type: 'standings',
+    standings: rankStandings([...room.racers.values()].map(standingOf)),
+    over,
+  });
+
+/** Starts the countdown once everyone in the lobby is ready. */
+const startWhenReady = (room: Room) => {
+  const racers = [...room.racers.values()];
+  if (room.phase !== 'lobby' || racers.length === 0 || !racers.every(({ ready }) => ready)) return;
+  room.phase = 'countdown';
+  racers.forEach((racer) => {
+    racer.snapshot = null;
+    racer.finish = null;
+  });
+  broadcast(room, { type: 'countdown', seconds: COUNTDOWN_SECONDS });
+  broadcastStandings(room);
+  setTimeout(() => {
+    if (room.phase !== 'countdown') return;
+    room.phase = 'racing';
+    room.startedAt = now();
+    room.deadline = setTimeout(() => timeOut(room), (room.level.timeLimit + DEADLINE_SLACK) * 1000);
+  }, COUNTDOWN_SECONDS * 1000);
+};
+
+/** Ends the race once nobody is left running, and opens the lobby for the next one. */
+const finishWhenDone = (room: Room) => {
+  const racers = [...room.racers.values()];
+  if (room.phase !== 'racing' || !racers.every(({ finish }) => finish !== null)) return;
+  room.phase = 'lobby';
+  if (room.deadline) clearTimeout(room.deadline);
+  room.deadline = null;
+  racers.forEach((racer) => {
+    racer.ready = false;
+  });
+  broadcastStandings(room, true);
+  broadcastPlayers(room);
+  console.log(`${room.name}: race on ${room.level.id} finished`);
+};
+
+/** Counts everyone who has not finished by the deadline as out of time, which ends the race. */
+const timeOut = (room: Room) => {
+  room.deadline = null;
+  if (room.phase !== 'racing') return;
+  room.racers.forEach((racer) => {
+    if (racer.finish) return;
+    racer.finish = { status: 'lost', time: null, collected: racer.snapshot?.collected ?? 0, rejected: null };
+    console.log(`${room.name}: ${racer.name} timed out`);
+  });
+  finishWhenDone(room);
+};
+
+const join = (racer: Racer, message: Extract<ClientMessage, { type: 'join' }>) => {
+  if (message.version !== NET_PROTOCOL_VERSION) {
+    return `This server speaks protocol v${NET_PROTOCOL_VERSION}, but the game sent v${message.version}; reload the page.`;
+  }
+  const roomName = message.room.trim().toLowerCase() || 'lobby';
+  let room = rooms.get(roomName);
+  if (!room) {
+    const level = LEVELS.find(({ id }) => id === message.levelId);
+    if (!level) return `"${message.levelId}" is not a built-in level.`;
+    room = {
+      name: roomName,
+      level,
+      fastest: checkLevel(level).minimumTime,
+      racers: new Map(),
+      phase: 'lobby',
+      startedAt: 0,
+      deadline: null,
+    };
+    rooms.set(roomName, room);
+  }
+  if (room.phase !== 'lobby') return `Room "${roomName}" is mid-race; try again when it finishes.`;
+  const taken = new Set([...room.racers.values()].map(({ tint }) => tint));
+  const tint = NET_TINTS.find((color) => !taken.has(color));
+  if (!tint) return `Room "${roomName}" is full.`;
+
+  racer.name = message.name.trim().slice(0, MAX_NAME_LENGTH) || `Racer ${room.racers.size + 1}`;
+  racer.tint = tint;
+  room.racers.set(racer.id, racer);
+  send(racer, { type: 'welcome', id: racer.id, room: roomName, levelId: room.level.id });
+  broadcastPlayers(room);
+  broadcastStandings(room);
+  console.log(`${room.name}: ${racer.name} joined (${room.racers.size} in the room)`);
+  return room;
+};
+
+const leave = (room: Room, racer: Racer) => {
+  room.racers.delete(racer.id);
+  console.log(`${room.name}: ${racer.name} left`);
+  if (room.racers.size === 0) {
+    if (room.deadline) clearTimeout(room.deadline);
+    rooms.delete(room.name);
+    return;
+  }
+  broadcastPlayers(room);
+  broadcastStandings(room);
+  startWhenReady(room);
+  finishWhenDone(room);
+};
+
+const handleMessage = (room: Room, racer: Racer, message: ClientMessage) => {
+  switch (message.type) {
+    case 'join':
+      send(racer, { type: 'error', message: 'Already in a room.' });
+      return;
+    case 'ready':
+      if (room.phase !== 'lobby') return;
+      racer.ready = true;
+      broadcastPlayers(room);
+      startWhenReady(room);
+      return;
+    case 'state': {
+      if (room.phase !== 'racing' || racer.finish) return;
+      // Copied field by field so nothing else a client tacks on gets passed along
+      const { tick, x, y, vx, vy, onGround, status, collected } = message;
+      const snapshot = { tick, x, y, vx, vy, onGround, status, collected };
+      const previous = racer.snapshot;
+      racer.snapshot = snapshot;
+      broadcast(room, { type: 'state', id: racer.id, ...snapshot }, racer);
+      if (previous?.status !== snapshot.status || previous.collected !== snapshot.collected) {
+        broadcastStandings(room);
+      }
+      return;
+    }
+    case 'finish': {
+      if (room.phase !== 'racing' || racer.finish) return;
+      const raceTime = now() - room.startedAt;
+      const rejected = checkFinish(room.level, message, raceTime, room.fastest, racer.snapshot?.collected);
+      racer.finish = {
+        status: message.status,
+        time: message.status === 'won' ? message.tick * FIXED_TIMESTEP : null,
+        collected: message.collected,
+        rejected,
+      };
+      if (rejected) console.log(`${room.name}: rejected ${racer.name}'s finish, ${rejected}`);
+      broadcastStandings(room);
+      finishWhenDone(room);
+      return;
+    }
+  }
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('This is a Bun Run race server; connect to it from the game.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  let room: Room | null = null;
+  // Nothing arrives before the handshake reply, so `racer` exists by the first message
+  const connection = acceptWebSocket(request, socket, {
+    onMessage: (text) => {
+      const message = parseClientMessage(text);
+      if (!message) {
+        send(racer, { type: 'error', message: 'The server did not understand that message.' });
+      } else if (room) {
+        handleMessage(room, racer, message);
+      } else if (message.type !== 'join') {
+        send(racer, { type: 'error', message: 'Join a room first.' });
+      } else {
+        const joined = join(racer, message);
+        if (typeof joined === 'string') {
+          send(racer, { type: 'error', message: joined });
+          connection?.close();
+        } else {
+          room = joined;
+        }
+      }
+    },
+    onClose: () => {
+      if (room) leave(room, racer);
+    },
+  });
+  if (!connection) return;
+  const racer: Racer = {
+    id: randomUUID(),
+    name: '',
+    tint: '',
+    ready: false,
+    connection,
+    snapshot: null,
+    finish: null,
+  };
+});
+
+server.listen(port, host, () => {
+  console.log(`Race server listening on ws://${host === '0.0.0.0' ? 'localhost' : host}:${port}`);
+});
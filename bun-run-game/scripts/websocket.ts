@@ -0,0 +1,230 @@
+/**
+ * Just enough of the WebSocket protocol (RFC 6455) for the race server:
+ * the opening handshake, masked text frames in, unmasked text frames out,
+ * fragmentation, ping/pong and the closing handshake. Binary messages and
+ * extensions are not supported.
+ */
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Game messages are a few hundred bytes; anything far bigger closes the connection. */
+const MAX_MESSAGE_SIZE = 64 * 1024;
+
+/** Seconds between pings; a connection that has not answered the last one by the next is dropped. */
+const HEARTBEAT_INTERVAL = 15;
+
+const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+/** Close codes used here, from RFC 6455 section 7.4.1. */
+const CLOSE_CODES = {
+  normal: 1000,
+  protocolError: 1002,
+  unsupportedData: 1003,
+  tooBig: 1009,
+};
+
+type Frame = { fin: boolean; opcode: number; payload: Buffer; size: number };
+
+export const acceptKey = (key: string) =>
+  createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const { length } = payload;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/** The first frame in `buffer`, `null` until all of it has arrived, or the close code to fail with. */
+const readFrame = (buffer: Buffer): Frame | number | null => {
+  if (buffer.length < 2) return null;
+  // No extensions are negotiated, so the reserved bits must be clear
+  if (buffer[0] & 0x70) return CLOSE_CODES.protocolError;
+  // Clients must mask everything they send
+  if (!(buffer[1] & 0x80)) return CLOSE_CODES.protocolError;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    const long = buffer.readBigUInt64BE(2);
+    if (long > BigInt(MAX_MESSAGE_SIZE)) return CLOSE_CODES.tooBig;
+    length = Number(long);
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_SIZE) return CLOSE_CODES.tooBig;
+  if (buffer.length < offset + 4 + length) return null;
+
+  const mask = buffer.subarray(offset, offset + 4);
+  const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+  for (let index = 0; index < payload.length; index += 1) payload[index] ^= mask[index % 4];
+  return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload, size: offset + 4 + length };
+};
+
+type WebSocketHandlers = {
+  onMessage: (text: string) => void;
+  /** Called once, however the connection ends. */
+  onClose: () => void;
+};
+
+/**
+ * Answers an HTTP upgrade request and speaks WebSocket over `socket`. Returns
+ * `null`, having refused the upgrade, when the request is not a WebSocket one.
+ */
+export const acceptWebSocket = (
+  request: IncomingMessage,
+  socket: Duplex,
+  { onMessage, onClose }: WebSocketHandlers,
+) => {
+  const key = request.headers['sec-websocket-key'];
+  if (
+    request.headers.upgrade?.toLowerCase() !== 'websocket' ||
+    request.headers['sec-websocket-version'] !== '13' ||
+    typeof key !== 'string'
+  ) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+      '',
+      '',
+    ].join('\r\n'),
+  );
+
+  let buffered = Buffer.alloc(0);
+  /** Pieces of a fragmented message so far, with the opcode of its first frame. */
+  let fragments: Buffer[] = [];
+  let messageOpcode = OPCODES.text;
+  let closing = false;
+  let alive = true;
+
+  const send = (opcode: number, payload: Buffer) => {
+    if (!socket.writable) return;
+    socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = (code = CLOSE_CODES.normal, reason = '') => {
+    if (closing) return;
+    closing = true;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    send(OPCODES.close, payload);
+    socket.end();
+  };
+
+  const handleFrame = ({ fin, opcode, payload }: Frame) => {
+    if (opcode >= OPCODES.close) {
+      // Control frames may not be fragmented and carry at most 125 bytes
+      if (!fin || payload.length > 125) {
+        close(CLOSE_CODES.protocolError);
+      } else if (opcode === OPCODES.ping) {
+        send(OPCODES.pong, payload);
+      } else if (opcode === OPCODES.pong) {
+        alive = true;
+      } else if (opcode === OPCODES.close) {
+        close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_CODES.normal);
+      } else {
+        close(CLOSE_CODES.protocolError);
+      }
+      return;
+    }
+
+    if (opcode === OPCODES.continuation) {
+      if (fragments.length === 0) {
+        close(CLOSE_CODES.protocolError);
+        return;
+      }
+    } else if (opcode === OPCODES.text || opcode === OPCODES.binary) {
+      if (fragments.length > 0) {
+        close(CLOSE_CODES.protocolError);
+        return;
+      }
+      messageOpcode = opcode;
+    } else {
+      close(CLOSE_CODES.protocolError);
+      return;
+    }
+    fragments.push(payload);
+    const size = fragments.reduce((total, fragment) => total + fragment.length, 0);
+    if (size > MAX_MESSAGE_SIZE) {
+      close(CLOSE_CODES.tooBig);
+      return;
+    }
+    if (!fin) return;
+    const message = Buffer.concat(fragments);
+    fragments = [];
+    if (messageOpcode === OPCODES.binary) {
+      close(CLOSE_CODES.unsupportedData, 'text messages only');
+      return;
+    }
+    onMessage(message.toString('utf8'));
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (!closing) {
+      const frame = readFrame(buffered);
+      if (frame === null) break;
+      if (typeof frame === 'number') {
+        close(frame);
+        break;
+      }
+      buffered = buffered.subarray(frame.size);
+      handleFrame(frame);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      socket.destroy();
+      return;
+    }
+    alive = false;
+    send(OPCODES.ping, Buffer.alloc(0));
+  }, HEARTBEAT_INTERVAL * 1000);
+
+  // Errors are followed by 'close', which is where the connection is cleaned up
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => {
+    clearInterval(heartbeat);
+    closing = true;
+    onClose();
+  });
+
+  return {
+    send: (text: string) => {
+      if (!closing) send(OPCODES.text, Buffer.from(text, 'utf8'));
+    },
+    close,
+  };
+};
+
+export type WebSocketConnection = NonNullable<ReturnType<typeof acceptWebSocket>>;
@@ -0,0 +1,827 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ChangeEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { createPlayerAnimation, updatePlayerAnimation } from '../../game/animation';
+import {
+  centerCamera,
+  clampCamera,
+  createCamera,
+  followCamera,
+  type Camera,
+} from '../../game/camera';
+import {
+  DEFAULT_MOVEMENT_PRESET,
+  GAME_CONFIG,
+  MOVEMENT_PRESETS,
+  type MovementPreset,
+} from '../../game/config';
+import {
+  addWithTool,
+  cloneLevel,
+  createBlankLevel,
+  getResizeHandle,
+  getSelectionRect,
+  hitsResizeHandle,
+  hitTest,
+  isRemovable,
+  isResizable,
+  moveSelection,
+  removeSelection,
+  resizeSelection,
+  updateEnemy,
+  updateHazard,
+  updatePlatform,
+  updateSelectionRect,
+  type EditorTool,
+  type Selection,
+} from '../../game/editor';
+import { downloadJson } from '../../game/download';
+import { PATROL_RANGE, PATROL_SPEED } from '../../game/enemies';
+import { LASER_PERIOD } from '../../game/hazards';
+import {
+  createCoins,
+  createEngineState,
+  createInput,
+  createPlayer,
+  FIXED_TIMESTEP,
+  step,
+} from '../../game/engine';
+import { bindInputDevices, createInputMapper, loadKeyBindings } from '../../game/input';
+import { LEVELS, LevelValidationError, loadLevel, parseLevel, serializeLevel } from '../../game/levels';
+import { createAccumulator, startFrameLoop } from '../../game/loop';
+import {
+  applyCamera,
+  applyPixelScale,
+  createRenderer,
+  drawBackground,
+  drawCheckpoints,
+  drawCoins,
+  drawEnemies,
+  drawGoal,
+  drawHazards,
+  drawPlatformPath,
+  drawPlatforms,
+  drawPatrolRange,
+  drawPlayer,
+  GRID_SIZE,
+} from '../../game/render';
+import { getSpriteAtlas, subscribeToSprites } from '../../game/sprites';
+import type { Enemy, GameStatus, Hazard, LevelDefinition, Platform, Point } from '../../game/types';
+import { fitCanvas, toCanvasPoint, type Viewport } from '../../game/viewport';
+
+type Drag = {
+  selection: Selection;
+  mode: 'move' | 'resize';
+  offset: Point;
+};
+
+type PlaytestResult = {
+  status: GameStatus;
+  collected: number;
+  total: number;
+  elapsed: number;
+};
+
+const PLATFORM_TOOLS: { id: Platform['type']; label: string }[] = [
+  { id: 'solid', label: 'Solid' },
+  { id: 'bounce', label: 'Bounce' },
+  { id: 'moving', label: 'Moving' },
+  { id: 'oneWay', label: 'One-way' },
+  { id: 'crumbling', label: 'Crumbling' },
+  { id: 'conveyor', label: 'Conveyor' },
+];
+
+const HAZARD_TOOLS: { id: Hazard['type']; label: string }[] = [
+  { id: 'spikes', label: 'Spikes' },
+  { id: 'laser', label: 'Laser' },
+];
+
+const ENEMY_TOOLS: { id: Enemy['type']; label: string }[] = [
+  { id: 'patrol', label: 'Patroller' },
+  { id: 'jumper', label: 'Jumper' },
+];
+
+const TOOLS: { id: EditorTool; label: string }[] = [
+  { id: 'select', label: 'Select' },
+  ...PLATFORM_TOOLS,
+  { id: 'coin', label: 'Coin' },
+  ...HAZARD_TOOLS,
+  ...ENEMY_TOOLS,
+  { id: 'checkpoint', label: 'Checkpoint' },
+];
+
+const validate = (level: LevelDefinition): string[] => {
+  try {
+    parseLevel(level);
+    return [];
+  } catch (error) {
+    return error instanceof LevelValidationError ? error.issues : [String(error)];
+  }
+};
+
+const buttonClass =
+  'rounded-full border border-white/10 px-4 py-1.5 text-sm font-semibold transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40';
+
+const inputClass =
+  'w-full rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-sm text-white focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300';
+
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+      {label}
+      <input
+        type="number"
+        value={value}
+        onChange={(event) => {
+          const next = event.target.valueAsNumber;
+          if (Number.isFinite(next)) onChange(next);
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+export default function Editor() {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [draft, setDraft] = useState<LevelDefinition>(() => cloneLevel(LEVELS[0]));
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [snap, setSnap] = useState(true);
+  const [view, setView] = useState<Camera>(() => createCamera());
+  const [playtesting, setPlaytesting] = useState(false);
+  const [playtestResult, setPlaytestResult] = useState<PlaytestResult | null>(null);
+  const [movement, setMovement] = useState<MovementPreset>(DEFAULT_MOVEMENT_PRESET);
+  const sprites = useSyncExternalStore(subscribeToSprites, getSpriteAtlas, () => null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Resizing clears the canvas, so the editing view redraws whenever this changes
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+
+  const issues = useMemo(() => validate(draft), [draft]);
+  const camera = useMemo(() => clampCamera(view, draft.world), [view, draft.world]);
+  const { width: worldWidth, height: worldHeight } = draft.world;
+  const selectedPlatform = selection?.kind === 'platform' ? draft.platforms[selection.index] : null;
+  const selectedHazard = selection?.kind === 'hazard' ? draft.hazards[selection.index] : null;
+  const selectedEnemy = selection?.kind === 'enemy' ? draft.enemies[selection.index] : null;
+
+  const toWorld = (event: ReactPointerEvent<HTMLCanvasElement>): Point => {
+    const point = toCanvasPoint(event.currentTarget, camera, event.clientX, event.clientY);
+    return { x: point.x + Math.round(camera.x), y: point.y + Math.round(camera.y) };
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (playtesting) return;
+    const point = toWorld(event);
+
+    if (tool !== 'select') {
+      const [next, added] = addWithTool(draft, tool, point, snap);
+      setDraft(next);
+      setSelection(added);
+      return;
+    }
+
+    const resizing = selection !== null && hitsResizeHandle(draft, selection, point);
+    const target = resizing ? selection : hitTest(draft, point);
+    setSelection(target);
+    if (!target) return;
+
+    const rect = getSelectionRect(draft, target);
+    dragRef.current = {
+      selection: target,
+      mode: resizing ? 'resize' : 'move',
+      offset: { x: point.x - rect.x, y: point.y - rect.y },
+    };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toWorld(event);
+    setDraft((current) =>
+      drag.mode === 'resize'
+        ? resizeSelection(current, drag.selection, point, snap)
+        : moveSelection(
+            current,
+            drag.selection,
+            { x: point.x - drag.offset.x, y: point.y - drag.offset.y },
+            snap,
+          ),
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const deleteSelection = useCallback(() => {
+    if (!selection || !isRemovable(selection)) return;
+    setDraft((current) => removeSelection(current, selection));
+    setSelection(null);
+  }, [selection]);
+
+  const loadDraft = (level: LevelDefinition) => {
+    setDraft(cloneLevel(level));
+    setView(createCamera());
+    setSelection(null);
+    setPlaytestResult(null);
+    setImportError(null);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadDraft(loadLevel(await file.text(), file.name));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    downloadJson(`${draft.id || 'level'}.json`, serializeLevel(draft));
+  };
+
+  const startPlaytest = () => {
+    setSelection(null);
+    setPlaytestResult(null);
+    setPlaytesting(true);
+  };
+
+  useEffect(() => {
+    if (playtesting) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, select, textarea')) return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        deleteSelection();
+      } else if (event.key === 'Escape') {
+        setSelection(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [deleteSelection, playtesting]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return fitCanvas(canvas, GAME_CONFIG, setViewport);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || playtesting) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const dx = event.shiftKey ? event.deltaY : event.deltaX;
+      const dy = event.shiftKey ? 0 : event.deltaY;
+      setView((current) =>
+        clampCamera(
+          { ...current, x: current.x + dx, y: current.y + dy },
+          { width: worldWidth, height: worldHeight },
+        ),
+      );
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [playtesting, worldWidth, worldHeight]);
+
+  useEffect(() => {
+    if (playtesting) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    applyPixelScale(ctx, camera);
+    ctx.clearRect(0, 0, camera.width, camera.height);
+    drawBackground(ctx, camera);
+    ctx.save();
+    applyCamera(ctx, camera);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.setLineDash([4, 6]);
+    ctx.strokeRect(0, 0, draft.world.width, draft.world.height);
+    ctx.setLineDash([]);
+    drawPlatforms(ctx, draft.platforms);
+    draft.platforms.forEach((platform) => drawPlatformPath(ctx, platform));
+    drawHazards(ctx, draft.hazards, 0);
+    drawCheckpoints(ctx, draft.checkpoints);
+    drawGoal(ctx, draft.goal, 0, sprites);
+    drawCoins(ctx, createCoins(draft), 0, sprites);
+    draft.enemies.forEach((enemy) => {
+      if (enemy.type === 'patrol') drawPatrolRange(ctx, enemy, enemy.range ?? PATROL_RANGE);
+    });
+    drawEnemies(ctx, draft.enemies);
+
+    ctx.save();
+    ctx.globalAlpha = 0.7;
+    drawPlayer(ctx, createPlayer(draft.spawn), sprites);
+    ctx.restore();
+
+    if (selection) {
+      const rect = getSelectionRect(draft, selection);
+      ctx.save();
+      ctx.strokeStyle = '#67e8f9';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(rect.x - 2, rect.y - 2, rect.width + 4, rect.height + 4);
+      if (isResizable(selection)) {
+        const handle = getResizeHandle(rect);
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#67e8f9';
+        ctx.fillRect(handle.x, handle.y, handle.width, handle.height);
+      }
+      ctx.restore();
+    }
+    ctx.restore();
+  }, [camera, draft, selection, playtesting, sprites, viewport]);
+
+  useEffect(() => {
+    if (!playtesting) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const renderer = createRenderer(ctx);
+    let state = createEngineState(draft, MOVEMENT_PRESETS[movement]);
+    let playCamera = centerCamera(createCamera(), state.player, state.world);
+    let animation = createPlayerAnimation();
+    const input = createInput();
+    const unbindInput = bindInputDevices(
+      createInputMapper(() => input),
+      loadKeyBindings(),
+    );
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPlaytesting(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+
+    const advance = createAccumulator();
+    const stopLoop = startFrameLoop((delta, time) => {
+      for (let ticks = advance(delta); ticks > 0 && state.status === 'running'; ticks -= 1) {
+        state = step(state, input, FIXED_TIMESTEP);
+        input.jumpBuffer = false;
+      }
+      if (state.status !== 'running') {
+        setPlaytestResult({
+          status: state.status,
+          collected: state.collected,
+          total: state.coins.length,
+          elapsed: draft.timeLimit - state.timeLeft,
+        });
+        setPlaytesting(false);
+        return false;
+      }
+      playCamera = followCamera(playCamera, state.player, state.world, delta);
+      animation = updatePlayerAnimation(animation, state.player, delta);
+      renderer.draw({ ...state, sprites: getSpriteAtlas(), animation }, playCamera, time);
+    });
+
+    return () => {
+      stopLoop();
+      unbindInput();
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [draft, movement, playtesting]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-16">
+        <header className="flex flex-col items-center justify-between gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur lg:flex-row">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight text-white sm:text-5xl">
+              Level Editor
+            </h1>
+            <p className="mt-3 max-w-xl text-lg text-slate-300">
+              Place platforms, coins, hazards, enemies, checkpoints, the spawn point and the
+              exit portal, then playtest
+              the draft and export it as a level file.
+            </p>
+            <Link
+              href="/"
+              className="mt-2 inline-block text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+            >
+              ← Back to the game
+            </Link>
+          </div>
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            {playtesting ? (
+              <button
+                onClick={() => setPlaytesting(false)}
+                className="rounded-full bg-rose-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-rose-400/40 transition hover:bg-rose-300"
+              >
+                Stop Playtest
+              </button>
+            ) : (
+              <button
+                onClick={startPlaytest}
+                disabled={issues.length > 0}
+                className="rounded-full bg-cyan-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Playtest
+              </button>
+            )}
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              Import
+            </button>
+            <button onClick={handleExport} className={buttonClass}>
+              Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </header>
+
+        <main className="grid w-full gap-6 lg:grid-cols-[1fr_18rem]">
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {TOOLS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setTool(id)}
+                  disabled={playtesting}
+                  className={`${buttonClass} ${tool === id ? 'bg-cyan-400 text-slate-900 hover:bg-cyan-300' : ''}`}
+                >
+                  {label}
+                </button>
+              ))}
+              <label className="ml-2 flex items-center gap-2 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={snap}
+                  onChange={(event) => setSnap(event.target.checked)}
+                />
+                Snap to grid
+              </label>
+              <label className="ml-auto flex items-center gap-2 text-slate-300">
+                Movement
+                <select
+                  value={movement}
+                  onChange={(event) => setMovement(event.target.value as MovementPreset)}
+                  disabled={playtesting}
+                  className="rounded-lg border border-white/10 bg-black/30 px-2 py-1.5 text-sm capitalize text-white"
+                >
+                  {Object.keys(MOVEMENT_PRESETS).map((preset) => (
+                    <option key={preset} value={preset}>
+                      {preset}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <select
+                value=""
+                onChange={(event) => {
+                  const level =
+                    event.target.value === 'blank'
+                      ? createBlankLevel()
+                      : LEVELS.find(({ id }) => id === event.target.value);
+                  if (level) loadDraft(level);
+                }}
+                disabled={playtesting}
+                className="rounded-lg border border-white/10 bg-black/30 px-2 py-1.5 text-sm text-white"
+              >
+                <option value="" disabled>
+                  Load level…
+                </option>
+                <option value="blank">Blank level</option>
+                {LEVELS.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="relative aspect-video max-h-[85dvh] w-full overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl">
+              <canvas
+                ref={canvasRef}
+                width={GAME_CONFIG.width}
+                height={GAME_CONFIG.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className={`absolute touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+              />
+              {playtesting && (
+                <p className="pointer-events-none absolute left-4 top-4 rounded-full bg-black/60 px-3 py-1 text-xs uppercase tracking-wide text-slate-300">
+                  Playtesting · Esc to stop
+                </p>
+              )}
+            </div>
+
+            {playtestResult && (
+              <p className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-slate-300">
+                {playtestResult.status === 'won'
+                  ? `Reached the exit in ${playtestResult.elapsed.toFixed(1)}s with ${playtestResult.collected} / ${playtestResult.total} coins.`
+                  : `${playtestResult.status === 'gameOver' ? 'Lost every life' : 'Ran out of time'} with ${playtestResult.collected} / ${playtestResult.total} coins.`}
+              </p>
+            )}
+            {importError && (
+              <pre className="whitespace-pre-wrap rounded-2xl border border-rose-400/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+                {importError}
+              </pre>
+            )}
+          </div>
+
+          <aside className="flex flex-col gap-6 text-sm text-slate-300">
+            <section className="rounded-3xl border border-white/10 bg-white/5 p-6">
+              <h3 className="text-lg font-semibold text-white">Level</h3>
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                <label className="col-span-2 flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                  Name
+                  <input
+                    value={draft.name}
+                    onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="col-span-2 flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                  Id
+                  <input
+                    value={draft.id}
+                    onChange={(event) => setDraft({ ...draft, id: event.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <NumberField
+                  label="Time limit"
+                  value={draft.timeLimit}
+                  onChange={(timeLimit) => setDraft({ ...draft, timeLimit })}
+                />
+                <div />
+                <NumberField
+                  label="World width"
+                  value={draft.world.width}
+                  onChange={(width) => setDraft({ ...draft, world: { ...draft.world, width } })}
+                />
+                <NumberField
+                  label="World height"
+                  value={draft.world.height}
+                  onChange={(height) => setDraft({ ...draft, world: { ...draft.world, height } })}
+                />
+              </div>
+            </section>
+
+            <section className="rounded-3xl border border-white/10 bg-white/5 p-6">
+              <h3 className="text-lg font-semibold text-white">
+                {selection ? `Selected ${selection.kind}` : 'Selection'}
+              </h3>
+              {!selection && (
+                <p className="mt-2">
+                  Click an object to select it. Drag to move, drag the corner handle to
+                  resize, and press Delete to remove platforms or coins. Scroll over the
+                  canvas to pan around larger worlds.
+                </p>
+              )}
+              {selection && (
+                <div className="mt-3 grid grid-cols-2 gap-3">
+                  {selectedPlatform && selection.kind === 'platform' && (
+                    <>
+                      <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                        Type
+                        <select
+                          value={selectedPlatform.type}
+                          onChange={(event) =>
+                            setDraft(
+                              updatePlatform(draft, selection.index, {
+                                type: event.target.value as Platform['type'],
+                              }),
+                            )
+                          }
+                          className={inputClass}
+                        >
+                          {PLATFORM_TOOLS.map(({ id, label }) => (
+                            <option key={id} value={id}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      {selectedPlatform.type === 'bounce' ? (
+                        <NumberField
+                          label="Strength"
+                          value={selectedPlatform.strength ?? GAME_CONFIG.bounceBonus}
+                          onChange={(strength) =>
+                            setDraft(updatePlatform(draft, selection.index, { strength }))
+                          }
+                        />
+                      ) : selectedPlatform.type === 'moving' || selectedPlatform.type === 'conveyor' ? (
+                        <NumberField
+                          label={selectedPlatform.type === 'moving' ? 'Speed' : 'Belt speed'}
+                          value={selectedPlatform.speed ?? 0}
+                          onChange={(speed) =>
+                            setDraft(updatePlatform(draft, selection.index, { speed }))
+                          }
+                        />
+                      ) : (
+                        <div />
+                      )}
+                      {selectedPlatform.path?.map((stop, stopIndex) => (
+                        <div key={stopIndex} className="col-span-2 grid grid-cols-[1fr_1fr_auto] items-end gap-3">
+                          {(['x', 'y'] as const).map((key) => (
+                            <NumberField
+                              key={key}
+                              label={`Waypoint ${stopIndex + 1} ${key}`}
+                              value={stop[key]}
+                              onChange={(value) =>
+                                setDraft(
+                                  updatePlatform(draft, selection.index, {
+                                    path: selectedPlatform.path?.map((other, otherIndex) =>
+                                      otherIndex === stopIndex ? { ...other, [key]: value } : other,
+                                    ),
+                                  }),
+                                )
+                              }
+                            />
+                          ))}
+                          <button
+                            onClick={() =>
+                              setDraft(
+                                updatePlatform(draft, selection.index, {
+                                  path: selectedPlatform.path?.filter((_, otherIndex) => otherIndex !== stopIndex),
+                                }),
+                              )
+                            }
+                            disabled={selectedPlatform.path?.length === 1}
+                            className={buttonClass}
+                            aria-label={`Remove waypoint ${stopIndex + 1}`}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                      {selectedPlatform.path && (
+                        <button
+                          onClick={() => {
+                            const path = selectedPlatform.path ?? [];
+                            const last = path[path.length - 1];
+                            setDraft(
+                              updatePlatform(draft, selection.index, {
+                                path: [...path, { x: last.x, y: last.y - GRID_SIZE * 2 }],
+                              }),
+                            );
+                          }}
+                          className={`${buttonClass} col-span-2`}
+                        >
+                          Add waypoint
+                        </button>
+                      )}
+                    </>
+                  )}
+                  {selectedHazard && selection.kind === 'hazard' && (
+                    <>
+                      <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                        Type
+                        <select
+                          value={selectedHazard.type}
+                          onChange={(event) =>
+                            setDraft(
+                              updateHazard(draft, selection.index, {
+                                type: event.target.value as Hazard['type'],
+                              }),
+                            )
+                          }
+                          className={inputClass}
+                        >
+                          {HAZARD_TOOLS.map(({ id, label }) => (
+                            <option key={id} value={id}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div />
+                      {selectedHazard.type === 'laser' && (
+                        <>
+                          <NumberField
+                            label="Cycle (s)"
+                            value={selectedHazard.period ?? LASER_PERIOD}
+                            onChange={(period) =>
+                              setDraft(updateHazard(draft, selection.index, { period }))
+                            }
+                          />
+                          <NumberField
+                            label="Offset (s)"
+                            value={selectedHazard.phase ?? 0}
+                            onChange={(phase) =>
+                              setDraft(updateHazard(draft, selection.index, { phase }))
+                            }
+                          />
+                        </>
+                      )}
+                    </>
+                  )}
+                  {selectedEnemy && selection.kind === 'enemy' && (
+                    <>
+                      <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+                        Type
+                        <select
+                          value={selectedEnemy.type}
+                          onChange={(event) =>
+                            setDraft(
+                              updateEnemy(draft, selection.index, {
+                                type: event.target.value as Enemy['type'],
+                              }),
+                            )
+                          }
+                          className={inputClass}
+                        >
+                          {ENEMY_TOOLS.map(({ id, label }) => (
+                            <option key={id} value={id}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div />
+                      {selectedEnemy.type === 'patrol' && (
+                        <>
+                          <NumberField
+                            label="Range"
+                            value={selectedEnemy.range ?? PATROL_RANGE}
+                            onChange={(range) =>
+                              setDraft(updateEnemy(draft, selection.index, { range }))
+                            }
+                          />
+                          <NumberField
+                            label="Speed"
+                            value={selectedEnemy.speed ?? PATROL_SPEED}
+                            onChange={(speed) =>
+                              setDraft(updateEnemy(draft, selection.index, { speed }))
+                            }
+                          />
+                        </>
+                      )}
+                    </>
+                  )}
+                  {(['x', 'y', 'width', 'height'] as const)
+                    .filter((key) => isResizable(selection) || key === 'x' || key === 'y')
+                    .map((key) => (
+                      <NumberField
+                        key={key}
+                        label={key}
+                        value={getSelectionRect(draft, selection)[key]}
+                        onChange={(value) =>
+                          setDraft(
+                            updateSelectionRect(draft, selection, {
+                              ...getSelectionRect(draft, selection),
+                              [key]: value,
+                            }),
+                          )
+                        }
+                      />
+                    ))}
+                  {isRemovable(selection) && (
+                    <button
+                      onClick={deleteSelection}
+                      className={`${buttonClass} col-span-2 text-rose-300`}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
+            </section>
+
+            <section className="rounded-3xl border border-white/10 bg-white/5 p-6">
+              <h3 className="text-lg font-semibold text-white">Checks</h3>
+              {issues.length === 0 ? (
+                <p className="mt-2 text-emerald-300">The draft is a valid level.</p>
+              ) : (
+                <ul className="mt-2 list-disc space-y-1 pl-4 text-rose-200">
+                  {issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </aside>
+        </main>
+      </div>
+    </div>
+  );
+}
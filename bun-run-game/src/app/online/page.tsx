@@ -0,0 +1,376 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { FormEvent } from 'react';
+import RunStats from '../../components/RunStats';
+import Standings from '../../components/Standings';
+import { useGameLoop, type FrameLoopContext } from '../../components/useGameLoop';
+import { createPlayerAnimation, updatePlayerAnimation, type PlayerAnimation } from '../../game/animation';
+import { soundForEvent } from '../../game/audio';
+import { centerCamera, createCamera, followCamera, type Camera } from '../../game/camera';
+import { GAME_CONFIG } from '../../game/config';
+import {
+  createEffects,
+  shakeOffset,
+  triggerEffects,
+  updateEffects,
+} from '../../game/effects';
+import { createEngineState, createInput, FIXED_TIMESTEP, step, type EngineState } from '../../game/engine';
+import { createHud, hudStatsOf } from '../../game/hud';
+import { bindInputDevices, createInputMapper } from '../../game/input';
+import { PLAYER_NAME_KEY } from '../../game/leaderboard';
+import { LEVELS } from '../../game/levels';
+import { createRaceClient } from '../../game/netclient';
+import { DEFAULT_RACE_SERVER_URL, MAX_NAME_LENGTH, NET_SEND_INTERVAL } from '../../game/netplay';
+import { createRenderer } from '../../game/render';
+import { getSpriteAtlas, type SpriteAtlas } from '../../game/sprites';
+import { readStorage, subscribeToStorage, writeStorage } from '../../game/storage';
+import type { GameStatus, InputState, LevelDefinition } from '../../game/types';
+import { fitCanvas } from '../../game/viewport';
+
+/** Where this player is in the room's race cycle; the server decides when each race starts and ends. */
+type OnlinePhase = 'lobby' | 'countdown' | 'running' | 'finished';
+
+const inputClass =
+  'rounded-full border border-white/10 bg-black/30 px-3 py-1 text-white focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300';
+
+const primaryButtonClass =
+  'rounded-full bg-cyan-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900 disabled:opacity-40';
+
+export default function OnlineRace() {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const [client] = useState(createRaceClient);
+  const room = useSyncExternalStore(client.subscribe, client.getSnapshot, client.getSnapshot);
+  const [phase, setPhase] = useState<OnlinePhase>('lobby');
+  const [countdown, setCountdown] = useState(0);
+  /** How this player's own run ended, shown while the others finish. */
+  const [outcome, setOutcome] = useState<GameStatus | null>(null);
+  const [serverUrl, setServerUrl] = useState(DEFAULT_RACE_SERVER_URL);
+  const [roomName, setRoomName] = useState('lobby');
+  const [chosenLevel, setChosenLevel] = useState<LevelDefinition>(LEVELS[0]);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const storedName = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(PLAYER_NAME_KEY),
+    () => null,
+  );
+  const playerName = nameDraft ?? storedName ?? '';
+
+  const [hud] = useState(() => createHud({ ...hudStatsOf(createEngineState(LEVELS[0])), split: null }));
+
+  const engineRef = useRef<EngineState>(createEngineState(LEVELS[0]));
+  const inputsRef = useRef<InputState>(createInput());
+  const cameraRef = useRef<Camera>(createCamera());
+  const animationRef = useRef<PlayerAnimation>(createPlayerAnimation());
+  const effectsRef = useRef(createEffects());
+  const phaseRef = useRef<OnlinePhase>('lobby');
+  const tintRef = useRef<string | undefined>(undefined);
+
+  const start = useCallback(
+    ({ audio, advance, reducedMotion }: FrameLoopContext) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const renderer = createRenderer(ctx);
+      let drawn: { state: EngineState; sprites: SpriteAtlas | null; width: number; height: number } | null =
+        null;
+
+      return (delta: number, time: number) => {
+        const running = phaseRef.current === 'running';
+        const effects = effectsRef.current;
+        const reduced = reducedMotion.current;
+        const previous = engineRef.current;
+        let state = previous;
+        if (running) {
+          for (let ticks = advance(delta); ticks > 0 && state.status === 'running'; ticks -= 1) {
+            state = step(state, inputsRef.current, FIXED_TIMESTEP);
+            inputsRef.current.jumpBuffer = false;
+            if (state.tick % NET_SEND_INTERVAL === 0) client.sendState(state);
+            triggerEffects(effects, state.events, reduced);
+            state.events.forEach((event) => {
+              const sound = soundForEvent(event);
+              if (sound) audio.play(sound);
+            });
+          }
+          engineRef.current = state;
+          hud.update(hudStatsOf(state));
+          audio.setTimeLeft(state.timeLeft);
+          if (state.status !== 'running') {
+            audio.play(state.status === 'won' ? 'win' : 'lose');
+            // The last snapshot carries the final status and coins, which the server checks the finish against
+            client.sendState(state);
+            client.finish(state);
+            // Updated here as well so the next frame does not finish the run a second time
+            phaseRef.current = 'finished';
+            setOutcome(state.status);
+            setPhase('finished');
+          }
+        }
+
+        const remotes = client.remotes();
+        const sprites = getSpriteAtlas();
+        const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+        // Other racers keep moving after this player finishes, so only an empty room can skip frames
+        if (
+          !running &&
+          remotes.length === 0 &&
+          drawn?.state === state &&
+          drawn.sprites === sprites &&
+          drawn.width === canvasWidth &&
+          drawn.height === canvasHeight
+        ) {
+          return;
+        }
+        drawn = { state, sprites, width: canvasWidth, height: canvasHeight };
+
+        const { width, height } = state.player;
+        if (running) {
+          cameraRef.current = followCamera(cameraRef.current, state.player, state.world, delta);
+          animationRef.current = updatePlayerAnimation(animationRef.current, state.player, delta);
+          updateEffects(effects, delta, state.goal, reduced);
+        }
+        const shake = shakeOffset(effects, time);
+        renderer.draw(
+          {
+            ...state,
+            ghosts: remotes.map((remote) => ({ ...remote, width, height })),
+            sprites,
+            tint: tintRef.current,
+            animation: animationRef.current,
+            particles: effects.particles.particles,
+            stretch: effects.stretch,
+          },
+          { ...cameraRef.current, x: cameraRef.current.x + shake.x, y: cameraRef.current.y + shake.y },
+          time,
+        );
+      };
+    },
+    [client, hud],
+  );
+
+  // An online race cannot be paused, so looking away does not pause it either
+  const { audio, keyBindings } = useGameLoop({ running: phase === 'running', start });
+
+  const connected = room.connection === 'open';
+  const level = LEVELS.find(({ id }) => id === room.levelId) ?? chosenLevel;
+  const me = room.players.find(({ id }) => id === room.id);
+
+  const resetGame = useCallback(
+    (levelToPlay: LevelDefinition) => {
+      const engine = createEngineState(levelToPlay);
+      engineRef.current = engine;
+      cameraRef.current = centerCamera(createCamera(), engine.player, engine.world);
+      animationRef.current = createPlayerAnimation();
+      effectsRef.current = createEffects();
+      inputsRef.current = createInput();
+      hud.update(hudStatsOf(engine));
+    },
+    [hud],
+  );
+
+  const join = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // Joining is a user gesture, which browsers require before sound can play
+    audio.unlock();
+    const name = playerName.trim();
+    if (name) writeStorage(PLAYER_NAME_KEY, name);
+    setNameDraft(null);
+    setPhase('lobby');
+    client.connect(serverUrl.trim(), roomName, name, chosenLevel.id);
+  };
+
+  useEffect(() => () => client.disconnect(), [client]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const stop = client.onCountdown((seconds) => {
+      clearInterval(timer);
+      resetGame(LEVELS.find(({ id }) => id === client.getSnapshot().levelId) ?? LEVELS[0]);
+      setCountdown(seconds);
+      setPhase('countdown');
+      let left = seconds;
+      timer = setInterval(() => {
+        left -= 1;
+        setCountdown(left);
+        if (left > 0) return;
+        clearInterval(timer);
+        setPhase('running');
+      }, 1000);
+    });
+    return () => {
+      stop();
+      clearInterval(timer);
+    };
+  }, [client, resetGame]);
+
+  // An online race cannot be paused, so there is no pause key here
+  useEffect(() => {
+    const mapper = createInputMapper(() => inputsRef.current);
+    return bindInputDevices(mapper, keyBindings);
+  }, [keyBindings]);
+
+  useEffect(() => {
+    // Losing the server mid-race leaves nothing to race against
+    phaseRef.current = connected ? phase : 'lobby';
+  }, [connected, phase]);
+
+  useEffect(() => {
+    tintRef.current = me?.tint;
+  }, [me?.tint]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return fitCanvas(canvas, GAME_CONFIG);
+  }, []);
+
+  const showLobby = connected && (phase === 'lobby' || (phase === 'finished' && room.over));
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-16">
+        <header className="flex flex-col items-center justify-between gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur lg:flex-row">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight text-white sm:text-5xl">
+              Online Race
+            </h1>
+            <p className="mt-3 max-w-xl text-lg text-slate-300">
+              Race coworkers live through a race server. Everyone in a room starts together
+              and sees the others dash alongside them.
+            </p>
+            <p className="mt-2 text-sm uppercase tracking-wide text-slate-400">
+              {connected ? `Room ${room.room} · ${level.name}` : 'Not connected'}
+            </p>
+            <Link
+              href="/"
+              className="mt-1 inline-block text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+            >
+              ← Back to the game
+            </Link>
+          </div>
+          <div className="flex flex-col items-center gap-4">
+            <RunStats hud={hud} racingGhost={false} />
+            {connected && <Standings standings={room.standings} playerId={room.id} />}
+          </div>
+        </header>
+
+        <main className="flex flex-col items-center gap-6">
+          <div className="relative aspect-video max-h-[85dvh] w-full overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl">
+            <canvas
+              ref={canvasRef}
+              width={GAME_CONFIG.width}
+              height={GAME_CONFIG.height}
+              className="absolute"
+            />
+
+            {!connected && (
+              <form
+                onSubmit={join}
+                className="absolute inset-0 flex flex-col items-center justify-center gap-4 overflow-y-auto bg-slate-950/80 py-6 text-sm backdrop-blur-sm"
+              >
+                <h2 className="text-3xl font-semibold">
+                  {room.connection === 'connecting' ? 'Connecting…' : 'Join a Race'}
+                </h2>
+                <div className="grid grid-cols-[auto_16rem] items-center gap-x-3 gap-y-2 text-slate-300">
+                  <label htmlFor="server">Server</label>
+                  <input
+                    id="server"
+                    value={serverUrl}
+                    onChange={(event) => setServerUrl(event.target.value)}
+                    className={inputClass}
+                  />
+                  <label htmlFor="room">Room</label>
+                  <input
+                    id="room"
+                    value={roomName}
+                    onChange={(event) => setRoomName(event.target.value)}
+                    className={inputClass}
+                  />
+                  <label htmlFor="name">Your name</label>
+                  <input
+                    id="name"
+                    value={playerName}
+                    onChange={(event) => setNameDraft(event.target.value)}
+                    maxLength={MAX_NAME_LENGTH}
+                    className={inputClass}
+                  />
+                  <label htmlFor="level">Level</label>
+                  <select
+                    id="level"
+                    value={chosenLevel.id}
+                    onChange={(event) =>
+                      setChosenLevel(LEVELS.find(({ id }) => id === event.target.value) ?? LEVELS[0])
+                    }
+                    className={inputClass}
+                  >
+                    {LEVELS.map(({ id, name }) => (
+                      <option key={id} value={id}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="max-w-md text-center text-slate-400">
+                  The level only applies when you open a new room. Start a server with{' '}
+                  <code className="text-white">bun scripts/race-server.ts</code>.
+                </p>
+                {room.error && <p className="max-w-md text-center text-rose-300">{room.error}</p>}
+                <button
+                  type="submit"
+                  disabled={room.connection === 'connecting'}
+                  className={primaryButtonClass}
+                >
+                  Join Room
+                </button>
+              </form>
+            )}
+
+            {showLobby && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 overflow-y-auto bg-slate-950/80 py-6 backdrop-blur-sm">
+                <h2 className="text-3xl font-semibold">{room.over ? 'Race Over' : 'Waiting Room'}</h2>
+                <ul className="flex flex-col items-center gap-1 text-sm">
+                  {room.players.map((player) => (
+                    <li key={player.id} style={{ color: player.tint }}>
+                      {player.name}
+                      {player.id === room.id && ' (you)'}
+                      <span className="text-slate-400"> · {player.ready ? 'ready' : 'not ready'}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="max-w-md text-center text-base text-slate-300">
+                  The race starts when everyone in the room is ready.
+                </p>
+                {room.error && <p className="max-w-md text-center text-rose-300">{room.error}</p>}
+                <button onClick={client.ready} disabled={me?.ready} className={primaryButtonClass}>
+                  {me?.ready ? 'Waiting for others…' : room.over ? 'Ready for Another' : 'Ready'}
+                </button>
+                <button
+                  onClick={client.disconnect}
+                  className="text-sm font-semibold text-slate-300 transition hover:text-white"
+                >
+                  Leave room
+                </button>
+              </div>
+            )}
+
+            {connected && phase === 'countdown' && (
+              <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+                <p className="text-8xl font-bold text-white drop-shadow-lg">{countdown}</p>
+              </div>
+            )}
+
+            {connected && phase === 'finished' && !room.over && (
+              <div className="absolute inset-x-0 top-6 flex justify-center">
+                <p className="rounded-full border border-white/10 bg-black/60 px-5 py-2 text-sm font-semibold text-slate-200">
+                  {outcome === 'won' ? 'Finished!' : 'Out of the race.'} Waiting
+                  for the others…
+                </p>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,630 +1,476 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-
-type Rect = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-};
-
-type Platform = Rect & {
-  type: 'solid' | 'bounce';
-  strength?: number;
-};
-
-type Coin = Rect & {
-  active: boolean;
-  spinOffset: number;
-};
-
-type Goal = Rect;
-
-type Player = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  vy: number;
-  onGround: boolean;
-};
-
-type GameStatus = 'idle' | 'running' | 'won' | 'lost';
-
-const GAME_CONFIG = {
-  width: 960,
-  height: 540,
-  gravity: 2200,
-  moveSpeed: 320,
-  jumpSpeed: 840,
-  bounceBonus: 1080,
-  timeLimit: 75,
-};
-
-const createPlatforms = (): Platform[] => [
-  { x: 0, y: 500, width: 960, height: 40, type: 'solid' },
-  { x: 80, y: 420, width: 200, height: 16, type: 'solid' },
-  { x: 340, y: 360, width: 160, height: 16, type: 'solid' },
-  { x: 620, y: 320, width: 220, height: 16, type: 'solid' },
-  { x: 220, y: 260, width: 140, height: 16, type: 'solid' },
-  { x: 460, y: 210, width: 160, height: 16, type: 'solid' },
-  { x: 120, y: 160, width: 120, height: 16, type: 'solid' },
-  { x: 760, y: 180, width: 160, height: 16, type: 'solid' },
-  { x: 640, y: 90, width: 140, height: 16, type: 'solid' },
-  { x: 340, y: 120, width: 120, height: 16, type: 'solid' },
-  { x: 540, y: 420, width: 120, height: 16, type: 'bounce', strength: GAME_CONFIG.bounceBonus },
-  { x: 820, y: 260, width: 100, height: 16, type: 'bounce', strength: GAME_CONFIG.bounceBonus + 220 },
-];
-
-const createCoins = (): Coin[] =>
-  [
-    { x: 120, y: 370, width: 24, height: 24 },
-    { x: 400, y: 310, width: 24, height: 24 },
-    { x: 680, y: 270, width: 24, height: 24 },
-    { x: 260, y: 210, width: 24, height: 24 },
-    { x: 500, y: 160, width: 24, height: 24 },
-    { x: 820, y: 120, width: 24, height: 24 },
-    { x: 360, y: 70, width: 24, height: 24 },
-    { x: 680, y: 40, width: 24, height: 24 },
-  ].map((coin, index) => ({
-    ...coin,
-    active: true,
-    spinOffset: (index * Math.PI) / 4,
-  }));
-
-const GOAL: Goal = {
-  x: 840,
-  y: 20,
-  width: 80,
-  height: 100,
-};
-
-const rectsOverlap = (a: Rect, b: Rect) =>
-  a.x < b.x + b.width &&
-  a.x + a.width > b.x &&
-  a.y < b.y + b.height &&
-  a.y + a.height > b.y;
-
-const drawRoundedRect = (
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number,
-) => {
-  const r = Math.min(radius, width / 2, height / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + r, y);
-  ctx.lineTo(x + width - r, y);
-  ctx.quadraticCurveTo(x + width, y, x + width, y + r);
-  ctx.lineTo(x + width, y + height - r);
-  ctx.quadraticCurveTo(x + width, y + height, x + width - r, y + height);
-  ctx.lineTo(x + r, y + height);
-  ctx.quadraticCurveTo(x, y + height, x, y + height - r);
-  ctx.lineTo(x, y + r);
-  ctx.quadraticCurveTo(x, y, x + r, y);
-  ctx.closePath();
-};
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ChangeEvent, PointerEvent } from 'react';
+import ControlsSettings from '../components/ControlsSettings';
+import DebugPanel from '../components/DebugPanel';
+import FullscreenButton from '../components/FullscreenButton';
+import Leaderboard from '../components/Leaderboard';
+import ModePicker from '../components/ModePicker';
+import MotionSettings from '../components/MotionSettings';
+import PauseMenu from '../components/PauseMenu';
+import RunStats from '../components/RunStats';
+import RunSummary, { type RunResult } from '../components/RunSummary';
+import SeedRun from '../components/SeedRun';
+import TouchControls from '../components/TouchControls';
+import VolumeSettings from '../components/VolumeSettings';
+import { useGameLoop, type FrameLoopContext } from '../components/useGameLoop';
+import { createPlayerAnimation, updatePlayerAnimation, type PlayerAnimation } from '../game/animation';
+import { saveAudioSettings, soundForEvent } from '../game/audio';
+import { createBot, type Bot } from '../game/bot';
+import { centerCamera, createCamera, followCamera, type Camera } from '../game/camera';
+import { GAME_CONFIG } from '../game/config';
+import {
+  applyTuning,
+  DEBUG_TOGGLE_KEY,
+  isDebugEnabled,
+  readTuning,
+  type Tuning,
+} from '../game/debug';
+import { downloadJson } from '../game/download';
+import {
+  celebrate,
+  CELEBRATION_TIME,
+  createEffects,
+  REDUCED_MOTION_KEY,
+  shakeOffset,
+  triggerEffects,
+  updateEffects,
+  type MotionSetting,
+} from '../game/effects';
+import {
+  createEngineState,
+  createInput,
+  FIXED_TIMESTEP,
+  isGoalOpen,
+  type EngineState,
+} from '../game/engine';
+import {
+  bestGhostKey,
+  createGhost,
+  finishDelta,
+  ghostPositionAt,
+  parseGhost,
+  parseStoredGhost,
+  saveBestGhost,
+  serializeGhost,
+  splitDelta,
+  type Ghost,
+} from '../game/ghost';
+import { createHud, hudStatsOf } from '../game/hud';
+import {
+  ACTION_LABELS,
+  ACTIONS,
+  bindInputDevices,
+  createInputMapper,
+  formatKey,
+  saveKeyBindings,
+  type InputMapper,
+} from '../game/input';
+import {
+  addLeaderboardEntry,
+  leaderboardKey,
+  parseLeaderboard,
+  PLAYER_NAME_KEY,
+  rankOf,
+  updatePersonalBest,
+  type LeaderboardEntry,
+} from '../game/leaderboard';
+import {
+  findLevel,
+  generateLevel,
+  getLevelIndex,
+  getNextLevel,
+  LEVELS,
+  randomSeed,
+  seedOfLevel,
+} from '../game/levels';
+import {
+  createRun,
+  DEFAULT_GAME_MODE,
+  getGameMode,
+  leaderboardIdOf,
+  respawnAtPoint,
+  stepRun,
+  type GameMode,
+  type GameModeId,
+} from '../game/modes';
+import { subscribeToNothing } from '../game/query';
+import { createRenderer } from '../game/render';
+import {
+  createRecorder,
+  LAST_REPLAY_KEY,
+  serializeReplay,
+  simulateReplay,
+  type Recorder,
+  type Replay,
+} from '../game/replay';
+import { scoreRun } from '../game/score';
+import { getSpriteAtlas, type SpriteAtlas } from '../game/sprites';
+import { readStorage, subscribeToStorage, writeStorage } from '../game/storage';
+import type { GameStatus, InputState, LevelDefinition } from '../game/types';
+import { fitCanvas, toCanvasPoint } from '../game/viewport';
+
+const toLeaderboardEntry = (result: RunResult, name: string): LeaderboardEntry => ({
+  name,
+  score: result.score.total,
+  status: result.status,
+  collected: result.collected,
+  elapsed: result.elapsed,
+  recordedAt: result.recordedAt,
+});
 
 export default function Home() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const requestRef = useRef<number | null>(null);
-  const lastTickRef = useRef<number | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const ghostInputRef = useRef<HTMLInputElement | null>(null);
 
   const [status, setStatus] = useState<GameStatus>('idle');
-  const [timeLeft, setTimeLeft] = useState<number>(GAME_CONFIG.timeLimit);
-  const [coins, setCoins] = useState<Coin[]>(() => createCoins());
-  const [collected, setCollected] = useState<number>(0);
-
-  const platforms = useMemo(() => createPlatforms(), []);
-
-  const playerRef = useRef<Player>({
-    x: 40,
-    y: 420,
-    width: 36,
-    height: 42,
-    vx: 0,
-    vy: 0,
-    onGround: false,
-  });
-
-  const inputsRef = useRef({
-    left: false,
-    right: false,
-    jump: false,
-    jumpBuffer: false,
-  });
-
-  const timeRef = useRef<number>(GAME_CONFIG.timeLimit);
-
-  const resetGame = useCallback(() => {
-    playerRef.current = {
-      x: 40,
-      y: 420,
-      width: 36,
-      height: 42,
-      vx: 0,
-      vy: 0,
-      onGround: false,
-    };
-    inputsRef.current = {
-      left: false,
-      right: false,
-      jump: false,
-      jumpBuffer: false,
-    };
-    setCoins(createCoins());
-    setCollected(0);
-    setTimeLeft(GAME_CONFIG.timeLimit);
-    timeRef.current = GAME_CONFIG.timeLimit;
-    lastTickRef.current = null;
-  }, []);
-
-  const startGame = useCallback(() => {
-    resetGame();
-    setStatus('running');
-  }, [resetGame]);
-
-  const stopGame = useCallback((nextStatus: GameStatus) => {
-    if (requestRef.current) {
-      cancelAnimationFrame(requestRef.current);
-      requestRef.current = null;
-    }
-    setStatus(nextStatus);
-  }, []);
-
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.repeat) return;
-      switch (event.key.toLowerCase()) {
-        case 'arrowleft':
-        case 'a':
-          inputsRef.current.left = true;
-          break;
-        case 'arrowright':
-        case 'd':
-          inputsRef.current.right = true;
-          break;
-        case 'arrowup':
-        case 'w':
-        case ' ':
-          inputsRef.current.jump = true;
-          inputsRef.current.jumpBuffer = true;
-          break;
-        default:
-          break;
-      }
-    };
-
-    const handleKeyUp = (event: KeyboardEvent) => {
-      switch (event.key.toLowerCase()) {
-        case 'arrowleft':
-        case 'a':
-          inputsRef.current.left = false;
-          break;
-        case 'arrowright':
-        case 'd':
-          inputsRef.current.right = false;
-          break;
-        case 'arrowup':
-        case 'w':
-        case ' ':
-          inputsRef.current.jump = false;
-          break;
-        default:
-          break;
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, []);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const drawBackground = () => {
-      // background gradient
-      const gradient = ctx.createLinearGradient(0, 0, 0, GAME_CONFIG.height);
-      gradient.addColorStop(0, '#1f2a63');
-      gradient.addColorStop(1, '#0d0f1d');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, GAME_CONFIG.width, GAME_CONFIG.height);
-
-      // decorative grids
-      ctx.save();
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
-      ctx.lineWidth = 1;
-      for (let x = 0; x < GAME_CONFIG.width; x += 40) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, GAME_CONFIG.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y < GAME_CONFIG.height; y += 40) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(GAME_CONFIG.width, y);
-        ctx.stroke();
-      }
-      ctx.restore();
-    };
-
-    const drawPlatforms = () => {
-      platforms.forEach((platform) => {
-        if (platform.type === 'solid') {
-          ctx.fillStyle = '#4f46e5';
-          ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-          ctx.fillStyle = '#6366f1';
-          ctx.fillRect(platform.x, platform.y, platform.width, 6);
-        } else {
-          ctx.fillStyle = '#fb923c';
-          ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-          ctx.fillStyle = '#f97316';
-          ctx.fillRect(platform.x, platform.y, platform.width, 6);
-        }
-      });
-    };
-
-    const drawGoal = () => {
-      ctx.fillStyle = '#22d3ee';
-      ctx.fillRect(GOAL.x, GOAL.y, GOAL.width, GOAL.height);
-      ctx.fillStyle = '#0ea5e9';
-      ctx.fillRect(GOAL.x, GOAL.y, GOAL.width, 8);
-      ctx.fillStyle = 'rgba(255,255,255,0.35)';
-      ctx.fillRect(GOAL.x + 12, GOAL.y + 16, GOAL.width - 24, GOAL.height - 32);
-    };
-
-    const drawCoins = (time: number) => {
-      coins.forEach((coin) => {
-        if (!coin.active) return;
-        const bounce = Math.sin(time * 4 + coin.spinOffset) * 4;
-        const shimmer = (Math.sin(time * 6 + coin.spinOffset) + 1) / 2;
-        const width = coin.width * (0.7 + shimmer * 0.3);
-
-        ctx.save();
-        ctx.translate(coin.x + coin.width / 2, coin.y + bounce);
-        ctx.fillStyle = '#facc15';
-        ctx.beginPath();
-        ctx.ellipse(0, 0, width / 2, coin.height / 2, 0, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = '#fde047';
-        ctx.beginPath();
-        ctx.ellipse(0, 0, (width / 2) * 0.6, (coin.height / 2) * 0.6, 0, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-      });
-    };
-
-    const drawPlayer = () => {
-      const player = playerRef.current;
-      ctx.save();
-      ctx.translate(player.x + player.width / 2, player.y + player.height / 2);
-      ctx.fillStyle = '#f472b6';
-      drawRoundedRect(
-        ctx,
-        -player.width / 2,
-        -player.height / 2,
-        player.width,
-        player.height,
-        12,
-      );
-      ctx.fill();
-
-      ctx.fillStyle = '#1f2937';
-      ctx.beginPath();
-      ctx.arc(-6, -6, 5, 0, Math.PI * 2);
-      ctx.arc(6, -6, 5, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.restore();
-    };
-
-    const render = (time: number) => {
-      drawBackground();
-      drawPlatforms();
-      drawGoal();
-      drawCoins(time);
-      drawPlayer();
-    };
-
-    render(0);
-  }, [coins, platforms]);
-
-  useEffect(() => {
-    if (status !== 'running') {
-      return;
-    }
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    const activeCoins = coins;
-    const player = playerRef.current;
-
-    const update = (timestamp: number) => {
-      if (status !== 'running') return;
-
-      if (lastTickRef.current === null) {
-        lastTickRef.current = timestamp;
-      }
-
-      const delta = (timestamp - (lastTickRef.current ?? timestamp)) / 1000;
-      lastTickRef.current = timestamp;
-
-      timeRef.current -= delta;
-      if (timeRef.current <= 0) {
-        setTimeLeft(0);
-        stopGame('lost');
-        return;
-      }
-      setTimeLeft(timeRef.current);
-
-      const input = inputsRef.current;
-
-      if (input.left === input.right) {
-        player.vx = 0;
-      } else if (input.left) {
-        player.vx = -GAME_CONFIG.moveSpeed;
-      } else if (input.right) {
-        player.vx = GAME_CONFIG.moveSpeed;
-      }
-
-      player.vy += GAME_CONFIG.gravity * delta;
-      player.vy = Math.min(player.vy, GAME_CONFIG.gravity);
-
-      // Horizontal movement
-      player.x += player.vx * delta;
-      if (player.x < 0) {
-        player.x = 0;
-      }
-      if (player.x + player.width > GAME_CONFIG.width) {
-        player.x = GAME_CONFIG.width - player.width;
-      }
-
-      platforms.forEach((platform) => {
-        const intersects = rectsOverlap(
-          {
-            x: player.x,
-            y: player.y,
-            width: player.width,
-            height: player.height,
-          },
-          platform,
-        );
-        if (!intersects) return;
-
-        if (player.vx > 0) {
-          player.x = platform.x - player.width;
-        } else if (player.vx < 0) {
-          player.x = platform.x + platform.width;
+  const [modeId, setModeId] = useState<GameModeId>(DEFAULT_GAME_MODE);
+  const [level, setLevel] = useState<LevelDefinition>(LEVELS[0]);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [importedGhost, setImportedGhost] = useState<Ghost | null>(null);
+  const [ghostError, setGhostError] = useState<string | null>(null);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [autoplay, setAutoplay] = useState(false);
+  const mode = getGameMode(modeId);
+
+  const storedName = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(PLAYER_NAME_KEY),
+    () => null,
+  );
+  const leaderboardId = leaderboardIdOf(mode, level.id);
+  const storedLeaderboard = useSyncExternalStore(
+    subscribeToStorage,
+    () => (leaderboardId ? readStorage(leaderboardKey(leaderboardId)) : null),
+    () => null,
+  );
+  const leaderboard = useMemo(() => parseLeaderboard(storedLeaderboard), [storedLeaderboard]);
+  const storedGhost = useSyncExternalStore(
+    subscribeToStorage,
+    () => (leaderboardId ? readStorage(bestGhostKey(leaderboardId)) : null),
+    () => null,
+  );
+  const bestGhost = useMemo(() => parseStoredGhost(storedGhost), [storedGhost]);
+  const playerName = nameDraft ?? storedName ?? '';
+  const [editingControls, setEditingControls] = useState(false);
+  const debugEnabled = useSyncExternalStore(
+    subscribeToNothing,
+    () => isDebugEnabled(window.location.search),
+    () => false,
+  );
+  const [debugOpen, setDebugOpen] = useState(true);
+  const [hitboxes, setHitboxes] = useState(true);
+  const [tuning, setTuning] = useState<Tuning | null>(null);
+  const defaultTuning = useMemo(() => readTuning(createEngineState(level)), [level]);
+
+  const [hud] = useState(() => createHud({ ...hudStatsOf(createEngineState(LEVELS[0])), split: null }));
+
+  const engineRef = useRef<EngineState>(createEngineState(LEVELS[0]));
+  const inputsRef = useRef<InputState>(createInput());
+  const cameraRef = useRef<Camera>(createCamera());
+  const recorderRef = useRef<Recorder>(createRecorder());
+  const mapperRef = useRef<InputMapper | null>(null);
+  const tuningRef = useRef<Tuning | null>(null);
+  const hitboxesRef = useRef(false);
+  const animationRef = useRef<PlayerAnimation>(createPlayerAnimation());
+  const effectsRef = useRef(createEffects());
+  const statusRef = useRef<GameStatus>('idle');
+  const modeRef = useRef<GameMode>(getGameMode(DEFAULT_GAME_MODE));
+  const levelRef = useRef<LevelDefinition>(LEVELS[0]);
+  const ghostRef = useRef<Ghost | null>(null);
+  /** Plays the run in place of the player's input while autoplay is on. */
+  const botRef = useRef<Bot | null>(null);
+
+  const start = useCallback(
+    ({ audio, advance, reducedMotion }: FrameLoopContext) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+
+      // One loop for the page's lifetime; it reads status, level and ghost from
+      // refs, so nothing it depends on ever restarts it
+      const renderer = createRenderer(ctx);
+      let celebration = 0;
+      let drawn: {
+        state: EngineState;
+        sprites: SpriteAtlas | null;
+        hitboxes: boolean;
+        width: number;
+        height: number;
+      } | null = null;
+
+      return (delta: number, time: number) => {
+        const running = statusRef.current === 'running';
+        const effects = effectsRef.current;
+        const reduced = reducedMotion.current;
+        const ghost = ghostRef.current;
+        const mode = modeRef.current;
+        const previous = engineRef.current;
+        let state = previous;
+        if (running) {
+          for (let ticks = advance(delta); ticks > 0 && state.status === 'running'; ticks -= 1) {
+            const input = botRef.current?.act(state) ?? inputsRef.current;
+            recorderRef.current.record(input);
+            state = stepRun(mode, state, input, FIXED_TIMESTEP);
+            inputsRef.current.jumpBuffer = false;
+            triggerEffects(effects, state.events, reduced);
+            state.events.forEach((event) => {
+              const sound = soundForEvent(event);
+              if (sound) audio.play(sound);
+            });
+          }
+          engineRef.current = state;
+          // Endless climbs move everything down to make room above; the view moves with it
+          const scrolled = state.scroll - previous.scroll;
+          if (scrolled !== 0) {
+            cameraRef.current = { ...cameraRef.current, y: cameraRef.current.y + scrolled };
+            effects.particles.particles.forEach((particle) => {
+              particle.y += scrolled;
+            });
+          }
+          // Without a clock to beat the music never speeds up
+          audio.setTimeLeft(mode.rules.timed ? state.timeLeft : Infinity);
+          if (state.status !== previous.status) audio.play(state.status === 'won' ? 'win' : 'lose');
+          if (state.status === 'won' && previous.status === 'running') {
+            celebrate(effects, state.goal, reduced);
+          }
         }
-        player.vx = 0;
-      });
-
-      // Vertical movement
-      player.y += player.vy * delta;
-      player.onGround = false;
-
-      if (player.y + player.height >= GAME_CONFIG.height) {
-        player.y = GAME_CONFIG.height - player.height;
-        player.vy = 0;
-        player.onGround = true;
-      }
-
-      platforms.forEach((platform) => {
-        const intersects = rectsOverlap(
-          {
-            x: player.x,
-            y: player.y,
-            width: player.width,
-            height: player.height,
-          },
-          platform,
-        );
-        if (!intersects) return;
-
-        const wasFalling = player.vy > 0;
-        const wasJumping = player.vy < 0;
-
-        if (wasFalling) {
-          player.y = platform.y - player.height;
-          player.vy = 0;
-          player.onGround = true;
-          if (platform.type === 'bounce') {
-            player.vy = -(
-              platform.strength ?? GAME_CONFIG.bounceBonus
-            );
-            player.onGround = false;
+        if (state.status === 'running') celebration = 0;
+        // A win keeps the scene going a moment longer so the celebration can play out
+        const celebrating = state.status === 'won' && !reduced && celebration < CELEBRATION_TIME;
+
+        if (running) {
+          hud.update(hudStatsOf(state));
+          if (state.coins !== previous.coins && ghost) {
+            const gap = splitDelta(ghost, state.collected, state.tick);
+            if (gap !== null) hud.update({ split: gap });
           }
-        } else if (wasJumping) {
-          player.y = platform.y + platform.height;
-          player.vy = 0;
         }
-      });
-
-      // Jump handling
-      if (input.jumpBuffer) {
-        if (player.onGround) {
-          player.vy = -GAME_CONFIG.jumpSpeed;
-          player.onGround = false;
-          input.jumpBuffer = false;
+        if (running && state.status !== 'running' && !celebrating) {
+          const replay = recorderRef.current.finish(state, FIXED_TIMESTEP, mode.id);
+          setLastReplay(mode.replays ? replay : null);
+          if (mode.replays) writeStorage(LAST_REPLAY_KEY, serializeReplay(replay));
+          const score = scoreRun(state, mode.scoring);
+          // The bot's runs are for watching, not for personal bests, ghosts or the leaderboard
+          const bot = botRef.current !== null;
+          // Runs with debug tuning would not compete fairly against untuned ones
+          const tuned = tuningRef.current !== null;
+          const board = leaderboardIdOf(mode, state.levelId);
+          const previousBest = bot || tuned || board === null ? null : updatePersonalBest(board, score.total);
+          setResult({
+            levelId: state.levelId,
+            mode: mode.id,
+            status: state.status,
+            score,
+            collected: state.collected,
+            total: state.coins.length,
+            elapsed: state.tick * FIXED_TIMESTEP,
+            recordedAt: replay.recordedAt,
+            previousBest,
+            savedRank: null,
+            autoplay: bot,
+            tuned,
+          });
+          if (state.status === 'won' && !bot && !tuned && mode.ghosts && board !== null) {
+            if (ghost) hud.update({ split: finishDelta(ghost, state.tick) });
+            const run = createGhost(simulateReplay(replay, levelRef.current), {
+              name: 'Personal best',
+              recordedAt: replay.recordedAt,
+              timestep: replay.timestep,
+            });
+            saveBestGhost(run, board);
+          }
+          // Updated here as well so the next frame does not finish the run a second time
+          statusRef.current = state.status;
+          setStatus(state.status);
+          return;
         }
-      } else if (!input.jump) {
-        input.jumpBuffer = false;
-      }
 
-      // Coin collection
-      let newlyCollected = 0;
-      const updatedCoins = activeCoins.map((coin) => {
-        if (!coin.active) {
-          return coin;
-        }
+        const sprites = getSpriteAtlas();
+        const hitboxes = hitboxesRef.current;
+        const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+        // Outside a run the scene only changes on a reset, a tuning tweak, the atlas
+        // loading or a resize, which also clears the canvas
         if (
-          rectsOverlap(
-            {
-              x: player.x,
-              y: player.y,
-              width: player.width,
-              height: player.height,
-            },
-            coin,
-          )
+          !running &&
+          drawn?.state === state &&
+          drawn.sprites === sprites &&
+          drawn.hitboxes === hitboxes &&
+          drawn.width === canvasWidth &&
+          drawn.height === canvasHeight
         ) {
-          newlyCollected += 1;
-          return { ...coin, active: false };
+          return;
         }
-        return coin;
-      });
+        drawn = { state, sprites, hitboxes, width: canvasWidth, height: canvasHeight };
 
-      if (newlyCollected > 0) {
-        setCoins(updatedCoins);
-        setCollected((prev) => prev + newlyCollected);
-      }
+        if (celebrating) celebration += delta;
 
-      // Goal check
-      if (
-        rectsOverlap(
+        const { width, height } = state.player;
+        const ghosts = ghost ? [{ ...ghostPositionAt(ghost, state.tick), width, height }] : [];
+        if (running) {
+          cameraRef.current = followCamera(cameraRef.current, state.player, state.world, delta);
+          animationRef.current = updatePlayerAnimation(animationRef.current, state.player, delta);
+          updateEffects(effects, delta, state.goal, reduced);
+        }
+        const shake = shakeOffset(effects, time);
+        renderer.draw(
           {
-            x: player.x,
-            y: player.y,
-            width: player.width,
-            height: player.height,
+            ...state,
+            ghosts,
+            goalLocked: !isGoalOpen(state),
+            hitboxes,
+            sprites,
+            animation: animationRef.current,
+            particles: effects.particles.particles,
+            stretch: effects.stretch,
           },
-          GOAL,
-        )
-      ) {
-        stopGame('won');
-        return;
-      }
+          { ...cameraRef.current, x: cameraRef.current.x + shake.x, y: cameraRef.current.y + shake.y },
+          time,
+        );
+      };
+    },
+    [hud],
+  );
 
-      // Respawn if falling
-      if (player.y > GAME_CONFIG.height + 200) {
-        player.x = 40;
-        player.y = 420;
-        player.vx = 0;
-        player.vy = 0;
-        player.onGround = false;
-        timeRef.current = Math.max(0, timeRef.current - 5);
-      }
+  const pause = useCallback(() => setStatus('paused'), []);
+  const { audio, audioSettings, motion, systemPrefersReduced, keyBindings } = useGameLoop({
+    running: status === 'running',
+    pause,
+    start,
+  });
 
-      // Render
-      const time = timestamp / 1000;
-      ctx.clearRect(0, 0, GAME_CONFIG.width, GAME_CONFIG.height);
-      const gradient = ctx.createLinearGradient(0, 0, 0, GAME_CONFIG.height);
-      gradient.addColorStop(0, '#1f2a63');
-      gradient.addColorStop(1, '#0d0f1d');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, GAME_CONFIG.width, GAME_CONFIG.height);
-
-      ctx.save();
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
-      ctx.lineWidth = 1;
-      for (let x = 0; x < GAME_CONFIG.width; x += 40) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, GAME_CONFIG.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y < GAME_CONFIG.height; y += 40) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(GAME_CONFIG.width, y);
-        ctx.stroke();
-      }
-      ctx.restore();
-
-      platforms.forEach((platform) => {
-        if (platform.type === 'solid') {
-          ctx.fillStyle = '#4f46e5';
-          ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-          ctx.fillStyle = '#6366f1';
-          ctx.fillRect(platform.x, platform.y, platform.width, 6);
-        } else {
-          ctx.fillStyle = '#fb923c';
-          ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-          ctx.fillStyle = '#f97316';
-          ctx.fillRect(platform.x, platform.y, platform.width, 6);
-        }
-      });
-
-      ctx.fillStyle = '#22d3ee';
-      ctx.fillRect(GOAL.x, GOAL.y, GOAL.width, GOAL.height);
-      ctx.fillStyle = '#0ea5e9';
-      ctx.fillRect(GOAL.x, GOAL.y, GOAL.width, 8);
-      ctx.fillStyle = 'rgba(255,255,255,0.35)';
-      ctx.fillRect(GOAL.x + 12, GOAL.y + 16, GOAL.width - 24, GOAL.height - 32);
-
-      updatedCoins.forEach((coin) => {
-        if (!coin.active) return;
-        const bounce = Math.sin(time * 4 + coin.spinOffset) * 4;
-        const shimmer = (Math.sin(time * 6 + coin.spinOffset) + 1) / 2;
-        const width = coin.width * (0.7 + shimmer * 0.3);
-        ctx.save();
-        ctx.translate(coin.x + coin.width / 2, coin.y + bounce);
-        ctx.fillStyle = '#facc15';
-        ctx.beginPath();
-        ctx.ellipse(0, 0, width / 2, coin.height / 2, 0, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = '#fde047';
-        ctx.beginPath();
-        ctx.ellipse(0, 0, (width / 2) * 0.6, (coin.height / 2) * 0.6, 0, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-      });
-
-      ctx.save();
-      ctx.translate(player.x + player.width / 2, player.y + player.height / 2);
-      ctx.fillStyle = '#f472b6';
-      drawRoundedRect(
-        ctx,
-        -player.width / 2,
-        -player.height / 2,
-        player.width,
-        player.height,
-        12,
-      );
-      ctx.fill();
-      ctx.fillStyle = '#1f2937';
-      ctx.beginPath();
-      ctx.arc(-6, -6, 5, 0, Math.PI * 2);
-      ctx.arc(6, -6, 5, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.restore();
-
-      requestRef.current = requestAnimationFrame(update);
-    };
+  const levelIndex = getLevelIndex(level.id);
+  const nextLevel = getNextLevel(level.id);
+  const importedLevel = useMemo(
+    () => (importedGhost ? findLevel(importedGhost.levelId) : null),
+    [importedGhost],
+  );
+  const ghost = !mode.ghosts ? null : importedGhost?.levelId === level.id ? importedGhost : bestGhost;
+
+  const resetGame = useCallback((levelToPlay: LevelDefinition, modeToPlay: GameMode) => {
+    const fresh = createRun(modeToPlay, levelToPlay);
+    const engine = tuningRef.current ? applyTuning(fresh, tuningRef.current) : fresh;
+    engineRef.current = engine;
+    cameraRef.current = centerCamera(createCamera(), engine.player, engine.world);
+    animationRef.current = createPlayerAnimation();
+    effectsRef.current = createEffects();
+    setLevel(levelToPlay);
+    inputsRef.current = createInput();
+    recorderRef.current = createRecorder(tuningRef.current?.timeLimit);
+    hud.update({ ...hudStatsOf(engine), split: null });
+    setResult(null);
+  }, [hud]);
+
+  const startGame = useCallback(
+    (levelToPlay: LevelDefinition, withBot = false) => {
+      // Starting a run is a user gesture, which browsers require before sound can play
+      audio.unlock();
+      resetGame(levelToPlay, mode);
+      const bot = withBot && mode.autoplay;
+      botRef.current = bot ? createBot(levelToPlay, engineRef.current.movement) : null;
+      setAutoplay(bot);
+      setStatus('running');
+    },
+    [audio, mode, resetGame],
+  );
 
-    requestRef.current = requestAnimationFrame(update);
+  const changeMode = (id: GameModeId) => {
+    const next = getGameMode(id);
+    setModeId(id);
+    // Modes that extend the level as it is played need one laid out from a seed
+    resetGame(next.generated && !seedOfLevel(level.id) ? generateLevel(randomSeed()) : level, next);
+  };
 
-    return () => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-        requestRef.current = null;
-      }
+  useEffect(() => {
+    const mapper = createInputMapper(() => inputsRef.current);
+    mapperRef.current = mapper;
+    return bindInputDevices(mapper, keyBindings, () =>
+      setStatus((current) =>
+        current === 'running' ? 'paused' : current === 'paused' ? 'running' : current,
+      ),
+    );
+  }, [keyBindings]);
+
+  const getEngineState = useCallback(() => engineRef.current, []);
+
+  const changeTuning = (next: Tuning | null) => {
+    tuningRef.current = next;
+    setTuning(next);
+    engineRef.current = applyTuning(engineRef.current, next ?? defaultTuning);
+    hud.update(hudStatsOf(engineRef.current));
+  };
+
+  useEffect(() => {
+    if (!debugEnabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === DEBUG_TOGGLE_KEY && !event.repeat) setDebugOpen((open) => !open);
     };
-  }, [coins, platforms, status, stopGame]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [debugEnabled]);
+
+  useEffect(() => {
+    hitboxesRef.current = debugEnabled && debugOpen && hitboxes;
+  }, [debugEnabled, debugOpen, hitboxes]);
+
+  useEffect(() => {
+    statusRef.current = status;
+    modeRef.current = mode;
+    levelRef.current = level;
+    ghostRef.current = ghost;
+  }, [status, mode, level, ghost]);
+
+  const changeMotion = (setting: MotionSetting) => writeStorage(REDUCED_MOTION_KEY, setting);
 
   useEffect(() => {
-    if (status !== 'running') {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-        requestRef.current = null;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return fitCanvas(canvas, GAME_CONFIG);
+  }, []);
+
+  const saveResult = () => {
+    const board = result && leaderboardIdOf(getGameMode(result.mode), result.levelId);
+    if (!result || !board || result.autoplay || result.tuned) return;
+    const name = playerName.trim();
+    writeStorage(PLAYER_NAME_KEY, name);
+    setNameDraft(null);
+    const rank = addLeaderboardEntry(board, toLeaderboardEntry(result, name));
+    setResult({ ...result, savedRank: rank });
+  };
+
+  const pendingRank =
+    result && result.savedRank === null && !result.autoplay && !result.tuned && leaderboardId
+      ? rankOf(leaderboard, toLeaderboardEntry(result, playerName))
+      : null;
+
+  /** Practice lets a click or tap on any platform put the player back on it. */
+  const respawnOnPickedPlatform = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (status !== 'running' || !mode.respawnAnywhere) return;
+    const point = toCanvasPoint(event.currentTarget, GAME_CONFIG, event.clientX, event.clientY);
+    engineRef.current = respawnAtPoint(mode, engineRef.current, {
+      x: cameraRef.current.x + point.x,
+      y: cameraRef.current.y + point.y,
+    });
+  };
+
+  const handleGhostImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGhost(await file.text(), file.name);
+      if (!findLevel(imported.levelId)) {
+        throw new Error(`${file.name} is a ghost for "${imported.levelId}", which is not a level this game has.`);
       }
-      lastTickRef.current = null;
+      setImportedGhost(imported);
+      setGhostError(null);
+    } catch (error) {
+      setGhostError(error instanceof Error ? error.message : String(error));
     }
-  }, [status]);
+  };
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50">
@@ -638,73 +484,229 @@ export default function Home() {
               Dash across neon platforms, grab shimmering data coins, and rocket off
               bounce pads to reach the exit portal before the clock hits zero.
             </p>
-          </div>
-          <div className="flex items-center gap-6 rounded-2xl border border-white/10 bg-black/30 px-6 py-4 shadow-lg">
-            <div className="text-center">
-              <p className="text-xs uppercase tracking-wide text-slate-400">
-                Time Left
-              </p>
-              <p className="text-3xl font-semibold text-cyan-300">
-                {Math.max(0, timeLeft).toFixed(1)}s
-              </p>
-            </div>
-            <div className="h-12 w-px bg-white/10" aria-hidden />
-            <div className="text-center">
-              <p className="text-xs uppercase tracking-wide text-slate-400">
-                Coins
-              </p>
-              <p className="text-3xl font-semibold text-amber-300">
-                {collected} / {coins.length}
-              </p>
+            <p className="mt-2 text-sm uppercase tracking-wide text-slate-400">
+              {levelIndex >= 0 ? `Level ${levelIndex + 1} of ${LEVELS.length} · ${level.name}` : level.name}
+              {mode.id !== DEFAULT_GAME_MODE && ` · ${mode.label}`}
+            </p>
+            <div className="mt-1 flex flex-wrap gap-x-4 text-sm font-semibold">
+              <Link href="/editor" className="text-cyan-300 transition hover:text-cyan-200">
+                Open the level editor →
+              </Link>
+              <Link href="/race" className="text-cyan-300 transition hover:text-cyan-200">
+                Race a friend →
+              </Link>
+              <Link href="/online" className="text-cyan-300 transition hover:text-cyan-200">
+                Race online →
+              </Link>
             </div>
           </div>
+          <RunStats hud={hud} racingGhost={ghost !== null} show={mode.hud} />
         </header>
 
         <main className="flex flex-col items-center gap-6">
-          <div className="relative w-full overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl">
+          <div
+            ref={stageRef}
+            className="relative aspect-video max-h-[85dvh] w-full overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl [&:fullscreen]:max-h-none [&:fullscreen]:rounded-none [&:fullscreen]:border-0 [&:fullscreen]:bg-black"
+          >
             <canvas
               ref={canvasRef}
               width={GAME_CONFIG.width}
               height={GAME_CONFIG.height}
-              className="h-auto w-full"
+              onPointerDown={respawnOnPickedPlatform}
+              className={`absolute ${status === 'running' && mode.respawnAnywhere ? 'cursor-crosshair' : ''}`}
             />
             <div className="pointer-events-none absolute inset-0 rounded-3xl border border-white/5 shadow-inner shadow-cyan-500/10" />
+            {status === 'running' && autoplay && (
+              <button
+                onClick={() => setStatus('paused')}
+                className="absolute right-4 top-4 z-10 rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 backdrop-blur transition hover:bg-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200"
+              >
+                Autoplay · Pause
+              </button>
+            )}
+            {status === 'running' && !autoplay && (
+              <TouchControls
+                onAction={(action, pressed) => mapperRef.current?.set('touch', action, pressed)}
+                onPause={() => setStatus('paused')}
+              />
+            )}
+
+            {status === 'paused' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 overflow-y-auto bg-slate-950/80 py-6 text-center backdrop-blur-sm">
+                <PauseMenu
+                  keyBindings={keyBindings}
+                  onKeyBindingsChange={saveKeyBindings}
+                  motion={motion}
+                  onMotionChange={changeMotion}
+                  systemPrefersReduced={systemPrefersReduced}
+                  audioSettings={audioSettings}
+                  onAudioSettingsChange={saveAudioSettings}
+                  onResume={() => setStatus('running')}
+                  onRestart={() => startGame(level, autoplay)}
+                  onQuit={() => {
+                    resetGame(level, mode);
+                    setStatus('idle');
+                  }}
+                />
+              </div>
+            )}
 
-            {status !== 'running' && (
-              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-slate-950/80 backdrop-blur-sm">
+            {status !== 'running' && status !== 'paused' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 overflow-y-auto bg-slate-950/80 py-6 backdrop-blur-sm">
                 <h2 className="text-3xl font-semibold">
                   {status === 'idle' && 'Ready to Run?'}
                   {status === 'won' && 'Goal Reached!'}
                   {status === 'lost' && 'Out of Time!'}
+                  {status === 'gameOver' && 'Game Over'}
                 </h2>
                 <p className="max-w-md text-center text-base text-slate-300">
                   {status === 'idle' &&
                     'Use arrow keys or WASD to move and jump. Bounce pads launch you higher and coins boost your score.'}
                   {status === 'won' &&
-                    `You reached the exit with ${collected} coin${collected === 1 ? '' : 's'}!`}
+                    result &&
+                    `${result.autoplay ? 'Autoplay' : 'You'} reached the exit with ${result.collected} coin${result.collected === 1 ? '' : 's'}!`}
+                  {status === 'won' &&
+                    levelIndex >= 0 &&
+                    (nextLevel ? ` Up next: ${nextLevel.name}.` : ' That was the final level.')}
                   {status === 'lost' &&
-                    'Try to collect faster or find those bounce pads to reach the exit in time.'}
+                    (mode.scoring === 'climb'
+                      ? 'Every new stretch of the climb adds time to the clock, so keep heading up.'
+                      : 'Try to collect faster or find those bounce pads to reach the exit in time.')}
+                  {status === 'gameOver' &&
+                    'You ran out of lives. Stomp enemies from above, time the lasers and touch checkpoint flags to respawn closer to the exit.'}
                 </p>
+                {status === 'idle' && <ModePicker mode={modeId} onChange={changeMode} />}
+                {status !== 'idle' && result && (
+                  <RunSummary
+                    result={result}
+                    pendingRank={pendingRank}
+                    playerName={playerName}
+                    onPlayerNameChange={setNameDraft}
+                    onSave={saveResult}
+                  />
+                )}
                 <button
-                  onClick={startGame}
+                  onClick={() =>
+                    // Generated levels have no next level, so a win plays the same seed again
+                    startGame(status === 'won' && levelIndex >= 0 ? (nextLevel ?? LEVELS[0]) : level)
+                  }
                   className="rounded-full bg-cyan-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900"
                 >
-                  {status === 'idle' ? 'Start Run' : 'Play Again'}
+                  {status === 'idle' && 'Start Run'}
+                  {status === 'won' && (nextLevel ? 'Next Level' : 'Play Again')}
+                  {(status === 'lost' || status === 'gameOver') && 'Retry Level'}
                 </button>
+                {status === 'idle' && mode.autoplay && (
+                  <button
+                    onClick={() => startGame(level, true)}
+                    className="text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+                  >
+                    Watch autoplay
+                  </button>
+                )}
+                <SeedRun level={level} onPlay={(levelToPlay) => startGame(levelToPlay)} />
+                {status !== 'idle' && lastReplay && (
+                  <div className="flex items-center gap-4 text-sm font-semibold">
+                    <Link href="/replay" className="text-cyan-300 transition hover:text-cyan-200">
+                      Watch replay
+                    </Link>
+                    <button
+                      onClick={() =>
+                        downloadJson(
+                          `${lastReplay.levelId}-${lastReplay.recordedAt.replace(/[:.]/g, '-')}.replay.json`,
+                          serializeReplay(lastReplay),
+                        )
+                      }
+                      className="text-slate-300 transition hover:text-white"
+                    >
+                      Download replay
+                    </button>
+                  </div>
+                )}
+                {mode.ghosts && (
+                  <div className="flex flex-col items-center gap-2 text-sm">
+                    <p className="text-slate-400">
+                      {ghost
+                        ? `Racing ghost: ${ghost.name} (${(ghost.ticks * ghost.timestep).toFixed(2)}s)`
+                        : 'Finish this level to race your own ghost next time.'}
+                    </p>
+                    <div className="flex items-center gap-4 font-semibold">
+                      <button
+                        onClick={() => ghostInputRef.current?.click()}
+                        className="text-cyan-300 transition hover:text-cyan-200"
+                      >
+                        Import a friend&apos;s ghost
+                      </button>
+                      {importedGhost && (
+                        <button
+                          onClick={() => setImportedGhost(null)}
+                          className="text-slate-300 transition hover:text-white"
+                        >
+                          Clear imported ghost
+                        </button>
+                      )}
+                      {bestGhost && (
+                        <button
+                          onClick={() =>
+                            downloadJson(`${bestGhost.levelId}.ghost.json`, serializeGhost(bestGhost))
+                          }
+                          className="text-slate-300 transition hover:text-white"
+                        >
+                          Download your ghost
+                        </button>
+                      )}
+                    </div>
+                    {importedGhost && importedGhost.levelId !== level.id && (
+                      <p className="text-slate-400">
+                        The imported ghost races on{' '}
+                        {importedLevel?.name}.
+                      </p>
+                    )}
+                    {ghostError && <p className="max-w-md text-center text-rose-300">{ghostError}</p>}
+                    <input
+                      ref={ghostInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={handleGhostImport}
+                      className="hidden"
+                    />
+                  </div>
+                )}
               </div>
             )}
+            <FullscreenButton target={stageRef} className="absolute left-4 top-4 z-10" />
           </div>
 
           <section className="grid w-full gap-6 text-sm text-slate-300 md:grid-cols-3">
             <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
               <h3 className="text-lg font-semibold text-white">Controls</h3>
+              <ul className="mt-2 space-y-1">
+                {ACTIONS.map((action) => (
+                  <li key={action}>
+                    {ACTION_LABELS[action]}:{' '}
+                    <span className="font-semibold text-white">
+                      {keyBindings[action].map(formatKey).join(' / ') || 'unbound'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2">
+                Gamepads use the d-pad or left stick and{' '}
+                <span className="font-semibold text-white">A</span> to jump; phones get
+                on-screen buttons. Pause with{' '}
+                <span className="font-semibold text-white">Esc</span>,{' '}
+                <span className="font-semibold text-white">P</span> or Start.
+              </p>
               <p className="mt-2">
-                Move with <span className="font-semibold text-white">A / D</span> or{' '}
-                <span className="font-semibold text-white">◀︎ / ▶︎</span>. Jump with{' '}
-                <span className="font-semibold text-white">W</span>,{' '}
-                <span className="font-semibold text-white">▲</span>, or{' '}
-                <span className="font-semibold text-white">Space</span>.
+                Tap jump for a short hop, hold it to go higher, and jump again while
+                sliding down a wall to kick off it.
               </p>
+              <button
+                onClick={() => setEditingControls(!editingControls)}
+                className="mt-2 font-semibold text-cyan-300 transition hover:text-cyan-200"
+              >
+                {editingControls ? 'Done' : 'Settings'}
+              </button>
             </div>
             <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
               <h3 className="text-lg font-semibold text-white">Bounce Pads</h3>
@@ -717,10 +719,53 @@ export default function Home() {
               <h3 className="text-lg font-semibold text-white">Win Condition</h3>
               <p className="mt-2">
                 Dive into the cyan portal before the timer drains. Collecting every coin
-                isn&apos;t required, but it maxes out your run score.
+                isn&apos;t required, but it maxes out your run score. Spikes, lasers and
+                enemies cost a life; stomp enemies from above and touch flags to save
+                your progress.
               </p>
             </div>
           </section>
+
+          {debugEnabled && debugOpen && (
+            <DebugPanel
+              tuning={tuning ?? defaultTuning}
+              onTuningChange={changeTuning}
+              onReset={() => changeTuning(null)}
+              hitboxes={hitboxes}
+              onHitboxesChange={setHitboxes}
+              getState={getEngineState}
+            />
+          )}
+
+          {editingControls && (
+            <section className="w-full rounded-3xl border border-white/10 bg-white/5 p-6">
+              <h3 className="mb-4 text-lg font-semibold text-white">Settings</h3>
+              <div className="flex flex-col gap-5">
+                <ControlsSettings bindings={keyBindings} onChange={saveKeyBindings} />
+                <MotionSettings
+                  setting={motion}
+                  onChange={changeMotion}
+                  systemPrefersReduced={systemPrefersReduced}
+                />
+                <VolumeSettings settings={audioSettings} onChange={saveAudioSettings} />
+              </div>
+            </section>
+          )}
+
+          {leaderboardId && (
+            <Leaderboard
+              levelName={
+                mode.leaderboard === 'mode'
+                  ? mode.label
+                  : mode.id === DEFAULT_GAME_MODE
+                    ? level.name
+                    : `${level.name} · ${mode.label}`
+              }
+              entries={leaderboard}
+              highlight={result?.savedRank ? result.recordedAt : undefined}
+              finishes={mode.scoring === 'exit'}
+            />
+          )}
         </main>
       </div>
     </div>
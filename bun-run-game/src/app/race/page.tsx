@@ -0,0 +1,411 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import RaceStats from '../../components/RaceStats';
+import { useGameLoop, type FrameLoopContext } from '../../components/useGameLoop';
+import { createPlayerAnimation, updatePlayerAnimation, type PlayerAnimation } from '../../game/animation';
+import { soundForEvent } from '../../game/audio';
+import { centerCamera, createCamera, followCamera, type Camera } from '../../game/camera';
+import { GAME_CONFIG } from '../../game/config';
+import {
+  createEffects,
+  shakeOffset,
+  triggerEffects,
+  updateEffects,
+  type Effects,
+} from '../../game/effects';
+import { createEngineState, createInput, FIXED_TIMESTEP, type EngineState } from '../../game/engine';
+import { createHud, hudStatsOf } from '../../game/hud';
+import {
+  ACTION_LABELS,
+  ACTIONS,
+  bindGamepads,
+  bindKeyboard,
+  createInputMapper,
+  formatKey,
+  RACE_KEY_BINDINGS,
+} from '../../game/input';
+import { LEVELS } from '../../game/levels';
+import {
+  createRace,
+  describeRaceResult,
+  RACE_RULES,
+  raceStandings,
+  RACERS,
+  stepRace,
+  type RaceRule,
+  type RaceState,
+} from '../../game/race';
+import { createRenderer } from '../../game/render';
+import { getSpriteAtlas, type SpriteAtlas } from '../../game/sprites';
+import type { InputState, LevelDefinition, Size } from '../../game/types';
+import { fitCanvas } from '../../game/viewport';
+
+type RaceStatus = 'idle' | 'running' | 'paused' | 'over';
+
+/** Each racer gets half the screen side by side, at the game's usual scale. */
+const VIEW: Size = { width: GAME_CONFIG.width / 2, height: GAME_CONFIG.height };
+
+const menuButtonClass =
+  'w-56 rounded-full border border-white/10 px-6 py-2 font-semibold transition hover:bg-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200';
+
+const buttonClass =
+  'rounded-full border border-white/10 px-4 py-1.5 text-sm font-semibold transition hover:bg-white/10';
+
+const outcomeOf = (run: EngineState) => {
+  switch (run.status) {
+    case 'won':
+      return `portal in ${(run.tick * FIXED_TIMESTEP).toFixed(2)}s`;
+    case 'lost':
+      return 'out of time';
+    case 'gameOver':
+      return 'out of lives';
+    default:
+      return 'still racing';
+  }
+};
+
+/** What each racer's half of the screen keeps between frames. */
+type View = {
+  camera: Camera;
+  animation: PlayerAnimation;
+  effects: Effects;
+};
+
+const createViews = (race: RaceState): View[] =>
+  race.runs.map((run) => ({
+    camera: centerCamera({ ...createCamera(), ...VIEW }, run.player, run.world),
+    animation: createPlayerAnimation(),
+    effects: createEffects(),
+  }));
+
+export default function Race() {
+  const canvasesRef = useRef<(HTMLCanvasElement | null)[]>([]);
+
+  const [status, setStatus] = useState<RaceStatus>('idle');
+  const [level, setLevel] = useState<LevelDefinition>(LEVELS[0]);
+  const [rule, setRule] = useState<RaceRule>('firstToPortal');
+  const [result, setResult] = useState<RaceState | null>(null);
+
+  const [huds] = useState(() =>
+    RACERS.map(() => createHud({ ...hudStatsOf(createEngineState(LEVELS[0])), split: null })),
+  );
+
+  const raceRef = useRef<RaceState>(createRace(LEVELS[0], 'firstToPortal'));
+  const inputsRef = useRef<InputState[]>(RACERS.map(() => createInput()));
+  const viewsRef = useRef<View[]>(createViews(createRace(LEVELS[0], 'firstToPortal')));
+  const statusRef = useRef<RaceStatus>('idle');
+
+  const start = useCallback(
+    ({ audio, advance, reducedMotion }: FrameLoopContext) => {
+      const renderers = canvasesRef.current.map((canvas) => {
+        const ctx = canvas?.getContext('2d');
+        return ctx ? createRenderer(ctx) : null;
+      });
+      if (renderers.some((renderer) => renderer === null)) return;
+      let drawn: { race: RaceState; sprites: SpriteAtlas | null; sizes: string } | null = null;
+
+      return (delta: number, time: number) => {
+        const running = statusRef.current === 'running';
+        const reduced = reducedMotion.current;
+        const views = viewsRef.current;
+        let race = raceRef.current;
+        if (running) {
+          for (let ticks = advance(delta); ticks > 0 && race.status === 'running'; ticks -= 1) {
+            const before = race;
+            race = stepRace(race, inputsRef.current, FIXED_TIMESTEP);
+            inputsRef.current.forEach((input) => {
+              input.jumpBuffer = false;
+            });
+            race.runs.forEach((run, index) => {
+              // Runs that are already over come back untouched, along with their last events
+              if (run === before.runs[index]) return;
+              triggerEffects(views[index].effects, run.events, reduced);
+              run.events.forEach((event) => {
+                const sound = soundForEvent(event);
+                if (sound) audio.play(sound);
+              });
+            });
+          }
+          raceRef.current = race;
+          race.runs.forEach((run, index) => huds[index].update(hudStatsOf(run)));
+          audio.setTimeLeft(Math.min(...race.runs.map((run) => run.timeLeft)));
+          if (race.status === 'over') {
+            audio.play(race.winner === null ? 'lose' : 'win');
+            setResult(race);
+            // Updated here as well so the next frame does not finish the race a second time
+            statusRef.current = 'over';
+            setStatus('over');
+          }
+        }
+
+        const sprites = getSpriteAtlas();
+        const sizes = canvasesRef.current.map((canvas) => `${canvas?.width}x${canvas?.height}`).join();
+        // Outside a race the views only change on a reset, the atlas loading or a resize
+        if (!running && drawn?.race === race && drawn.sprites === sprites && drawn.sizes === sizes) {
+          return;
+        }
+        drawn = { race, sprites, sizes };
+
+        race.runs.forEach((run, index) => {
+          const view = views[index];
+          if (running) {
+            view.camera = followCamera(view.camera, run.player, run.world, delta);
+            view.animation = updatePlayerAnimation(view.animation, run.player, delta);
+            updateEffects(view.effects, delta, run.goal, reduced);
+          }
+          // Everyone else shows up as a ghost, since their coins and hazards are their own
+          const ghosts = race.runs.flatMap((other, otherIndex) =>
+            otherIndex === index ? [] : [{ ...other.player, tint: RACERS[otherIndex].tint }],
+          );
+          const shake = shakeOffset(view.effects, time);
+          renderers[index]?.draw(
+            {
+              ...run,
+              ghosts,
+              sprites,
+              tint: RACERS[index].tint,
+              animation: view.animation,
+              particles: view.effects.particles.particles,
+              stretch: view.effects.stretch,
+            },
+            { ...view.camera, x: view.camera.x + shake.x, y: view.camera.y + shake.y },
+            time,
+          );
+        });
+      };
+    },
+    [huds],
+  );
+
+  const pause = useCallback(() => setStatus('paused'), []);
+  const { audio } = useGameLoop({ running: status === 'running', pause, start });
+
+  const resetRace = useCallback(
+    (levelToPlay: LevelDefinition, ruleToPlay: RaceRule) => {
+      const race = createRace(levelToPlay, ruleToPlay);
+      raceRef.current = race;
+      viewsRef.current = createViews(race);
+      inputsRef.current = RACERS.map(() => createInput());
+      race.runs.forEach((run, index) => huds[index].update(hudStatsOf(run)));
+      setLevel(levelToPlay);
+      setResult(null);
+    },
+    [huds],
+  );
+
+  const startRace = (levelToPlay: LevelDefinition, ruleToPlay: RaceRule) => {
+    // Starting a race is a user gesture, which browsers require before sound can play
+    audio.unlock();
+    resetRace(levelToPlay, ruleToPlay);
+    setStatus('running');
+  };
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  useEffect(() => {
+    const togglePause = () =>
+      setStatus((current) =>
+        current === 'running' ? 'paused' : current === 'paused' ? 'running' : current,
+      );
+    const unbinds = RACE_KEY_BINDINGS.map((bindings, index) => {
+      const mapper = createInputMapper(() => inputsRef.current[index]);
+      // Only one keyboard listener handles the pause keys, or each press would pause and resume
+      const unbindKeyboard = bindKeyboard(mapper, bindings, index === 0 ? togglePause : undefined);
+      const unbindGamepad = bindGamepads(mapper, togglePause, index);
+      return () => {
+        unbindKeyboard();
+        unbindGamepad();
+      };
+    });
+    return () => unbinds.forEach((unbind) => unbind());
+  }, []);
+
+  useEffect(() => {
+    const stops = canvasesRef.current.map((canvas) => (canvas ? fitCanvas(canvas, VIEW) : () => {}));
+    return () => stops.forEach((stop) => stop());
+  }, []);
+
+  const winner = result?.winner ?? null;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-16">
+        <header className="flex flex-col items-center justify-between gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur lg:flex-row">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight text-white sm:text-5xl">
+              Local Race
+            </h1>
+            <p className="mt-3 max-w-xl text-lg text-slate-300">
+              Two players, one keyboard or two gamepads, the same level side by side.
+              Beat your friend to the portal or out-collect them.
+            </p>
+            <p className="mt-2 text-sm uppercase tracking-wide text-slate-400">
+              {level.name} · {RACE_RULES.find(({ id }) => id === rule)?.label}
+            </p>
+            <Link
+              href="/"
+              className="mt-1 inline-block text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+            >
+              ← Back to the game
+            </Link>
+          </div>
+          <RaceStats racers={RACERS} huds={huds} />
+        </header>
+
+        <main className="flex flex-col items-center gap-6">
+          <div className="relative grid aspect-video max-h-[85dvh] w-full grid-cols-2 gap-1 overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl">
+            {RACERS.map((racer, index) => (
+              <div key={racer.name} className="relative">
+                <canvas
+                  ref={(canvas) => {
+                    canvasesRef.current[index] = canvas;
+                  }}
+                  width={VIEW.width}
+                  height={VIEW.height}
+                  className="absolute"
+                />
+                <p
+                  className="pointer-events-none absolute left-4 top-4 text-xs font-semibold uppercase tracking-wide"
+                  style={{ color: racer.tint }}
+                >
+                  {racer.name}
+                </p>
+              </div>
+            ))}
+
+            {status === 'paused' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-slate-950/80 text-center backdrop-blur-sm">
+                <h2 className="text-3xl font-semibold">Paused</h2>
+                <button
+                  onClick={() => setStatus('running')}
+                  className="w-56 rounded-full bg-cyan-400 px-6 py-2 font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200"
+                >
+                  Resume
+                </button>
+                <button onClick={() => startRace(level, rule)} className={menuButtonClass}>
+                  Restart Race
+                </button>
+                <button
+                  onClick={() => {
+                    resetRace(level, rule);
+                    setStatus('idle');
+                  }}
+                  className={menuButtonClass}
+                >
+                  Quit to Setup
+                </button>
+              </div>
+            )}
+
+            {(status === 'idle' || status === 'over') && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 overflow-y-auto bg-slate-950/80 py-6 backdrop-blur-sm">
+                <h2 className="text-3xl font-semibold">
+                  {status === 'idle' && 'Ready to Race?'}
+                  {status === 'over' && (winner === null ? 'Draw!' : `${RACERS[winner].name} Wins!`)}
+                </h2>
+                <p className="max-w-md text-center text-base text-slate-300">
+                  {status === 'idle' &&
+                    'Each racer collects their own coins. Pick a level and how the winner is decided.'}
+                  {status === 'over' && result && describeRaceResult(result)}
+                </p>
+                {status === 'over' && result && (
+                  <ol className="w-full max-w-sm rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-sm text-slate-300">
+                    {raceStandings(result).map((index, place) => (
+                      <li key={index} className="flex justify-between gap-6">
+                        <span className="font-semibold" style={{ color: RACERS[index].tint }}>
+                          {place + 1}. {RACERS[index].name}
+                        </span>
+                        <span className="tabular-nums">
+                          {result.runs[index].collected} / {result.runs[index].coins.length} coins ·{' '}
+                          {outcomeOf(result.runs[index])}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {status === 'idle' && (
+                  <div className="flex flex-col items-center gap-3 text-sm">
+                    <div className="flex items-center gap-1">
+                      {RACE_RULES.map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => setRule(id)}
+                          className={`${buttonClass} ${rule === id ? 'bg-cyan-400 text-slate-900 hover:bg-cyan-300' : ''}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      value={level.id}
+                      onChange={(event) =>
+                        resetRace(LEVELS.find(({ id }) => id === event.target.value) ?? LEVELS[0], rule)
+                      }
+                      aria-label="Level"
+                      className="rounded-full border border-white/10 bg-black/30 px-3 py-1 text-white focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300"
+                    >
+                      {LEVELS.map(({ id, name }) => (
+                        <option key={id} value={id}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <button
+                  onClick={() => startRace(level, rule)}
+                  className="rounded-full bg-cyan-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900"
+                >
+                  {status === 'idle' ? 'Start Race' : 'Rematch'}
+                </button>
+                {status === 'over' && (
+                  <button
+                    onClick={() => {
+                      resetRace(level, rule);
+                      setStatus('idle');
+                    }}
+                    className="text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+                  >
+                    Change level or rule
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <section className="grid w-full gap-6 text-sm text-slate-300 md:grid-cols-2">
+            {RACERS.map((racer, index) => (
+              <div key={racer.name} className="rounded-3xl border border-white/10 bg-white/5 p-6">
+                <h3 className="text-lg font-semibold" style={{ color: racer.tint }}>
+                  {racer.name}
+                </h3>
+                <ul className="mt-2 space-y-1">
+                  {ACTIONS.map((action) => (
+                    <li key={action}>
+                      {ACTION_LABELS[action]}:{' '}
+                      <span className="font-semibold text-white">
+                        {RACE_KEY_BINDINGS[index][action].map(formatKey).join(' / ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2">
+                  Or gamepad {index + 1}: the d-pad or left stick and{' '}
+                  <span className="font-semibold text-white">A</span> to jump.
+                </p>
+              </div>
+            ))}
+          </section>
+          <p className="text-sm text-slate-400">
+            Pause with <span className="font-semibold text-white">Esc</span>,{' '}
+            <span className="font-semibold text-white">P</span> or Start on either gamepad.
+          </p>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ChangeEvent } from 'react';
+import { centerCamera, createCamera, followCamera, type Camera } from '../../game/camera';
+import { GAME_CONFIG } from '../../game/config';
+import { ENGINE_VERSION, isGoalOpen, type EngineState } from '../../game/engine';
+import { findLevel } from '../../game/levels';
+import { createAccumulator, startFrameLoop } from '../../game/loop';
+import { DEFAULT_GAME_MODE, getGameMode } from '../../game/modes';
+import { createRenderer, type Renderer } from '../../game/render';
+import { LAST_REPLAY_KEY, parseReplay, simulateReplay, type Replay } from '../../game/replay';
+import { getSpriteAtlas, subscribeToSprites } from '../../game/sprites';
+import { readStorage, subscribeToStorage } from '../../game/storage';
+import type { LevelDefinition } from '../../game/types';
+import { fitCanvas, type Viewport } from '../../game/viewport';
+
+type ReplaySource = {
+  text: string;
+  name: string;
+};
+
+type LoadedReplay =
+  | {
+      replay: Replay;
+      level: LevelDefinition;
+      frames: EngineState[];
+      cameras: Camera[];
+    }
+  | { error: string };
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const loadReplay = ({ text, name }: ReplaySource): LoadedReplay => {
+  try {
+    const replay = parseReplay(text, name);
+    const level = findLevel(replay.levelId);
+    if (!level) {
+      return { error: `${name} was recorded on "${replay.levelId}", which is not a level this game has.` };
+    }
+    const frames = simulateReplay(replay, level);
+    const cameras = frames.reduce<Camera[]>((list, frame, index) => {
+      if (index === 0) {
+        list.push(centerCamera(createCamera(), frame.player, frame.world));
+        return list;
+      }
+      // Endless climbs move everything down to make room above; the camera moves with it
+      const previous = list[index - 1];
+      const scrolled = frame.scroll - frames[index - 1].scroll;
+      list.push(
+        followCamera({ ...previous, y: previous.y + scrolled }, frame.player, frame.world, replay.timestep),
+      );
+      return list;
+    }, []);
+    return { replay, level, frames, cameras };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const buttonClass =
+  'rounded-full border border-white/10 px-4 py-1.5 text-sm font-semibold transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40';
+
+export default function ReplayViewer() {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+  // Resizing clears the canvas, so the current frame redraws whenever this changes
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const tickRef = useRef(0);
+
+  const storedReplay = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(LAST_REPLAY_KEY),
+    () => null,
+  );
+  const sprites = useSyncExternalStore(subscribeToSprites, getSpriteAtlas, () => null);
+  const [imported, setImported] = useState<ReplaySource | null>(null);
+  const [tick, setTick] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const loaded = useMemo(() => {
+    if (imported) return loadReplay(imported);
+    return storedReplay ? loadReplay({ text: storedReplay, name: 'Your last run' }) : null;
+  }, [imported, storedReplay]);
+  const playback = loaded && 'frames' in loaded ? loaded : null;
+  const lastTick = playback ? playback.frames.length - 1 : 0;
+  const frame = playback?.frames[Math.min(tick, lastTick)];
+
+  const seek = useCallback(
+    (target: number) => {
+      const next = Math.max(0, Math.min(lastTick, Math.round(target)));
+      tickRef.current = next;
+      setTick(next);
+    },
+    [lastTick],
+  );
+
+  const togglePlaying = useCallback(() => {
+    if (!playing && tickRef.current >= lastTick) {
+      seek(0);
+    }
+    setPlaying(!playing);
+  }, [lastTick, playing, seek]);
+
+  const stepBy = useCallback(
+    (ticks: number) => {
+      setPlaying(false);
+      seek(tickRef.current + ticks);
+    },
+    [seek],
+  );
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImported({ text: await file.text(), name: file.name });
+    setPlaying(false);
+    tickRef.current = 0;
+    setTick(0);
+  };
+
+  useEffect(() => {
+    if (!playing || !playback) return;
+    const advance = createAccumulator(playback.replay.timestep);
+
+    return startFrameLoop((delta) => {
+      const ticks = advance(delta * speed);
+      if (ticks === 0) return;
+      const next = Math.min(lastTick, tickRef.current + ticks);
+      tickRef.current = next;
+      setTick(next);
+      if (next >= lastTick) {
+        setPlaying(false);
+        return false;
+      }
+    });
+  }, [lastTick, playback, playing, speed]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!playback) return;
+      switch (event.key) {
+        case ' ':
+        case 'k':
+          event.preventDefault();
+          togglePlaying();
+          break;
+        case 'ArrowLeft':
+        case ',':
+          event.preventDefault();
+          stepBy(-1);
+          break;
+        case 'ArrowRight':
+        case '.':
+          event.preventDefault();
+          stepBy(1);
+          break;
+        default:
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [playback, stepBy, togglePlaying]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return fitCanvas(canvas, GAME_CONFIG, setViewport);
+  }, []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !playback || !frame) return;
+    const index = Math.min(tick, lastTick);
+    rendererRef.current ??= createRenderer(ctx);
+    rendererRef.current.draw(
+      { ...frame, goalLocked: !isGoalOpen(frame), sprites },
+      playback.cameras[index],
+      index * playback.replay.timestep,
+    );
+  }, [frame, lastTick, playback, sprites, tick, viewport]);
+
+  const finalFrame = playback?.frames[lastTick];
+  const diverged =
+    playback &&
+    finalFrame &&
+    (finalFrame.status !== playback.replay.result.status ||
+      finalFrame.collected !== playback.replay.result.collected);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-16">
+        <header className="flex flex-col items-center justify-between gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur lg:flex-row">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight text-white sm:text-5xl">
+              Replay Viewer
+            </h1>
+            <p className="mt-3 max-w-xl text-lg text-slate-300">
+              Step through a recorded run tick by tick. Every frame is re-simulated from
+              the recorded inputs, exactly as the engine ran them.
+            </p>
+            <Link
+              href="/"
+              className="mt-2 inline-block text-sm font-semibold text-cyan-300 transition hover:text-cyan-200"
+            >
+              ← Back to the game
+            </Link>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              Open replay file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </header>
+
+        <main className="flex flex-col items-center gap-6">
+          <div className="relative aspect-video max-h-[85dvh] w-full overflow-hidden rounded-3xl border border-white/10 bg-black/40 shadow-2xl">
+            <canvas
+              ref={canvasRef}
+              width={GAME_CONFIG.width}
+              height={GAME_CONFIG.height}
+              className="absolute"
+            />
+            {!playback && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-slate-950/80 px-6 text-center backdrop-blur-sm">
+                <h2 className="text-3xl font-semibold">
+                  {loaded ? 'Could Not Load Replay' : 'No Replay Yet'}
+                </h2>
+                <p className="max-w-md whitespace-pre-wrap text-base text-slate-300">
+                  {loaded && 'error' in loaded
+                    ? loaded.error
+                    : 'Finish a run to watch it here, or open a replay file someone sent you.'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {playback && frame && (
+            <section className="flex w-full flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => stepBy(-tickRef.current)} className={buttonClass}>
+                  ⏮
+                </button>
+                <button onClick={() => stepBy(-1)} className={buttonClass} aria-label="Previous tick">
+                  ◀︎ 1
+                </button>
+                <button
+                  onClick={togglePlaying}
+                  className="rounded-full bg-cyan-400 px-6 py-1.5 font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300"
+                >
+                  {playing ? 'Pause' : 'Play'}
+                </button>
+                <button onClick={() => stepBy(1)} className={buttonClass} aria-label="Next tick">
+                  1 ▶︎
+                </button>
+                <div className="ml-auto flex items-center gap-1">
+                  {SPEEDS.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setSpeed(value)}
+                      className={`${buttonClass} ${speed === value ? 'bg-cyan-400 text-slate-900 hover:bg-cyan-300' : ''}`}
+                    >
+                      {value}×
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={lastTick}
+                value={Math.min(tick, lastTick)}
+                onChange={(event) => {
+                  setPlaying(false);
+                  seek(event.target.valueAsNumber);
+                }}
+                className="w-full accent-cyan-400"
+                aria-label="Seek"
+              />
+              <div className="flex flex-wrap justify-between gap-4">
+                <span>
+                  Tick {Math.min(tick, lastTick)} / {lastTick} ·{' '}
+                  {(Math.min(tick, lastTick) * playback.replay.timestep).toFixed(2)}s
+                </span>
+                <span>
+                  Time left {frame.timeLeft.toFixed(1)}s · Coins {frame.collected} /{' '}
+                  {frame.coins.length}
+                </span>
+                <span>
+                  {playback.level.name} · {getGameMode(playback.replay.mode ?? DEFAULT_GAME_MODE).label} · recorded{' '}
+                  {new Date(playback.replay.recordedAt).toLocaleString()}
+                </span>
+              </div>
+              {playback.replay.engineVersion !== ENGINE_VERSION && (
+                <p className="text-amber-300">
+                  This run was recorded with engine v{playback.replay.engineVersion}; the game now
+                  runs v{ENGINE_VERSION}, so playback may not match the original run.
+                </p>
+              )}
+              {diverged && (
+                <p className="text-rose-300">
+                  Playback ended as &quot;{finalFrame.status}&quot; with {finalFrame.collected} coins,
+                  but the run was recorded as &quot;{playback.replay.result.status}&quot; with{' '}
+                  {playback.replay.result.collected} coins.
+                </p>
+              )}
+              <p className="text-slate-400">
+                Space plays or pauses; ◀︎ / ▶︎ step one tick at a time.
+              </p>
+            </section>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
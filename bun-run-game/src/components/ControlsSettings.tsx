@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  ACTIONS,
+  bindKey,
+  DEFAULT_KEY_BINDINGS,
+  formatKey,
+  PAUSE_KEYS,
+  unbindKey,
+  type Action,
+  type KeyBindings,
+} from '../game/input';
+
+type ControlsSettingsProps = {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+};
+
+export default function ControlsSettings({ bindings, onChange }: ControlsSettingsProps) {
+  const [capturing, setCapturing] = useState<Action | null>(null);
+  /** A pause key pressed while capturing, which keeps waiting for another key. */
+  const [refused, setRefused] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+    // Capture phase, so the key being bound never reaches the game's own listeners.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape' && PAUSE_KEYS.includes(event.code)) {
+        setRefused(event.code);
+        return;
+      }
+      if (event.code !== 'Escape') onChange(bindKey(bindings, capturing, event.code));
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [bindings, capturing, onChange]);
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-300">
+      {ACTIONS.map((action) => (
+        <div key={action} className="flex flex-wrap items-center gap-2">
+          <span className="w-24 font-semibold text-white">{ACTION_LABELS[action]}</span>
+          {bindings[action].map((code) => (
+            <button
+              key={code}
+              onClick={() => onChange(unbindKey(bindings, action, code))}
+              className="rounded-full border border-white/10 bg-black/30 px-3 py-0.5 text-white transition hover:border-rose-300/60 hover:text-rose-200"
+              title="Remove this key"
+            >
+              {formatKey(code)} ×
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setCapturing(capturing === action ? null : action);
+              setRefused(null);
+            }}
+            className={`rounded-full border px-3 py-0.5 font-semibold transition ${
+              capturing === action
+                ? 'border-cyan-300 bg-cyan-400 text-slate-900'
+                : 'border-white/10 text-cyan-300 hover:bg-white/10'
+            }`}
+          >
+            {capturing === action ? 'Press a key… (Esc cancels)' : '+ Add key'}
+          </button>
+          {capturing === action && refused && (
+            <span className="text-rose-300">{formatKey(refused)} is kept for pausing. Pick another key.</span>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+        className="self-start font-semibold text-slate-400 transition hover:text-white"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
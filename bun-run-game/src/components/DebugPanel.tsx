@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  createFrameStats,
+  FRAME_HISTORY,
+  serializeTuning,
+  TUNING_SLIDERS,
+  type FrameStats,
+  type Tuning,
+} from '../game/debug';
+import type { EngineState } from '../game/engine';
+import { startFrameLoop } from '../game/loop';
+
+type DebugPanelProps = {
+  tuning: Tuning;
+  onTuningChange: (tuning: Tuning) => void;
+  onReset: () => void;
+  hitboxes: boolean;
+  onHitboxesChange: (hitboxes: boolean) => void;
+  /** Read once per frame, so the readouts follow the run without the page re-rendering. */
+  getState: () => EngineState;
+};
+
+type Readout = {
+  fps: number;
+  onGround: boolean;
+  vx: number;
+  vy: number;
+};
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 64;
+/** Frame time at the top of the graph, in seconds. */
+const GRAPH_CEILING = 1 / 20;
+/** Readouts refresh this many times per second; the graph redraws every frame. */
+const READOUT_RATE = 10;
+
+const buttonClass =
+  'rounded-full border border-white/10 px-4 py-1.5 font-semibold transition hover:bg-white/10';
+
+const drawFrameGraph = (ctx: CanvasRenderingContext2D, stats: FrameStats) => {
+  const barWidth = GRAPH_WIDTH / FRAME_HISTORY;
+  const toY = (seconds: number) => GRAPH_HEIGHT - Math.min(1, seconds / GRAPH_CEILING) * GRAPH_HEIGHT;
+  ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+  stats.deltas.forEach((delta, index) => {
+    ctx.fillStyle = delta > 1 / 50 ? '#fb7185' : '#22d3ee';
+    const y = toY(delta);
+    ctx.fillRect(index * barWidth, y, Math.max(1, barWidth - 0.5), GRAPH_HEIGHT - y);
+  });
+  // 60 fps budget
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.fillRect(0, Math.round(toY(1 / 60)), GRAPH_WIDTH, 1);
+};
+
+export default function DebugPanel({
+  tuning,
+  onTuningChange,
+  onReset,
+  hitboxes,
+  onHitboxesChange,
+  getState,
+}: DebugPanelProps) {
+  const graphRef = useRef<HTMLCanvasElement | null>(null);
+  const [readout, setReadout] = useState<Readout | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const ctx = graphRef.current?.getContext('2d');
+    if (!ctx) return;
+    const stats = createFrameStats();
+    let sinceReadout = 0;
+
+    return startFrameLoop((delta) => {
+      stats.record(delta);
+      drawFrameGraph(ctx, stats);
+      sinceReadout += delta;
+      if (sinceReadout < 1 / READOUT_RATE) return;
+      sinceReadout = 0;
+      const { player } = getState();
+      setReadout({ fps: stats.fps(), onGround: player.onGround, vx: player.vx, vy: player.vy });
+    });
+  }, [getState]);
+
+  const copyTuning = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeTuning(getState()));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <section className="w-full rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">Debug</h3>
+        <p className="text-slate-400">` hides this panel</p>
+      </div>
+      <div className="grid gap-6 lg:grid-cols-[1fr_auto]">
+        <div className="flex flex-col gap-3">
+          {TUNING_SLIDERS.map(({ key, label, min, max, step, unit }) => (
+            <label key={key} className="flex items-center gap-3">
+              <span className="w-28 font-semibold text-white">{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={tuning[key]}
+                onChange={(event) => {
+                  setCopied(false);
+                  onTuningChange({ ...tuning, [key]: event.target.valueAsNumber });
+                }}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="w-24 text-right tabular-nums">
+                {tuning[key]} {unit}
+              </span>
+            </label>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={copyTuning} className={buttonClass}>
+              {copied ? 'Copied!' : 'Copy tuning JSON'}
+            </button>
+            <button
+              onClick={() => {
+                setCopied(false);
+                onReset();
+              }}
+              className={buttonClass}
+            >
+              Reset
+            </button>
+            <label className="ml-2 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={hitboxes}
+                onChange={(event) => onHitboxesChange(event.target.checked)}
+              />
+              Show hitboxes
+            </label>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          <canvas
+            ref={graphRef}
+            width={GRAPH_WIDTH}
+            height={GRAPH_HEIGHT}
+            className="rounded-lg border border-white/10 bg-black/40"
+          />
+          {readout && (
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 tabular-nums">
+              <dt>FPS</dt>
+              <dd className="text-right text-white">{readout.fps.toFixed(0)}</dd>
+              <dt>onGround</dt>
+              <dd className={`text-right ${readout.onGround ? 'text-emerald-300' : 'text-slate-400'}`}>
+                {String(readout.onGround)}
+              </dd>
+              <dt>vx</dt>
+              <dd className="text-right text-white">{readout.vx.toFixed(0)} px/s</dd>
+              <dt>vy</dt>
+              <dd className="text-right text-white">{readout.vy.toFixed(0)} px/s</dd>
+            </dl>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
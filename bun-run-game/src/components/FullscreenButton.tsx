@@ -0,0 +1,36 @@
+import { useSyncExternalStore, type RefObject } from 'react';
+import {
+  isFullscreen,
+  isFullscreenSupported,
+  subscribeToFullscreen,
+  toggleFullscreen,
+} from '../game/viewport';
+
+type FullscreenButtonProps = {
+  /** The element shown fullscreen, usually the one holding the canvas. */
+  target: RefObject<HTMLElement | null>;
+  className?: string;
+};
+
+/** Hidden where the Fullscreen API is unavailable, such as on iPhones. */
+export default function FullscreenButton({ target, className = '' }: FullscreenButtonProps) {
+  const supported = useSyncExternalStore(subscribeToFullscreen, isFullscreenSupported, () => false);
+  const active = useSyncExternalStore(subscribeToFullscreen, isFullscreen, () => false);
+
+  if (!supported) return null;
+
+  return (
+    <button
+      onClick={(event) => {
+        // Keeps Space from toggling fullscreen again when it is meant as a jump
+        event.currentTarget.blur();
+        if (target.current) toggleFullscreen(target.current);
+      }}
+      aria-label={active ? 'Exit fullscreen' : 'Enter fullscreen'}
+      aria-pressed={active}
+      className={`rounded-full border border-white/20 bg-black/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 backdrop-blur transition hover:bg-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 ${className}`}
+    >
+      {active ? 'Exit Fullscreen' : 'Fullscreen'}
+    </button>
+  );
+}
@@ -0,0 +1,42 @@
+import type { LeaderboardEntry } from '../game/leaderboard';
+
+type LeaderboardProps = {
+  levelName: string;
+  entries: LeaderboardEntry[];
+  /** `recordedAt` of a run to highlight, e.g. the one just saved. */
+  highlight?: string;
+  /** Whether runs end at the goal; if not, every run shows how long it lasted rather than DNF. */
+  finishes?: boolean;
+};
+
+export default function Leaderboard({ levelName, entries, highlight, finishes = true }: LeaderboardProps) {
+  return (
+    <section className="w-full rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
+      <h3 className="text-lg font-semibold text-white">Leaderboard · {levelName}</h3>
+      {entries.length === 0 ? (
+        <p className="mt-2">No runs saved here yet. Finish a run to claim the top spot.</p>
+      ) : (
+        <ol className="mt-3 divide-y divide-white/5">
+          {entries.map((entry, index) => (
+            <li
+              key={entry.recordedAt}
+              className={`grid grid-cols-[2rem_1fr_auto_auto_auto] items-center gap-4 py-2 ${
+                entry.recordedAt === highlight ? 'text-amber-200' : ''
+              }`}
+            >
+              <span className="text-slate-500">#{index + 1}</span>
+              <span className="truncate font-semibold text-white">{entry.name}</span>
+              <span className="tabular-nums">
+                {entry.status === 'won' || !finishes ? `${entry.elapsed.toFixed(2)}s` : 'DNF'}
+              </span>
+              <span className="tabular-nums text-amber-300">{entry.collected} coins</span>
+              <span className="w-16 text-right font-semibold tabular-nums">
+                {entry.score.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
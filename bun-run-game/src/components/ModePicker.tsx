@@ -0,0 +1,29 @@
+import { GAME_MODES, getGameMode, type GameModeId } from '../game/modes';
+
+type ModePickerProps = {
+  mode: GameModeId;
+  onChange: (mode: GameModeId) => void;
+};
+
+export default function ModePicker({ mode, onChange }: ModePickerProps) {
+  return (
+    <div className="flex max-w-md flex-col items-center gap-2 text-sm">
+      <div role="radiogroup" aria-label="Game mode" className="flex flex-wrap justify-center gap-2">
+        {GAME_MODES.map(({ id, label }) => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={id === mode}
+            onClick={() => onChange(id)}
+            className={`rounded-full border border-white/10 px-4 py-1.5 font-semibold transition hover:bg-white/10 ${
+              id === mode ? 'bg-cyan-400 text-slate-900 hover:bg-cyan-300' : ''
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-center text-slate-400">{getGameMode(mode).description}</p>
+    </div>
+  );
+}
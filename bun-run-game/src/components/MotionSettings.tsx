@@ -0,0 +1,35 @@
+import { MOTION_SETTINGS, type MotionSetting } from '../game/effects';
+
+type MotionSettingsProps = {
+  setting: MotionSetting;
+  onChange: (setting: MotionSetting) => void;
+  systemPrefersReduced: boolean;
+};
+
+export default function MotionSettings({ setting, onChange, systemPrefersReduced }: MotionSettingsProps) {
+  return (
+    <div className="flex flex-col gap-2 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24 font-semibold text-white">Motion</span>
+        {MOTION_SETTINGS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            className={`rounded-full border px-3 py-0.5 font-semibold transition ${
+              setting === id
+                ? 'border-cyan-300 bg-cyan-400 text-slate-900'
+                : 'border-white/10 text-cyan-300 hover:bg-white/10'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-slate-400">
+        Reduced motion turns off particles, screen shake and squash and stretch.
+        {setting === 'system' &&
+          ` Your system currently asks for ${systemPrefersReduced ? 'reduced' : 'full'} motion.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import type { AudioSettings } from '../game/audio';
+import type { MotionSetting } from '../game/effects';
+import type { KeyBindings } from '../game/input';
+import ControlsSettings from './ControlsSettings';
+import MotionSettings from './MotionSettings';
+import VolumeSettings from './VolumeSettings';
+
+type PauseMenuProps = {
+  keyBindings: KeyBindings;
+  onKeyBindingsChange: (bindings: KeyBindings) => void;
+  motion: MotionSetting;
+  onMotionChange: (setting: MotionSetting) => void;
+  systemPrefersReduced: boolean;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (settings: AudioSettings) => void;
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+};
+
+const menuButtonClass =
+  'w-56 rounded-full border border-white/10 px-6 py-2 font-semibold transition hover:bg-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200';
+
+export default function PauseMenu({
+  keyBindings,
+  onKeyBindingsChange,
+  motion,
+  onMotionChange,
+  systemPrefersReduced,
+  audioSettings,
+  onAudioSettingsChange,
+  onResume,
+  onRestart,
+  onQuit,
+}: PauseMenuProps) {
+  const [showSettings, setShowSettings] = useState(false);
+
+  if (showSettings) {
+    return (
+      <>
+        <h2 className="text-3xl font-semibold">Settings</h2>
+        <div className="flex flex-col gap-5 rounded-2xl border border-white/10 bg-black/40 p-5 text-left">
+          <ControlsSettings bindings={keyBindings} onChange={onKeyBindingsChange} />
+          <MotionSettings
+            setting={motion}
+            onChange={onMotionChange}
+            systemPrefersReduced={systemPrefersReduced}
+          />
+          <VolumeSettings settings={audioSettings} onChange={onAudioSettingsChange} />
+        </div>
+        <button onClick={() => setShowSettings(false)} className={menuButtonClass}>
+          Back
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <h2 className="text-3xl font-semibold">Paused</h2>
+      <p className="text-base text-slate-300">The clock stops until you resume. Esc, P or Start resumes.</p>
+      <button
+        autoFocus
+        onClick={onResume}
+        className="w-56 rounded-full bg-cyan-400 px-6 py-2 text-lg font-semibold text-slate-900 shadow-lg shadow-cyan-400/40 transition hover:bg-cyan-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900"
+      >
+        Resume
+      </button>
+      <button onClick={onRestart} className={menuButtonClass}>
+        Restart Level
+      </button>
+      <button onClick={() => setShowSettings(true)} className={menuButtonClass}>
+        Settings
+      </button>
+      <button onClick={onQuit} className={menuButtonClass}>
+        Quit to Menu
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+import { useSyncExternalStore } from 'react';
+import type { Hud } from '../game/hud';
+import type { Racer } from '../game/race';
+
+type RaceStatsProps = {
+  racers: Racer[];
+  /** One per racer, in the same order. */
+  huds: Hud[];
+};
+
+function RacerStats({ racer, hud }: { racer: Racer; hud: Hud }) {
+  const { timeLeft, collected, total, lives } = useSyncExternalStore(
+    hud.subscribe,
+    hud.getSnapshot,
+    hud.getSnapshot,
+  );
+
+  return (
+    <div className="flex items-center gap-5">
+      <p className="w-20 text-sm font-semibold uppercase tracking-wide" style={{ color: racer.tint }}>
+        {racer.name}
+      </p>
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Time</p>
+        <p className="text-xl font-semibold text-cyan-300">{timeLeft.toFixed(1)}s</p>
+      </div>
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Coins</p>
+        <p className="text-xl font-semibold text-amber-300">
+          {collected} / {total}
+        </p>
+      </div>
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Lives</p>
+        <p className="text-xl font-semibold text-rose-300" aria-label={`${lives} lives left`}>
+          {'♥'.repeat(lives) || '—'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default function RaceStats({ racers, huds }: RaceStatsProps) {
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 px-6 py-4 shadow-lg">
+      {racers.map((racer, index) => (
+        <RacerStats key={racer.name} racer={racer} hud={huds[index]} />
+      ))}
+    </div>
+  );
+}
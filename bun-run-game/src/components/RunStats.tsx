@@ -0,0 +1,90 @@
+import { useSyncExternalStore } from 'react';
+import type { Hud } from '../game/hud';
+import { DEFAULT_GAME_MODE, getGameMode, type GameMode } from '../game/modes';
+
+type RunStatsProps = {
+  hud: Hud;
+  /** Shows the split against the ghost being raced. */
+  racingGhost: boolean;
+  /** Which stats the mode being played shows; all of the classic ones by default. */
+  show?: GameMode['hud'];
+};
+
+const formatDelta = (seconds: number) =>
+  `${seconds > 0 ? '+' : seconds < 0 ? '−' : '±'}${Math.abs(seconds).toFixed(2)}s`;
+
+export default function RunStats({ hud, racingGhost, show = getGameMode(DEFAULT_GAME_MODE).hud }: RunStatsProps) {
+  const { timeLeft, elapsed, collected, total, lives, height, split } = useSyncExternalStore(
+    hud.subscribe,
+    hud.getSnapshot,
+    hud.getSnapshot,
+  );
+
+  return (
+    <div className="flex items-center gap-6 rounded-2xl border border-white/10 bg-black/30 px-6 py-4 shadow-lg">
+      {show.clock && (
+        <div className="text-center">
+          <p className="text-xs uppercase tracking-wide text-slate-400">
+            {show.clock === 'countdown' ? 'Time Left' : 'Time'}
+          </p>
+          <p className="text-3xl font-semibold text-cyan-300">
+            {(show.clock === 'countdown' ? timeLeft : elapsed).toFixed(1)}s
+          </p>
+        </div>
+      )}
+      {show.height && (
+        <>
+          {show.clock && <div className="h-12 w-px bg-white/10" aria-hidden />}
+          <div className="text-center">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Height
+            </p>
+            <p className="text-3xl font-semibold text-emerald-300">
+              {height}m
+            </p>
+          </div>
+        </>
+      )}
+      {racingGhost && (
+        <>
+          <div className="h-12 w-px bg-white/10" aria-hidden />
+          <div className="text-center">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              vs Ghost
+            </p>
+            <p
+              className={`text-3xl font-semibold ${
+                split === null ? 'text-slate-400' : split > 0 ? 'text-rose-300' : 'text-emerald-300'
+              }`}
+            >
+              {split === null ? '—' : formatDelta(split)}
+            </p>
+          </div>
+        </>
+      )}
+      {(show.clock || show.height || racingGhost) && <div className="h-12 w-px bg-white/10" aria-hidden />}
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          Coins
+        </p>
+        <p className="text-3xl font-semibold text-amber-300">
+          {/* An endless climb's coins keep coming, so there is no total to show */}
+          {show.height ? collected : `${collected} / ${total}`}
+        </p>
+      </div>
+      {show.lives && (
+        <>
+          <div className="h-12 w-px bg-white/10" aria-hidden />
+          <div className="text-center">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Lives
+            </p>
+            <p className="text-3xl font-semibold text-rose-300" aria-label={`${lives} lives left`}>
+              {'♥'.repeat(lives) || '—'}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import type { FormEvent } from 'react';
+import { LEADERBOARD_SIZE } from '../game/leaderboard';
+import { getGameMode, type GameModeId } from '../game/modes';
+import type { ScoreBreakdown } from '../game/score';
+import type { GameStatus } from '../game/types';
+
+export type RunResult = {
+  levelId: string;
+  mode: GameModeId;
+  status: GameStatus;
+  score: ScoreBreakdown;
+  collected: number;
+  total: number;
+  elapsed: number;
+  recordedAt: string;
+  previousBest: number | null;
+  /** Set once the run has been entered on the leaderboard. */
+  savedRank: number | null;
+  /** Whether the bot played the run, which keeps it off personal bests and the leaderboard. */
+  autoplay: boolean;
+  /** Whether debug tuning changed the physics, which keeps it off personal bests and the leaderboard too. */
+  tuned: boolean;
+};
+
+type RunSummaryProps = {
+  result: RunResult;
+  pendingRank: number | null;
+  playerName: string;
+  onPlayerNameChange: (name: string) => void;
+  onSave: () => void;
+};
+
+const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${points.toLocaleString()}`;
+
+export default function RunSummary({
+  result,
+  pendingRank,
+  playerName,
+  onPlayerNameChange,
+  onSave,
+}: RunSummaryProps) {
+  const { score, previousBest } = result;
+  const mode = getGameMode(result.mode);
+  const isNewBest = previousBest === null || score.total > previousBest;
+  const rows: [string, number][] =
+    mode.scoring === 'climb'
+      ? [
+          ['Height', score.height],
+          [`Coins (${result.collected})`, score.coins],
+          ['Lives lost', score.respawns],
+        ]
+      : [
+          ['Time bonus', score.time],
+          [`Coins (${result.collected} / ${result.total})`, score.coins],
+          ['Lives lost', score.respawns],
+          ['All coins bonus', score.allCoins],
+        ];
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (playerName.trim()) onSave();
+  };
+
+  return (
+    <div className="w-full max-w-sm rounded-2xl border border-white/10 bg-black/40 px-5 py-4 text-sm text-slate-300">
+      <dl className="grid grid-cols-[1fr_auto] gap-x-6 gap-y-1">
+        {rows.map(([label, points]) => (
+          <div key={label} className="contents">
+            <dt>{label}</dt>
+            <dd className="text-right tabular-nums">{formatPoints(points)}</dd>
+          </div>
+        ))}
+        <dt className="border-t border-white/10 pt-1 font-semibold text-white">Score</dt>
+        <dd className="border-t border-white/10 pt-1 text-right font-semibold tabular-nums text-amber-300">
+          {score.total.toLocaleString()}
+        </dd>
+      </dl>
+      <p className="mt-3 text-slate-400">
+        {result.autoplay ? (
+          'Played by autoplay, so it is not saved.'
+        ) : result.tuned ? (
+          'Played with debug tuning, so it is not saved.'
+        ) : mode.leaderboard === null ? (
+          `${mode.label} runs are not saved.`
+        ) : (
+          <>
+            {isNewBest
+              ? 'New personal best!'
+              : `Personal best: ${previousBest.toLocaleString()}`}
+            {' · '}
+            {result.savedRank !== null
+              ? `Saved at #${result.savedRank}`
+              : pendingRank !== null
+                ? `Ranks #${pendingRank} of the top ${LEADERBOARD_SIZE}`
+                : `Outside the top ${LEADERBOARD_SIZE}`}
+          </>
+        )}
+      </p>
+      {result.savedRank === null && pendingRank !== null && (
+        <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+          <input
+            value={playerName}
+            onChange={(event) => onPlayerNameChange(event.target.value)}
+            maxLength={16}
+            placeholder="Your name"
+            aria-label="Your name"
+            className="min-w-0 flex-1 rounded-full border border-white/10 bg-black/30 px-3 py-1 text-white focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300"
+          />
+          <button
+            type="submit"
+            disabled={!playerName.trim()}
+            className="rounded-full bg-amber-300 px-4 py-1 font-semibold text-slate-900 transition hover:bg-amber-200 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
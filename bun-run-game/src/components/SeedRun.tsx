@@ -0,0 +1,123 @@
+import { useState, useSyncExternalStore } from 'react';
+import { dailySeed, generateLevel, normalizeSeed, randomSeed, seedOfLevel } from '../game/levels';
+import { subscribeToNothing } from '../game/query';
+import type { LevelDefinition } from '../game/types';
+
+type SeedRunProps = {
+  /** The level on screen, whose link can be shared if it was generated. */
+  level: LevelDefinition;
+  onPlay: (level: LevelDefinition) => void;
+};
+
+const readSharedSeed = () => new URLSearchParams(window.location.search).get('seed');
+
+const shareLink = (seed: string) => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ seed }).toString();
+  return url.toString();
+};
+
+/**
+ * Starts generated levels: today's Daily Run, which everyone plays on the
+ * same seed, or a custom run from a typed, rolled or shared (`?seed=`) seed.
+ */
+export default function SeedRun({ level, onPlay }: SeedRunProps) {
+  const sharedSeed = useSyncExternalStore(subscribeToNothing, readSharedSeed, () => null);
+  const [draft, setDraft] = useState<string | null>(null);
+  /** The link to share, once copied or when the clipboard refused it. */
+  const [shared, setShared] = useState<{ levelId: string; link: string; copied: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const seed = normalizeSeed(draft ?? sharedSeed ?? '');
+  const levelSeed = seedOfLevel(level.id);
+
+  const play = (seedToPlay: string) => {
+    let generated: LevelDefinition;
+    try {
+      generated = generateLevel(seedToPlay);
+    } catch (problem) {
+      setError(problem instanceof Error ? problem.message : String(problem));
+      return;
+    }
+    setError(null);
+    onPlay(generated);
+  };
+
+  const copyLink = (levelSeed: string) => {
+    const link = shareLink(levelSeed);
+    const share = (copied: boolean) => setShared({ levelId: level.id, link, copied });
+    // The clipboard is only there on secure origins, and the browser can still refuse it
+    if (!navigator.clipboard) {
+      share(false);
+      return;
+    }
+    navigator.clipboard
+      .writeText(link)
+      .then(() => share(true))
+      .catch(() => share(false));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-sm">
+      <button
+        onClick={() => play(dailySeed())}
+        className="rounded-full border border-cyan-300/60 px-4 py-1.5 font-semibold text-cyan-200 transition hover:bg-cyan-300/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200"
+      >
+        Play today&apos;s Daily Run
+      </button>
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (seed) play(seed);
+        }}
+        className="flex items-center gap-2"
+      >
+        <label className="flex items-center gap-2 text-slate-400">
+          Seed
+          <input
+            value={draft ?? sharedSeed ?? ''}
+            onChange={(event) => setDraft(event.target.value)}
+            placeholder="any word"
+            spellCheck={false}
+            className="w-36 rounded-full border border-white/10 bg-black/40 px-3 py-1 text-white placeholder:text-slate-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-200"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setDraft(randomSeed())}
+          className="font-semibold text-slate-300 transition hover:text-white"
+        >
+          New seed
+        </button>
+        <button
+          type="submit"
+          disabled={!seed}
+          className="font-semibold text-cyan-300 transition hover:text-cyan-200 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Play seed
+        </button>
+      </form>
+      {sharedSeed && draft === null && (
+        <p className="text-slate-400">Someone shared seed &ldquo;{normalizeSeed(sharedSeed)}&rdquo; with you.</p>
+      )}
+      {levelSeed && (
+        <p className="flex items-center gap-2 text-slate-400">
+          Playing seed <span className="font-semibold text-white">{levelSeed}</span>
+          <button
+            onClick={() => copyLink(levelSeed)}
+            className="font-semibold text-cyan-300 transition hover:text-cyan-200"
+          >
+            {shared?.levelId === level.id && shared.copied ? 'Link copied' : 'Copy link'}
+          </button>
+        </p>
+      )}
+      {shared?.levelId === level.id && !shared.copied && (
+        <>
+          <p className="text-rose-300">The link could not be copied; copy it from here instead.</p>
+          <p className="max-w-md break-all text-center text-slate-300">{shared.link}</p>
+        </>
+      )}
+      {error && <p className="max-w-md text-center text-rose-300">{error}</p>}
+    </div>
+  );
+}
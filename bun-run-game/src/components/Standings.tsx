@@ -0,0 +1,45 @@
+import type { Standing } from '../game/netplay';
+
+type StandingsProps = {
+  standings: Standing[];
+  /** The viewer's own id, to pick out their row. */
+  playerId: string | null;
+};
+
+const describe = ({ status, time, rejected }: Standing) => {
+  if (rejected) return 'finish rejected';
+  switch (status) {
+    case 'won':
+      return time === null ? 'finished' : `${time.toFixed(2)}s`;
+    case 'lost':
+      return 'out of time';
+    case 'gameOver':
+      return 'out of lives';
+    case 'running':
+      return 'racing';
+    default:
+      return 'waiting';
+  }
+};
+
+export default function Standings({ standings, playerId }: StandingsProps) {
+  if (standings.length === 0) return null;
+  return (
+    <ol className="flex min-w-64 flex-col gap-1 rounded-2xl border border-white/10 bg-black/30 px-5 py-4 text-sm shadow-lg">
+      {standings.map((standing, index) => (
+        <li
+          key={standing.id}
+          title={standing.rejected ?? undefined}
+          className={`flex justify-between gap-6 ${standing.id === playerId ? 'font-semibold' : ''}`}
+        >
+          <span style={{ color: standing.tint }}>
+            {index + 1}. {standing.name}
+          </span>
+          <span className={`tabular-nums ${standing.rejected ? 'text-rose-300' : 'text-slate-300'}`}>
+            {standing.collected} coin{standing.collected === 1 ? '' : 's'} · {describe(standing)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
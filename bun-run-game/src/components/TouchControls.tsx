@@ -0,0 +1,49 @@
+import type { MouseEvent, PointerEvent } from 'react';
+import type { Action } from '../game/input';
+
+type TouchControlsProps = {
+  onAction: (action: Action, pressed: boolean) => void;
+  onPause: () => void;
+};
+
+const buttonClass =
+  'pointer-events-auto flex touch-none select-none items-center justify-center rounded-full border border-white/20 bg-white/10 text-white backdrop-blur active:bg-white/30';
+
+/** On-screen buttons for touch screens; hidden wherever a fine pointer is available. */
+export default function TouchControls({ onAction, onPause }: TouchControlsProps) {
+  const handlers = (action: Action) => ({
+    onPointerDown: (event: PointerEvent<HTMLButtonElement>) => {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      onAction(action, true);
+    },
+    onPointerUp: () => onAction(action, false),
+    onPointerCancel: () => onAction(action, false),
+    onContextMenu: (event: MouseEvent) => event.preventDefault(),
+  });
+
+  return (
+    <div className="pointer-events-none absolute inset-0 hidden flex-col justify-between p-4 pointer-coarse:flex">
+      <button onClick={onPause} aria-label="Pause" className={`${buttonClass} h-12 w-12 self-end`}>
+        ❚❚
+      </button>
+      <div className="flex items-end justify-between">
+        <div className="flex gap-3">
+          <button aria-label="Move left" className={`${buttonClass} h-16 w-16 text-2xl`} {...handlers('left')}>
+            ◀︎
+          </button>
+          <button aria-label="Move right" className={`${buttonClass} h-16 w-16 text-2xl`} {...handlers('right')}>
+            ▶︎
+          </button>
+        </div>
+        <div className="flex items-end gap-3">
+          <button aria-label="Drop down" className={`${buttonClass} h-16 w-16 text-2xl`} {...handlers('down')}>
+            ▼
+          </button>
+          <button aria-label="Jump" className={`${buttonClass} h-20 w-20 text-2xl`} {...handlers('jump')}>
+            ▲
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
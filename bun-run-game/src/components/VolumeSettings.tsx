@@ -0,0 +1,43 @@
+import type { AudioSettings } from '../game/audio';
+
+type VolumeSettingsProps = {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+};
+
+const CHANNELS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'music', label: 'Music' },
+  { key: 'sfx', label: 'Effects' },
+];
+
+export default function VolumeSettings({ settings, onChange }: VolumeSettingsProps) {
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-300">
+      {CHANNELS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-3">
+          <span className="w-24 font-semibold text-white">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings[key]}
+            onChange={(event) => onChange({ ...settings, [key]: event.target.valueAsNumber })}
+            disabled={settings.muted}
+            className="flex-1 accent-cyan-400 disabled:opacity-40"
+          />
+          <span className="w-12 text-right tabular-nums">{Math.round(settings[key] * 100)}%</span>
+        </label>
+      ))}
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.muted}
+          onChange={(event) => onChange({ ...settings, muted: event.target.checked })}
+        />
+        Mute all sound
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { RefObject } from 'react';
+import {
+  AUDIO_SETTINGS_KEY,
+  createAudio,
+  parseAudioSettings,
+  unlockOnFirstGesture,
+  type GameAudio,
+} from '../game/audio';
+import {
+  isMotionReduced,
+  parseMotionSetting,
+  prefersReducedMotion,
+  REDUCED_MOTION_KEY,
+  subscribeToMotionPreference,
+} from '../game/effects';
+import { KEY_BINDINGS_KEY, parseKeyBindings } from '../game/input';
+import { createAccumulator, startFrameLoop } from '../game/loop';
+import { loadSpriteAtlas } from '../game/sprites';
+import { readStorage, subscribeToStorage } from '../game/storage';
+
+/** What a page's frame loop gets from the hook when it starts. */
+export type FrameLoopContext = {
+  audio: GameAudio;
+  /** Turns a frame's delta into the whole number of fixed ticks to run. */
+  advance: ReturnType<typeof createAccumulator>;
+  /** Kept current for the loop, which outlives any one render. */
+  reducedMotion: RefObject<boolean>;
+};
+
+type GameLoopOptions = {
+  /** Whether a run is under way, which plays the music and lets losing focus pause it. */
+  running: boolean;
+  /** Called when the tab is hidden or the window loses focus mid-run; leave it out if runs cannot pause. */
+  pause?: () => void;
+  /**
+   * Sets up the page's drawing and returns what to do every frame, or
+   * nothing if the canvas is not there yet. The loop restarts whenever
+   * `start` changes, so it should be memoised.
+   */
+  start: (context: FrameLoopContext) => Parameters<typeof startFrameLoop>[0] | undefined;
+};
+
+/**
+ * What every page that plays the game needs around its own frame loop: sound,
+ * the stored audio, motion and control settings, music while running, and a
+ * pause when the player looks away.
+ */
+export const useGameLoop = ({ running, pause, start }: GameLoopOptions) => {
+  const storedAudio = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(AUDIO_SETTINGS_KEY),
+    () => null,
+  );
+  const audioSettings = useMemo(() => parseAudioSettings(storedAudio), [storedAudio]);
+  const [audio] = useState(createAudio);
+  const storedMotion = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(REDUCED_MOTION_KEY),
+    () => null,
+  );
+  const motion = parseMotionSetting(storedMotion);
+  const systemPrefersReduced = useSyncExternalStore(
+    subscribeToMotionPreference,
+    prefersReducedMotion,
+    () => false,
+  );
+  const reducedMotion = isMotionReduced(motion, systemPrefersReduced);
+  const storedKeyBindings = useSyncExternalStore(
+    subscribeToStorage,
+    () => readStorage(KEY_BINDINGS_KEY),
+    () => null,
+  );
+  const keyBindings = useMemo(() => parseKeyBindings(storedKeyBindings), [storedKeyBindings]);
+
+  const reducedMotionRef = useRef(false);
+
+  useEffect(() => {
+    const stopListening = unlockOnFirstGesture(audio);
+    return () => {
+      stopListening();
+      audio.close();
+    };
+  }, [audio]);
+
+  useEffect(() => {
+    audio.setSettings(audioSettings);
+  }, [audio, audioSettings]);
+
+  useEffect(() => {
+    if (!running) return;
+    audio.startMusic();
+    return () => audio.stopMusic();
+  }, [audio, running]);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    if (!running || !pause) return;
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pause);
+    };
+  }, [running, pause]);
+
+  useEffect(() => {
+    const tick = start({ audio, advance: createAccumulator(), reducedMotion: reducedMotionRef });
+    if (!tick) return;
+    // The loop redraws on its own once the atlas arrives; until then shapes stand in
+    loadSpriteAtlas().catch(() => {});
+    return startFrameLoop(tick);
+  }, [audio, start]);
+
+  return { audio, audioSettings, motion, systemPrefersReduced, keyBindings };
+};
@@ -0,0 +1,54 @@
+import type { Player } from './types';
+
+export type PlayerAnimationState = 'idle' | 'run' | 'jump' | 'fall' | 'land';
+
+export type PlayerAnimation = {
+  state: PlayerAnimationState;
+  /** Seconds since `state` was entered. */
+  time: number;
+  /** 1 when facing right, -1 when facing left. */
+  facing: 1 | -1;
+};
+
+/** Horizontal speed below which the player counts as standing still. */
+const RUN_THRESHOLD = 20;
+
+/** How long the landing pose is held before running or idling. */
+export const LAND_DURATION = 0.12;
+
+export type AnimatedPlayer = Pick<Player, 'vx' | 'vy' | 'onGround'>;
+
+export const createPlayerAnimation = (): PlayerAnimation => ({ state: 'idle', time: 0, facing: 1 });
+
+const nextState = (animation: PlayerAnimation, player: AnimatedPlayer): PlayerAnimationState => {
+  if (!player.onGround) return player.vy < 0 ? 'jump' : 'fall';
+  if (animation.state === 'jump' || animation.state === 'fall') return 'land';
+  if (animation.state === 'land' && animation.time < LAND_DURATION) return 'land';
+  return Math.abs(player.vx) > RUN_THRESHOLD ? 'run' : 'idle';
+};
+
+/** Advances the animation by `dt` seconds, switching state when the player's motion calls for it. */
+export const updatePlayerAnimation = (
+  animation: PlayerAnimation,
+  player: AnimatedPlayer,
+  dt: number,
+): PlayerAnimation => {
+  const state = nextState(animation, player);
+  let { facing } = animation;
+  if (player.vx > RUN_THRESHOLD) facing = 1;
+  if (player.vx < -RUN_THRESHOLD) facing = -1;
+  return {
+    state,
+    time: state === animation.state ? animation.time + dt : 0,
+    facing,
+  };
+};
+
+/**
+ * A best guess from a single snapshot, for views that do not track the run
+ * frame by frame; `time` keeps looping animations moving.
+ */
+export const poseOf = (player: AnimatedPlayer, time: number): PlayerAnimation => ({
+  ...updatePlayerAnimation(createPlayerAnimation(), player, 0),
+  time,
+});
@@ -0,0 +1,301 @@
+import type { EngineEvent } from './engine';
+import { writeStorage } from './storage';
+
+/** Volumes run from 0 to 1. */
+export type AudioSettings = {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.5,
+  sfx: 0.8,
+  muted: false,
+};
+
+export const AUDIO_SETTINGS_KEY = 'bun-run:audio';
+
+const readVolume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export const parseAudioSettings = (text: string | null): AudioSettings => {
+  if (!text) return DEFAULT_AUDIO_SETTINGS;
+  try {
+    const data = JSON.parse(text) as Partial<Record<keyof AudioSettings, unknown>>;
+    return {
+      master: readVolume(data.master, DEFAULT_AUDIO_SETTINGS.master),
+      music: readVolume(data.music, DEFAULT_AUDIO_SETTINGS.music),
+      sfx: readVolume(data.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      muted: typeof data.muted === 'boolean' ? data.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) =>
+  writeStorage(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+
+export type SoundEffect = 'jump' | 'land' | 'bounce' | 'coin' | 'respawn' | 'win' | 'lose';
+
+const EVENT_SOUNDS: Partial<Record<EngineEvent['type'], SoundEffect>> = {
+  jump: 'jump',
+  wallJump: 'jump',
+  land: 'land',
+  bounce: 'bounce',
+  stomp: 'bounce',
+  coin: 'coin',
+  hurt: 'respawn',
+};
+
+/** Landings slower than this stay silent, so stepping off a ledge is not noisy. */
+const QUIET_LANDING = 250;
+
+export const soundForEvent = (event: EngineEvent): SoundEffect | null => {
+  if (event.type === 'land' && (event.speed ?? 0) < QUIET_LANDING) return null;
+  return EVENT_SOUNDS[event.type] ?? null;
+};
+
+/** Beats per minute while there is plenty of time left. */
+export const MUSIC_TEMPO = 112;
+/** Beats per minute as the clock reaches zero. */
+export const MAX_MUSIC_TEMPO = 168;
+/** The music starts speeding up once this many seconds are left. */
+export const URGENT_TIME = 20;
+
+export const musicTempo = (timeLeft: number) => {
+  if (timeLeft >= URGENT_TIME) return MUSIC_TEMPO;
+  const urgency = 1 - Math.max(0, timeLeft) / URGENT_TIME;
+  return MUSIC_TEMPO + (MAX_MUSIC_TEMPO - MUSIC_TEMPO) * urgency;
+};
+
+type Tone = {
+  type: OscillatorType;
+  /** MIDI note numbers; `to` glides there over the note's length. */
+  note: number;
+  to?: number;
+  duration: number;
+  volume: number;
+  delay?: number;
+};
+
+type Synth = {
+  tone: (tone: Tone) => void;
+  noise: (duration: number, volume: number, cutoff: number, delay?: number) => void;
+};
+
+const frequencyOf = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+const SOUNDS: Record<SoundEffect, (synth: Synth) => void> = {
+  jump: ({ tone }) => tone({ type: 'square', note: 67, to: 79, duration: 0.12, volume: 0.18 }),
+  land: ({ noise }) => noise(0.08, 0.35, 900),
+  bounce: ({ tone }) => {
+    tone({ type: 'triangle', note: 55, to: 86, duration: 0.25, volume: 0.35 });
+    tone({ type: 'square', note: 67, to: 91, duration: 0.18, volume: 0.08 });
+  },
+  coin: ({ tone }) => {
+    tone({ type: 'square', note: 83, duration: 0.07, volume: 0.15 });
+    tone({ type: 'square', note: 88, duration: 0.18, volume: 0.15, delay: 0.07 });
+  },
+  respawn: ({ tone, noise }) => {
+    tone({ type: 'sawtooth', note: 67, to: 43, duration: 0.4, volume: 0.2 });
+    noise(0.15, 0.25, 2000);
+  },
+  win: ({ tone }) =>
+    [72, 76, 79, 84].forEach((note, index) =>
+      tone({ type: 'triangle', note, duration: index === 3 ? 0.5 : 0.14, volume: 0.3, delay: index * 0.12 }),
+    ),
+  lose: ({ tone }) =>
+    [67, 63, 60, 55].forEach((note, index) =>
+      tone({ type: 'square', note, duration: index === 3 ? 0.6 : 0.18, volume: 0.14, delay: index * 0.18 }),
+    ),
+};
+
+/** Root and chord tones per bar of the music loop: Am, F, C, G. */
+const PROGRESSION = [
+  { root: 45, chord: [57, 60, 64] },
+  { root: 41, chord: [53, 57, 60] },
+  { root: 48, chord: [60, 64, 67] },
+  { root: 43, chord: [55, 59, 62] },
+];
+const STEPS_PER_BAR = 16;
+
+/** Music is scheduled this far ahead of the audio clock, in seconds. */
+const LOOKAHEAD = 0.12;
+/** How often the scheduler wakes up, in milliseconds. */
+const SCHEDULE_INTERVAL = 25;
+
+const playMusicStep = (synth: Synth, step: number, stepLength: number) => {
+  const { root, chord } = PROGRESSION[Math.floor(step / STEPS_PER_BAR) % PROGRESSION.length];
+  const beat = step % STEPS_PER_BAR;
+  if (beat % 4 === 0) synth.tone({ type: 'triangle', note: root, duration: stepLength * 2, volume: 0.4 });
+  if (beat % 4 === 2) {
+    synth.tone({ type: 'triangle', note: root + 12, duration: stepLength * 1.5, volume: 0.25 });
+    synth.noise(0.04, 0.12, 7000);
+  }
+  if (beat % 2 === 0) {
+    const note = chord[(beat / 2) % chord.length] + 12;
+    synth.tone({ type: 'square', note, duration: stepLength * 0.9, volume: 0.05 });
+  }
+};
+
+type Mixer = {
+  context: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+  noise: AudioBuffer;
+};
+
+const createMixer = (): Mixer => {
+  const context = new AudioContext();
+  const master = context.createGain();
+  const music = context.createGain();
+  const sfx = context.createGain();
+  music.connect(master);
+  sfx.connect(master);
+  master.connect(context.destination);
+
+  const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let index = 0; index < samples.length; index += 1) samples[index] = Math.random() * 2 - 1;
+
+  return { context, master, music, sfx, noise };
+};
+
+const createSynth = ({ context, noise: buffer }: Mixer, output: AudioNode, at: number): Synth => ({
+  tone: ({ type, note, to, duration, volume, delay = 0 }) => {
+    const start = at + delay;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(frequencyOf(note), start);
+    if (to !== undefined) oscillator.frequency.exponentialRampToValueAtTime(frequencyOf(to), start + duration);
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.linearRampToValueAtTime(volume, start + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    oscillator.connect(gain);
+    gain.connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.02);
+  },
+  noise: (duration, volume, cutoff, delay = 0) => {
+    const start = at + delay;
+    const source = context.createBufferSource();
+    const filter = context.createBiquadFilter();
+    const gain = context.createGain();
+    source.buffer = buffer;
+    filter.type = 'lowpass';
+    filter.frequency.value = cutoff;
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+    source.start(start);
+    source.stop(start + duration + 0.02);
+  },
+});
+
+/**
+ * Sound effects and music for a page. Browsers only allow audio after a user
+ * gesture, so nothing is created until `unlock` is called from one; until
+ * then every call is a no-op, apart from remembering whether music should play.
+ */
+export const createAudio = () => {
+  let mixer: Mixer | null = null;
+  let settings = DEFAULT_AUDIO_SETTINGS;
+  let musicWanted = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let tempo = MUSIC_TEMPO;
+  let step = 0;
+  let nextStepTime = 0;
+
+  const applySettings = () => {
+    if (!mixer) return;
+    const { context, master, music, sfx } = mixer;
+    // A short ramp avoids clicks while a slider is dragged
+    master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, context.currentTime, 0.02);
+    music.gain.setTargetAtTime(settings.music, context.currentTime, 0.02);
+    sfx.gain.setTargetAtTime(settings.sfx, context.currentTime, 0.02);
+  };
+
+  const schedule = () => {
+    if (!mixer) return;
+    const { context, music } = mixer;
+    while (nextStepTime < context.currentTime + LOOKAHEAD) {
+      const stepLength = 60 / tempo / 4;
+      playMusicStep(createSynth(mixer, music, nextStepTime), step, stepLength);
+      nextStepTime += stepLength;
+      step += 1;
+    }
+  };
+
+  const startScheduler = () => {
+    if (!mixer || timer !== null) return;
+    step = 0;
+    nextStepTime = mixer.context.currentTime + 0.05;
+    schedule();
+    timer = setInterval(schedule, SCHEDULE_INTERVAL);
+  };
+
+  const stopScheduler = () => {
+    if (timer === null) return;
+    clearInterval(timer);
+    timer = null;
+  };
+
+  return {
+    /** Creates or resumes the audio context; call from an input event handler. */
+    unlock: () => {
+      if (!mixer) {
+        mixer = createMixer();
+        applySettings();
+        if (musicWanted) startScheduler();
+      }
+      if (mixer.context.state === 'suspended') void mixer.context.resume();
+    },
+    setSettings: (next: AudioSettings) => {
+      settings = next;
+      applySettings();
+    },
+    play: (sound: SoundEffect) => {
+      if (!mixer || mixer.context.state !== 'running') return;
+      SOUNDS[sound](createSynth(mixer, mixer.sfx, mixer.context.currentTime));
+    },
+    startMusic: () => {
+      musicWanted = true;
+      startScheduler();
+    },
+    stopMusic: () => {
+      musicWanted = false;
+      stopScheduler();
+    },
+    /** Speeds the music up as the clock runs down. */
+    setTimeLeft: (timeLeft: number) => {
+      tempo = musicTempo(timeLeft);
+    },
+    close: () => {
+      stopScheduler();
+      void mixer?.context.close();
+      mixer = null;
+    },
+  };
+};
+
+export type GameAudio = ReturnType<typeof createAudio>;
+
+/** Unlocks `audio` on the first click, tap or key press. Returns a function that stops listening. */
+export const unlockOnFirstGesture = (audio: GameAudio) => {
+  const events = ['pointerdown', 'keydown'] as const;
+  const unlock = () => {
+    audio.unlock();
+    stop();
+  };
+  const stop = () => events.forEach((type) => window.removeEventListener(type, unlock));
+  events.forEach((type) => window.addEventListener(type, unlock));
+  return stop;
+};
@@ -0,0 +1,12 @@
+import { describe, expect, test } from 'bun:test';
+import { autoplay } from './bot';
+import { LEVELS } from './levels';
+
+describe('autoplay', () => {
+  test.each(LEVELS.map((level) => [level.id, level] as const))('finishes %s with every coin', (_, level) => {
+    const state = autoplay(level);
+
+    expect(state.status).toBe('won');
+    expect(state.collected).toBe(state.coins.length);
+  });
+});
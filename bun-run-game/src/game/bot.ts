@@ -0,0 +1,297 @@
+import { DEFAULT_MOVEMENT_PRESET, MOVEMENT_PRESETS, type MovementProfile } from './config';
+import {
+  createEngineState,
+  createInput,
+  FIXED_TIMESTEP,
+  rectsOverlap,
+  step,
+  type EngineState,
+} from './engine';
+import { isLaserOn } from './hazards';
+import { createNavGraph, type Move, type Spot, type Surface } from './navigation';
+import type { InputState, LevelDefinition, Rect } from './types';
+
+/** How close the player's centre has to get to a spot to count as there, in pixels. */
+const ARRIVAL_TOLERANCE = 6;
+
+/** Seconds spent going after one coin before the bot gives up on it. */
+const STUCK_TIME = 5;
+
+/** Seconds kept in hand for the goal before the bot stops detouring for coins. */
+const TIME_MARGIN = 5;
+
+/** How far ahead of the player to look for anything that hurts, in pixels. */
+const LOOKAHEAD = 40;
+
+/** Seconds of warning wanted before walking through a laser that is about to switch on. */
+const LASER_WARNING = 0.4;
+
+type Plan = {
+  /** Spots to stand on in order, starting on the surface the player is on. */
+  path: Spot[];
+  /** How to get from each spot on the path to the next. */
+  moves: Move[];
+  /** What the path ends by touching, and how. */
+  target: Rect;
+  finish: Move;
+  /** Index of the coin being fetched, or `null` on the way to the goal. */
+  coin: number | null;
+};
+
+/** Where a jump or drop is headed: the centre `x` to come down at, and how high the feet must get. */
+type Aim = {
+  /** The spot it set off from. */
+  from: Spot;
+  x: number;
+  feetY: number;
+  /** The surface to land on, or `null` when the jump only has to touch something. */
+  landing: Surface | null;
+};
+
+const centreOf = (rect: Rect) => rect.x + rect.width / 2;
+
+const steer = (input: InputState, distance: number) => {
+  input.right = distance > ARRIVAL_TOLERANCE;
+  input.left = distance < -ARRIVAL_TOLERANCE;
+};
+
+/**
+ * Where to steer for `aim` without going under its landing while the feet
+ * are still below it, so a jump onto a ledge rises past the edge first.
+ */
+const clearOf = ({ x, landing }: Aim, player: Rect) => {
+  if (!landing?.solid || player.y + player.height <= landing.y) return x;
+  const half = player.width / 2;
+  if (player.x + player.width <= landing.x) return Math.min(x, landing.x - half - ARRIVAL_TOLERANCE);
+  if (player.x >= landing.x + landing.width) {
+    return Math.max(x, landing.x + landing.width + half + ARRIVAL_TOLERANCE);
+  }
+  return x;
+};
+
+/**
+ * What to do about trouble just ahead when walking in `direction`: wait for
+ * a laser to switch off, hop over spikes and enemies, or nothing.
+ */
+const dangerAhead = (state: EngineState, direction: number): 'wait' | 'hop' | null => {
+  if (direction === 0 || state.invulnerable > 0) return null;
+  const { player } = state;
+  const probe = {
+    x: direction < 0 ? player.x - LOOKAHEAD : player.x,
+    y: player.y,
+    width: player.width + LOOKAHEAD,
+    height: player.height,
+  };
+  const laser = state.hazards.some(
+    (hazard) =>
+      hazard.type === 'laser' &&
+      rectsOverlap(probe, hazard) &&
+      (hazard.active || isLaserOn(hazard, state.time + LASER_WARNING)),
+  );
+  if (laser) return 'wait';
+  const hurts =
+    state.hazards.some((hazard) => hazard.type === 'spikes' && rectsOverlap(probe, hazard)) ||
+    state.enemies.some((enemy) => !enemy.defeated && rectsOverlap(probe, enemy));
+  return hurts ? 'hop' : null;
+};
+
+/**
+ * A computer player for `level`. It plans over a `createNavGraph` built with
+ * the run's movement, fetching the nearest coin while there is time to spare
+ * and then making for the goal, and plans again every time it lands, so
+ * missed jumps and knock-backs correct themselves.
+ */
+export const createBot = (level: LevelDefinition, movement: MovementProfile) => {
+  const graph = createNavGraph(level, movement);
+  const { player: size } = graph;
+  let plan: Plan | null = null;
+  let aim: Aim | null = null;
+  /** Direction of a hop over trouble, kept up until landing. */
+  let hop = 0;
+  let wasGrounded = false;
+  /** Seconds the current plan's coin has been chased for, over however many plans. */
+  let chaseTime = 0;
+  const skipped = new Set<number>();
+
+  const planFrom = (state: EngineState, start: Map<number, number>) => {
+    let direct = graph.search(start);
+    let goal = graph.nearestTouch(direct.times, state.goal);
+    if (!goal) {
+      // Moves that failed once may well work from a better run-up, and there is nothing else left to try
+      graph.forgive();
+      direct = graph.search(start);
+      goal = graph.nearestTouch(direct.times, state.goal);
+    }
+    const wanted = state.coins.flatMap((coin, index) => (coin.active && !skipped.has(index) ? [index] : []));
+    const nearestCoin = ({ times, previous }: typeof direct, avoid: Rect | null) => {
+      let nearest: { coin: number; touch: NonNullable<typeof goal>; previous: number[] } | null = null;
+      for (const coin of wanted) {
+        const touch = graph.nearestTouch(times, state.coins[coin], avoid);
+        if (touch && (nearest === null || touch.time < nearest.touch.time)) nearest = { coin, touch, previous };
+      }
+      return nearest;
+    };
+    // Touching the goal ends the run, so coins are fetched along routes clear of it where there are any
+    const clear = wanted.length > 0 ? nearestCoin(graph.search(start, state.goal), state.goal) : null;
+    const detour = clear ?? nearestCoin(direct, null);
+    // Going back for the goal from a coin takes about as long again, so leave room for that
+    const spare = state.timeLeft - TIME_MARGIN - 2 * (goal?.time ?? 0);
+    const chosen =
+      detour && detour.touch.time < spare ? detour : goal && { coin: null, touch: goal, previous: direct.previous };
+    if (!chosen) {
+      plan = null;
+      return;
+    }
+
+    if (chosen.coin === null || chosen.coin !== plan?.coin) chaseTime = 0;
+    const path: Spot[] = [];
+    for (let index = chosen.touch.spot; index >= 0; index = chosen.previous[index]) path.unshift(graph.spots[index]);
+    plan = {
+      path,
+      moves: path.slice(1).map((spot, index) => graph.move(path[index], spot) as Move),
+      target: chosen.coin === null ? state.goal : state.coins[chosen.coin],
+      finish: chosen.touch.move,
+      coin: chosen.coin,
+    };
+  };
+
+  /** Where the plan goes after its first spot. */
+  const aimOf = ({ path, target }: Plan): Aim =>
+    path.length > 1
+      ? { from: path[0], x: path[1].x, feetY: path[1].surface.y, landing: path[1].surface }
+      : { from: path[0], x: centreOf(target), feetY: target.y + target.height + size.height, landing: null };
+
+  /** Whether the jump or drop towards `aim` ended where it was meant to. */
+  const arrived = (state: EngineState, { landing }: Aim) => {
+    const { player } = state;
+    if (landing === null) return plan?.coin != null && !state.coins[plan.coin].active;
+    const platform = landing.platform === null ? null : level.platforms[landing.platform];
+    // Moving platforms are never quite where their stops say
+    if (platform?.type === 'moving') return true;
+    return (
+      Math.abs(player.y + player.height - landing.y) < 1 &&
+      player.x + player.width > landing.x &&
+      player.x < landing.x + landing.width
+    );
+  };
+
+  return {
+    /** The keys to hold for the tick after `state`, the same actions a player's input would give. */
+    act: (state: EngineState): InputState => {
+      const input = createInput();
+      const { player } = state;
+      const centre = centreOf(player);
+      const feet = player.y + player.height;
+      chaseTime += FIXED_TIMESTEP;
+
+      // A bounce pad sends the player on without landing; carry on from the pad
+      if (state.events.some((event) => event.type === 'bounce')) {
+        if (aim && plan && !arrived(state, aim)) graph.forbid(aim.from, aim.landing ?? plan.target);
+        const onPad = plan?.path.findIndex(({ surface }) => !surface.walkable && surface.y === feet) ?? -1;
+        const collected = plan?.coin != null && !state.coins[plan.coin].active;
+        if (plan && onPad > 0 && !collected) {
+          plan.path.splice(0, onPad);
+          plan.moves.splice(0, onPad);
+        } else {
+          planFrom(state, graph.landOn(centre, feet));
+        }
+        aim = plan && aimOf(plan);
+        // With no way on from the pad, drift towards the goal in the hope of landing somewhere better
+        if (!plan) hop = Math.sign(centreOf(state.goal) - centre);
+      }
+
+      if (!player.onGround) {
+        wasGrounded = false;
+        // Holding jump keeps the full arc the plan was made with
+        input.jump = player.vy < 0;
+        if (!aim) {
+          input.left = hop < 0;
+          input.right = hop > 0;
+          return input;
+        }
+        const ceiling = player.vy < 0 ? graph.ceilingOver(centre, feet, -player.vy) : null;
+        if (ceiling && graph.escapes(centre, feet, -player.vy, ceiling)) {
+          const away = graph.clearOfCeiling(centre, ceiling);
+          input.left = away < 0;
+          input.right = away > 0;
+          return input;
+        }
+        steer(input, clearOf(aim, player) - centre);
+        // Too far under to get out in time, so let go as soon as a short hop still gets high enough
+        const apex = feet - (movement.jumpCutMultiplier * player.vy) ** 2 / (2 * movement.gravity);
+        if (ceiling && apex <= aim.feetY - ARRIVAL_TOLERANCE) input.jump = false;
+        return input;
+      }
+
+      // The graph ignores ledges in the way of an arc; once one gets in the way, stop trying that jump
+      if (!wasGrounded && aim && plan && !arrived(state, aim)) graph.forbid(aim.from, aim.landing ?? plan.target);
+      if (chaseTime > STUCK_TIME && plan?.coin != null) skipped.add(plan.coin);
+      const fetched = plan?.coin != null && !state.coins[plan.coin].active;
+      if (!wasGrounded || !plan || fetched || chaseTime > STUCK_TIME) planFrom(state, graph.landOn(centre, feet));
+      wasGrounded = true;
+      aim = null;
+      hop = 0;
+      if (!plan) return input;
+
+      // Walk straight to the spot to set off from
+      while (plan.path.length > 1 && plan.path[0].surface === plan.path[1].surface) {
+        plan.path.shift();
+        plan.moves.shift();
+      }
+      const [here] = plan.path;
+      const move = plan.path.length > 1 ? plan.moves[0] : plan.finish;
+      const next = aimOf(plan);
+      // Stepping off an edge means carrying on past the spot until there is nothing underfoot
+      const edge = move.launch === 0 ? graph.edgeOf(here) : 0;
+      const distance = here.x - centre;
+      if (Math.abs(distance) > ARRIVAL_TOLERANCE && Math.sign(distance) !== -edge) {
+        // Let go early enough for friction to stop the player on the spot
+        const stopping = (player.vx * player.vx) / (2 * movement.groundFriction);
+        if (Math.sign(player.vx) !== Math.sign(distance) || Math.abs(distance) > stopping) {
+          steer(input, distance);
+        }
+      } else if (edge !== 0) {
+        input.left = edge < 0;
+        input.right = edge > 0;
+        aim = next;
+      } else {
+        steer(input, next.x - centre);
+        // Arcs are planned from a standstill, so turn round before setting off back the way the player came
+        const turning =
+          player.vx * (next.x - centre) < 0 && Math.abs(player.vx) > movement.groundAcceleration * FIXED_TIMESTEP;
+        if (move.launch !== null && !turning) aim = next;
+        if (move.launch && !turning) {
+          input.jump = true;
+          input.jumpBuffer = true;
+        }
+      }
+
+      // Plans know nothing of hazards and enemies, so deal with them on the way
+      const direction = Number(input.right) - Number(input.left);
+      const danger = dangerAhead(state, direction);
+      if (danger === 'wait') {
+        input.left = false;
+        input.right = false;
+      } else if (danger === 'hop' && !input.jump) {
+        input.jump = true;
+        input.jumpBuffer = true;
+        aim = null;
+        hop = direction;
+      }
+      return input;
+    },
+  };
+};
+
+export type Bot = ReturnType<typeof createBot>;
+
+/** Plays `level` to the end with a bot at the controls, for tests and checks. */
+export const autoplay = (
+  level: LevelDefinition,
+  movement: MovementProfile = MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET],
+) => {
+  const bot = createBot(level, movement);
+  let state = createEngineState(level, movement);
+  while (state.status === 'running') state = step(state, bot.act(state), FIXED_TIMESTEP);
+  return state;
+};
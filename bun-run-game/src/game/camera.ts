@@ -0,0 +1,79 @@
+import { GAME_CONFIG } from './config';
+import type { Rect, Size } from './types';
+
+/** The visible slice of the world: `x`/`y` is its top-left corner in world space. */
+export type Camera = Rect;
+
+/** Box around the view centre that the player can move in without the camera moving. */
+export const CAMERA_DEAD_ZONE: Size = { width: 200, height: 140 };
+
+/** How quickly the camera closes the gap to its target, per second. */
+const FOLLOW_RATE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const createCamera = (): Camera => ({
+  x: 0,
+  y: 0,
+  width: GAME_CONFIG.width,
+  height: GAME_CONFIG.height,
+});
+
+/** Keeps the view inside the world; worlds smaller than the view are centred. */
+export const clampCamera = (camera: Camera, world: Size): Camera => ({
+  ...camera,
+  x:
+    world.width <= camera.width
+      ? (world.width - camera.width) / 2
+      : clamp(camera.x, 0, world.width - camera.width),
+  y:
+    world.height <= camera.height
+      ? (world.height - camera.height) / 2
+      : clamp(camera.y, 0, world.height - camera.height),
+});
+
+export const centerCamera = (camera: Camera, target: Rect, world: Size): Camera =>
+  clampCamera(
+    {
+      ...camera,
+      x: target.x + target.width / 2 - camera.width / 2,
+      y: target.y + target.height / 2 - camera.height / 2,
+    },
+    world,
+  );
+
+/**
+ * Eases the camera towards the position that puts `target` back inside the dead
+ * zone. Frame-rate independent: the same distance is covered per second at any `dt`.
+ */
+export const followCamera = (camera: Camera, target: Rect, world: Size, dt: number): Camera => {
+  const centerX = target.x + target.width / 2;
+  const centerY = target.y + target.height / 2;
+  const zoneLeft = camera.x + (camera.width - CAMERA_DEAD_ZONE.width) / 2;
+  const zoneTop = camera.y + (camera.height - CAMERA_DEAD_ZONE.height) / 2;
+
+  let desiredX = camera.x;
+  if (centerX < zoneLeft) {
+    desiredX -= zoneLeft - centerX;
+  } else if (centerX > zoneLeft + CAMERA_DEAD_ZONE.width) {
+    desiredX += centerX - (zoneLeft + CAMERA_DEAD_ZONE.width);
+  }
+
+  let desiredY = camera.y;
+  if (centerY < zoneTop) {
+    desiredY -= zoneTop - centerY;
+  } else if (centerY > zoneTop + CAMERA_DEAD_ZONE.height) {
+    desiredY += centerY - (zoneTop + CAMERA_DEAD_ZONE.height);
+  }
+
+  const desired = clampCamera({ ...camera, x: desiredX, y: desiredY }, world);
+  const blend = 1 - Math.exp(-FOLLOW_RATE * dt);
+  return clampCamera(
+    {
+      ...camera,
+      x: camera.x + (desired.x - camera.x) * blend,
+      y: camera.y + (desired.y - camera.y) * blend,
+    },
+    world,
+  );
+};
@@ -0,0 +1,68 @@
+import type { Platform, Rect } from './types';
+
+export type Axis = 'x' | 'y';
+
+export type Sweep<T extends Platform = Platform> = {
+  /** Where the box ends up along the axis: either the full move or flush against `hit`. */
+  position: number;
+  /** The first platform the box ran into, if any. */
+  hit: T | null;
+};
+
+/** Slack for boxes that already sit flush against a surface after earlier float maths. */
+const CONTACT_EPSILON = 1e-6;
+
+const SIZE: Record<Axis, 'width' | 'height'> = { x: 'width', y: 'height' };
+
+const overlapsAcross = (box: Rect, platform: Rect, axis: Axis) => {
+  const cross: Axis = axis === 'x' ? 'y' : 'x';
+  const size = SIZE[cross];
+  return box[cross] < platform[cross] + platform[size] && box[cross] + box[size] > platform[cross];
+};
+
+/** One-way platforms only stop things coming down onto them. */
+const blocks = (platform: Platform, axis: Axis, distance: number) =>
+  platform.type !== 'oneWay' || (axis === 'y' && distance > 0);
+
+/**
+ * Moves `box` by `distance` along one axis and stops it at the nearest surface
+ * it would cross on the way, however far it travels in one step. Platforms the
+ * box already overlaps are ignored, so it can always move out of them.
+ */
+export const sweepAxis = <T extends Platform>(
+  box: Rect,
+  distance: number,
+  axis: Axis,
+  platforms: T[],
+): Sweep<T> => {
+  const size = SIZE[axis];
+  const start = box[axis];
+  let position = start + distance;
+  let hit: T | null = null;
+  if (distance === 0) return { position, hit };
+
+  platforms.forEach((platform) => {
+    if (!blocks(platform, axis, distance) || !overlapsAcross(box, platform, axis)) return;
+    if (distance > 0) {
+      const leading = start + box[size];
+      const surface = platform[axis];
+      if (leading <= surface + CONTACT_EPSILON && leading + distance > surface) {
+        const contact = surface - box[size];
+        if (contact <= position) {
+          position = contact;
+          hit = platform;
+        }
+      }
+    } else {
+      const surface = platform[axis] + platform[size];
+      if (start >= surface - CONTACT_EPSILON && start + distance < surface) {
+        if (surface >= position) {
+          position = surface;
+          hit = platform;
+        }
+      }
+    }
+  });
+
+  return { position, hit };
+};
@@ -0,0 +1,95 @@
+export const GAME_CONFIG = {
+  width: 960,
+  height: 540,
+  bounceBonus: 1080,
+  timeLimit: 75,
+  lives: 3,
+};
+
+/** How the player runs and jumps. Speeds are px/s, rates px/s², times seconds. */
+export type MovementProfile = {
+  moveSpeed: number;
+  /** How quickly the player speeds up towards `moveSpeed` while holding a direction. */
+  groundAcceleration: number;
+  airAcceleration: number;
+  /** How quickly the player slows to a stop once no direction is held. */
+  groundFriction: number;
+  airFriction: number;
+  gravity: number;
+  maxFallSpeed: number;
+  jumpSpeed: number;
+  /** Launch speed of bounce pads that do not set their own `strength`. */
+  bounceBonus: number;
+  /** Upward speed is scaled by this when jump is released early, for short hops. */
+  jumpCutMultiplier: number;
+  /** How long after running off a ledge a jump still counts. */
+  coyoteTime: number;
+  /** How long a jump pressed just before landing is remembered. */
+  jumpBufferTime: number;
+  wallSlide: boolean;
+  wallSlideSpeed: number;
+  wallJumpSpeedX: number;
+  wallJumpSpeedY: number;
+};
+
+export type MovementPreset = 'responsive' | 'classic' | 'floaty';
+
+export const MOVEMENT_PRESETS: Record<MovementPreset, MovementProfile> = {
+  responsive: {
+    moveSpeed: 320,
+    groundAcceleration: 3200,
+    airAcceleration: 2000,
+    groundFriction: 3600,
+    airFriction: 600,
+    gravity: 2200,
+    maxFallSpeed: 2200,
+    jumpSpeed: 840,
+    bounceBonus: GAME_CONFIG.bounceBonus,
+    jumpCutMultiplier: 0.45,
+    coyoteTime: 0.1,
+    jumpBufferTime: 0.12,
+    wallSlide: true,
+    wallSlideSpeed: 220,
+    wallJumpSpeedX: 380,
+    wallJumpSpeedY: 760,
+  },
+  // The original feel: instant speed changes, fixed-height jumps, no wall moves
+  classic: {
+    moveSpeed: 320,
+    groundAcceleration: 100000,
+    airAcceleration: 100000,
+    groundFriction: 100000,
+    airFriction: 100000,
+    gravity: 2200,
+    maxFallSpeed: 2200,
+    jumpSpeed: 840,
+    bounceBonus: GAME_CONFIG.bounceBonus,
+    jumpCutMultiplier: 1,
+    coyoteTime: 0,
+    jumpBufferTime: 1000,
+    wallSlide: false,
+    wallSlideSpeed: 0,
+    wallJumpSpeedX: 0,
+    wallJumpSpeedY: 0,
+  },
+  floaty: {
+    moveSpeed: 280,
+    groundAcceleration: 1400,
+    airAcceleration: 900,
+    groundFriction: 1200,
+    airFriction: 200,
+    gravity: 1500,
+    maxFallSpeed: 1200,
+    jumpSpeed: 700,
+    bounceBonus: GAME_CONFIG.bounceBonus,
+    jumpCutMultiplier: 0.55,
+    coyoteTime: 0.15,
+    jumpBufferTime: 0.15,
+    wallSlide: true,
+    wallSlideSpeed: 140,
+    wallJumpSpeedX: 320,
+    wallJumpSpeedY: 640,
+  },
+};
+
+export const DEFAULT_MOVEMENT_PRESET: MovementPreset = 'responsive';
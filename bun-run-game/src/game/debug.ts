@@ -0,0 +1,79 @@
+import type { MovementProfile } from './config';
+import type { EngineState } from './engine';
+
+/** Adding `?debug` to the URL enables the tuning panel. */
+export const DEBUG_QUERY_FLAG = 'debug';
+
+/** Shows and hides the panel once it is enabled. */
+export const DEBUG_TOGGLE_KEY = 'Backquote';
+
+export const isDebugEnabled = (search: string) =>
+  new URLSearchParams(search).has(DEBUG_QUERY_FLAG);
+
+/** The values the debug panel can change while a run is in progress. */
+export type Tuning = Pick<MovementProfile, 'gravity' | 'moveSpeed' | 'jumpSpeed' | 'bounceBonus'> & {
+  timeLimit: number;
+};
+
+export type TuningSlider = {
+  key: keyof Tuning;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+};
+
+export const TUNING_SLIDERS: TuningSlider[] = [
+  { key: 'gravity', label: 'Gravity', min: 600, max: 4000, step: 50, unit: 'px/s²' },
+  { key: 'moveSpeed', label: 'Move speed', min: 100, max: 800, step: 10, unit: 'px/s' },
+  { key: 'jumpSpeed', label: 'Jump speed', min: 300, max: 1600, step: 10, unit: 'px/s' },
+  { key: 'bounceBonus', label: 'Bounce bonus', min: 400, max: 2400, step: 20, unit: 'px/s' },
+  { key: 'timeLimit', label: 'Time limit', min: 10, max: 300, step: 5, unit: 's' },
+];
+
+export const readTuning = (state: EngineState): Tuning => ({
+  gravity: state.movement.gravity,
+  moveSpeed: state.movement.moveSpeed,
+  jumpSpeed: state.movement.jumpSpeed,
+  bounceBonus: state.movement.bounceBonus,
+  timeLimit: state.timeLimit,
+});
+
+/** Applies `tuning` to a run in progress; a new time limit keeps the time already spent. */
+export const applyTuning = (state: EngineState, tuning: Tuning): EngineState => {
+  const { timeLimit, ...movement } = tuning;
+  const elapsed = state.timeLimit - state.timeLeft;
+  return {
+    ...state,
+    movement: { ...state.movement, ...movement },
+    timeLimit,
+    timeLeft: Math.max(0, timeLimit - elapsed),
+  };
+};
+
+/** Everything the run is tuned with, in a form that can be pasted back into a preset. */
+export const serializeTuning = (state: EngineState) =>
+  `${JSON.stringify({ ...state.movement, timeLimit: state.timeLimit }, null, 2)}\n`;
+
+/** Number of recent frames the frame-time graph shows. */
+export const FRAME_HISTORY = 120;
+
+/** Keeps the last `FRAME_HISTORY` frame times, in seconds. */
+export const createFrameStats = () => {
+  const deltas: number[] = [];
+  return {
+    deltas,
+    record: (delta: number) => {
+      deltas.push(delta);
+      if (deltas.length > FRAME_HISTORY) deltas.shift();
+    },
+    /** Average frames per second over the recorded history. */
+    fps: () => {
+      const total = deltas.reduce((sum, delta) => sum + delta, 0);
+      return total > 0 ? deltas.length / total : 0;
+    },
+  };
+};
+
+export type FrameStats = ReturnType<typeof createFrameStats>;
@@ -0,0 +1,10 @@
+/** Offers `text` to the user as a JSON file download. */
+export const downloadJson = (filename: string, text: string) => {
+  const blob = new Blob([text], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,371 @@
+import { GAME_CONFIG } from './config';
+import { createPlayer, rectsOverlap } from './engine';
+import { LEVEL_FORMAT_VERSION } from './levels';
+import { CONVEYOR_SPEED, MOVING_SPEED } from './platforms';
+import { GRID_SIZE } from './render';
+import type { Enemy, Hazard, LevelDefinition, Platform, Point, Rect } from './types';
+
+export type Selection =
+  | { kind: 'platform'; index: number }
+  | { kind: 'coin'; index: number }
+  | { kind: 'hazard'; index: number }
+  | { kind: 'enemy'; index: number }
+  | { kind: 'checkpoint'; index: number }
+  | { kind: 'goal' }
+  | { kind: 'spawn' };
+
+export type EditorTool =
+  | 'select'
+  | Platform['type']
+  | 'coin'
+  | Hazard['type']
+  | Enemy['type']
+  | 'checkpoint';
+
+export const RESIZE_HANDLE_SIZE = 10;
+
+const MIN_SIZE = 8;
+const DEFAULT_PLATFORM = { width: 160, height: 16 };
+const DEFAULT_COIN_SIZE = 24;
+const DEFAULT_HAZARD_SIZE: Record<Hazard['type'], { width: number; height: number }> = {
+  spikes: { width: 80, height: 20 },
+  laser: { width: 160, height: 8 },
+};
+const DEFAULT_ENEMY = { width: 36, height: 32 };
+const DEFAULT_CHECKPOINT = { width: 32, height: 64 };
+/** How far right a new moving platform's first waypoint goes. */
+const DEFAULT_PATH_OFFSET = 200;
+
+export const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+export const createBlankLevel = (): LevelDefinition => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'untitled',
+  name: 'Untitled Level',
+  timeLimit: GAME_CONFIG.timeLimit,
+  world: { width: GAME_CONFIG.width, height: GAME_CONFIG.height },
+  spawn: { x: 40, y: 420 },
+  goal: { x: 840, y: 20, width: 80, height: 100 },
+  platforms: [{ x: 0, y: 500, width: GAME_CONFIG.width, height: 40, type: 'solid' }],
+  coins: [],
+  hazards: [],
+  enemies: [],
+  checkpoints: [],
+});
+
+export const cloneLevel = (level: LevelDefinition): LevelDefinition => ({
+  ...level,
+  world: { ...level.world },
+  spawn: { ...level.spawn },
+  goal: { ...level.goal },
+  platforms: level.platforms.map((platform) =>
+    platform.path ? { ...platform, path: platform.path.map((stop) => ({ ...stop })) } : { ...platform },
+  ),
+  coins: level.coins.map((coin) => ({ ...coin })),
+  hazards: level.hazards.map((hazard) => ({ ...hazard })),
+  enemies: level.enemies.map((enemy) => ({ ...enemy })),
+  checkpoints: level.checkpoints.map((checkpoint) => ({ ...checkpoint })),
+});
+
+export const isSameSelection = (a: Selection | null, b: Selection | null) =>
+  a !== null &&
+  b !== null &&
+  a.kind === b.kind &&
+  ('index' in a ? a.index : -1) === ('index' in b ? b.index : -1);
+
+export const getSelectionRect = (level: LevelDefinition, selection: Selection): Rect => {
+  switch (selection.kind) {
+    case 'platform':
+      return level.platforms[selection.index];
+    case 'coin':
+      return level.coins[selection.index];
+    case 'hazard':
+      return level.hazards[selection.index];
+    case 'enemy':
+      return level.enemies[selection.index];
+    case 'checkpoint':
+      return level.checkpoints[selection.index];
+    case 'goal':
+      return level.goal;
+    case 'spawn': {
+      const { x, y, width, height } = createPlayer(level.spawn);
+      return { x, y, width, height };
+    }
+  }
+};
+
+export const isResizable = (selection: Selection) =>
+  selection.kind === 'platform' ||
+  selection.kind === 'goal' ||
+  selection.kind === 'hazard' ||
+  selection.kind === 'enemy';
+
+/** Everything but the goal and spawn, which every level needs exactly one of. */
+export const isRemovable = (selection: Selection) => 'index' in selection;
+
+export const getResizeHandle = (rect: Rect): Rect => ({
+  x: rect.x + rect.width - RESIZE_HANDLE_SIZE / 2,
+  y: rect.y + rect.height - RESIZE_HANDLE_SIZE / 2,
+  width: RESIZE_HANDLE_SIZE,
+  height: RESIZE_HANDLE_SIZE,
+});
+
+const pointRect = (point: Point): Rect => ({ ...point, width: 1, height: 1 });
+
+/** Finds the top-most entity under `point`, in the same order they are drawn. */
+export const hitTest = (level: LevelDefinition, point: Point): Selection | null => {
+  const target = pointRect(point);
+  const candidates: Selection[] = [
+    { kind: 'spawn' },
+    ...level.enemies.map((_, index) => ({ kind: 'enemy' as const, index })).reverse(),
+    ...level.coins.map((_, index) => ({ kind: 'coin' as const, index })).reverse(),
+    { kind: 'goal' },
+    ...level.checkpoints.map((_, index) => ({ kind: 'checkpoint' as const, index })).reverse(),
+    ...level.hazards.map((_, index) => ({ kind: 'hazard' as const, index })).reverse(),
+    ...level.platforms.map((_, index) => ({ kind: 'platform' as const, index })).reverse(),
+  ];
+  return candidates.find((candidate) => rectsOverlap(target, getSelectionRect(level, candidate))) ?? null;
+};
+
+export const hitsResizeHandle = (level: LevelDefinition, selection: Selection, point: Point) =>
+  isResizable(selection) &&
+  rectsOverlap(pointRect(point), getResizeHandle(getSelectionRect(level, selection)));
+
+/** Returns a copy of `level` with the selected entity's rect replaced by `rect`. */
+export const updateSelectionRect = (
+  level: LevelDefinition,
+  selection: Selection,
+  rect: Rect,
+): LevelDefinition => {
+  const next = cloneLevel(level);
+  switch (selection.kind) {
+    case 'platform': {
+      // Waypoints travel with the platform so its route keeps its shape.
+      const platform = next.platforms[selection.index];
+      const path = platform.path?.map((stop) => ({
+        x: stop.x + rect.x - platform.x,
+        y: stop.y + rect.y - platform.y,
+      }));
+      next.platforms[selection.index] = { ...platform, ...rect, ...(path && { path }) };
+      break;
+    }
+    case 'coin':
+      next.coins[selection.index] = { ...next.coins[selection.index], x: rect.x, y: rect.y };
+      break;
+    case 'hazard':
+      next.hazards[selection.index] = { ...next.hazards[selection.index], ...rect };
+      break;
+    case 'enemy':
+      next.enemies[selection.index] = { ...next.enemies[selection.index], ...rect };
+      break;
+    case 'checkpoint':
+      next.checkpoints[selection.index] = { ...next.checkpoints[selection.index], x: rect.x, y: rect.y };
+      break;
+    case 'goal':
+      next.goal = { ...rect };
+      break;
+    case 'spawn':
+      next.spawn = { x: rect.x, y: rect.y };
+      break;
+  }
+  return next;
+};
+
+export const moveSelection = (
+  level: LevelDefinition,
+  selection: Selection,
+  topLeft: Point,
+  snap: boolean,
+) => {
+  const rect = getSelectionRect(level, selection);
+  // Coins snap by their centre, everything else by its top-left corner.
+  const anchorX = selection.kind === 'coin' ? rect.width / 2 : 0;
+  const anchorY = selection.kind === 'coin' ? rect.height / 2 : 0;
+  return updateSelectionRect(level, selection, {
+    ...rect,
+    x: snap ? snapToGrid(topLeft.x + anchorX) - anchorX : Math.round(topLeft.x),
+    y: snap ? snapToGrid(topLeft.y + anchorY) - anchorY : Math.round(topLeft.y),
+  });
+};
+
+/** Drags the bottom-right corner to `corner`, snapping the dragged edges to grid lines. */
+export const resizeSelection = (
+  level: LevelDefinition,
+  selection: Selection,
+  corner: Point,
+  snap: boolean,
+) => {
+  const rect = getSelectionRect(level, selection);
+  const right = snap ? snapToGrid(corner.x) : Math.round(corner.x);
+  const bottom = snap ? snapToGrid(corner.y) : Math.round(corner.y);
+  return updateSelectionRect(level, selection, {
+    ...rect,
+    width: Math.max(MIN_SIZE, right - rect.x),
+    height: Math.max(MIN_SIZE, bottom - rect.y),
+  });
+};
+
+/** Drops settings the platform's type does not use and fills in the ones it needs. */
+const withTypeDefaults = (platform: Platform): Platform => {
+  const { strength, speed, path, ...rest } = platform;
+  switch (platform.type) {
+    case 'bounce':
+      return { ...rest, strength: strength ?? GAME_CONFIG.bounceBonus };
+    case 'moving':
+      return {
+        ...rest,
+        speed: speed !== undefined && speed > 0 ? speed : MOVING_SPEED,
+        path: path?.length ? path : [{ x: platform.x + DEFAULT_PATH_OFFSET, y: platform.y }],
+      };
+    case 'conveyor':
+      return { ...rest, speed: speed ?? CONVEYOR_SPEED };
+    default:
+      return rest;
+  }
+};
+
+export const addPlatform = (
+  level: LevelDefinition,
+  type: Platform['type'],
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  const next = cloneLevel(level);
+  const platform: Platform = {
+    x: snap ? snapToGrid(point.x) : Math.round(point.x),
+    y: snap ? snapToGrid(point.y) : Math.round(point.y),
+    ...DEFAULT_PLATFORM,
+    type,
+  };
+  next.platforms.push(withTypeDefaults(platform));
+  return [next, { kind: 'platform', index: next.platforms.length - 1 }];
+};
+
+export const addCoin = (
+  level: LevelDefinition,
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  const next = cloneLevel(level);
+  const x = (snap ? snapToGrid(point.x) : Math.round(point.x)) - DEFAULT_COIN_SIZE / 2;
+  const y = (snap ? snapToGrid(point.y) : Math.round(point.y)) - DEFAULT_COIN_SIZE / 2;
+  next.coins.push({ x, y, width: DEFAULT_COIN_SIZE, height: DEFAULT_COIN_SIZE });
+  return [next, { kind: 'coin', index: next.coins.length - 1 }];
+};
+
+const placeAt = (point: Point, snap: boolean): Point => ({
+  x: snap ? snapToGrid(point.x) : Math.round(point.x),
+  y: snap ? snapToGrid(point.y) : Math.round(point.y),
+});
+
+export const addHazard = (
+  level: LevelDefinition,
+  type: Hazard['type'],
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  const next = cloneLevel(level);
+  next.hazards.push({ ...placeAt(point, snap), ...DEFAULT_HAZARD_SIZE[type], type });
+  return [next, { kind: 'hazard', index: next.hazards.length - 1 }];
+};
+
+export const addEnemy = (
+  level: LevelDefinition,
+  type: Enemy['type'],
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  const next = cloneLevel(level);
+  next.enemies.push({ ...placeAt(point, snap), ...DEFAULT_ENEMY, type });
+  return [next, { kind: 'enemy', index: next.enemies.length - 1 }];
+};
+
+export const addCheckpoint = (
+  level: LevelDefinition,
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  const next = cloneLevel(level);
+  next.checkpoints.push({ ...placeAt(point, snap), ...DEFAULT_CHECKPOINT });
+  return [next, { kind: 'checkpoint', index: next.checkpoints.length - 1 }];
+};
+
+/** Places whatever `tool` draws at `point` and selects it. */
+export const addWithTool = (
+  level: LevelDefinition,
+  tool: Exclude<EditorTool, 'select'>,
+  point: Point,
+  snap: boolean,
+): [LevelDefinition, Selection] => {
+  switch (tool) {
+    case 'coin':
+      return addCoin(level, point, snap);
+    case 'checkpoint':
+      return addCheckpoint(level, point, snap);
+    case 'spikes':
+    case 'laser':
+      return addHazard(level, tool, point, snap);
+    case 'patrol':
+    case 'jumper':
+      return addEnemy(level, tool, point, snap);
+    default:
+      return addPlatform(level, tool, point, snap);
+  }
+};
+
+export const removeSelection = (level: LevelDefinition, selection: Selection): LevelDefinition => {
+  const next = cloneLevel(level);
+  switch (selection.kind) {
+    case 'platform':
+      next.platforms.splice(selection.index, 1);
+      break;
+    case 'coin':
+      next.coins.splice(selection.index, 1);
+      break;
+    case 'hazard':
+      next.hazards.splice(selection.index, 1);
+      break;
+    case 'enemy':
+      next.enemies.splice(selection.index, 1);
+      break;
+    case 'checkpoint':
+      next.checkpoints.splice(selection.index, 1);
+      break;
+    default:
+      break;
+  }
+  return next;
+};
+
+export const updatePlatform = (
+  level: LevelDefinition,
+  index: number,
+  changes: Partial<Platform>,
+): LevelDefinition => {
+  const next = cloneLevel(level);
+  next.platforms[index] = withTypeDefaults({ ...next.platforms[index], ...changes });
+  return next;
+};
+
+/** Changing the type drops settings the new type does not use. */
+export const updateHazard = (
+  level: LevelDefinition,
+  index: number,
+  changes: Partial<Hazard>,
+): LevelDefinition => {
+  const next = cloneLevel(level);
+  const { period, phase, ...hazard } = { ...next.hazards[index], ...changes };
+  next.hazards[index] = hazard.type === 'laser' ? { ...hazard, period, phase } : hazard;
+  return next;
+};
+
+export const updateEnemy = (
+  level: LevelDefinition,
+  index: number,
+  changes: Partial<Enemy>,
+): LevelDefinition => {
+  const next = cloneLevel(level);
+  const { range, speed, ...enemy } = { ...next.enemies[index], ...changes };
+  next.enemies[index] = enemy.type === 'patrol' ? { ...enemy, range, speed } : enemy;
+  return next;
+};
@@ -0,0 +1,237 @@
+import type { EngineEvent } from './engine';
+import { createParticlePool, type ParticlePool } from './particles';
+import type { Goal, Point, Rect } from './types';
+
+export const REDUCED_MOTION_KEY = 'bun-run:reduced-motion';
+
+/** `system` follows the operating system's `prefers-reduced-motion` setting. */
+export type MotionSetting = 'system' | 'reduce' | 'full';
+
+export const MOTION_SETTINGS: { id: MotionSetting; label: string }[] = [
+  { id: 'system', label: 'Match system' },
+  { id: 'reduce', label: 'Reduce' },
+  { id: 'full', label: 'Full' },
+];
+
+export const parseMotionSetting = (text: string | null): MotionSetting =>
+  text === 'reduce' || text === 'full' ? text : 'system';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () => window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+export const subscribeToMotionPreference = (onChange: () => void) => {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
+
+export const isMotionReduced = (setting: MotionSetting, systemPrefersReduced: boolean) =>
+  setting === 'reduce' || (setting === 'system' && systemPrefersReduced);
+
+/** Seconds the win celebration plays before the results appear. */
+export const CELEBRATION_TIME = 1.2;
+
+/** Largest screen shake offset in pixels, reached at full trauma. */
+const MAX_SHAKE = 12;
+/** Trauma lost per second. */
+const SHAKE_DECAY = 1.8;
+/** How quickly squash and stretch settle back, as a fraction per second. */
+const STRETCH_RECOVERY = 12;
+/** Portal swirl particles spawned per second. */
+const SWIRL_RATE = 24;
+
+const COIN_COLORS = ['#facc15', '#fde047', '#fef9c3'];
+const CONFETTI_COLORS = ['#22d3ee', '#f472b6', '#facc15', '#a78bfa', '#4ade80'];
+
+/**
+ * Purely cosmetic state that lives beside the engine: particles, screen shake
+ * trauma (0–1) and the player's squash (negative) or stretch (positive).
+ */
+export type Effects = {
+  particles: ParticlePool;
+  trauma: number;
+  stretch: number;
+  /** Fractional swirl particles owed, so the spawn rate holds at any frame rate. */
+  swirl: number;
+};
+
+export const createEffects = (): Effects => ({
+  particles: createParticlePool(),
+  trauma: 0,
+  stretch: 0,
+  swirl: 0,
+});
+
+const random = (min: number, max: number) => min + Math.random() * (max - min);
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+const addTrauma = (effects: Effects, amount: number) => {
+  effects.trauma = Math.min(1, effects.trauma + amount);
+};
+
+const burst = (
+  effects: Effects,
+  { x, y }: Point,
+  count: number,
+  speed: number,
+  colors: string[],
+) => {
+  for (let index = 0; index < count; index += 1) {
+    const angle = (index / count) * Math.PI * 2 + random(-0.3, 0.3);
+    const velocity = speed * random(0.5, 1);
+    effects.particles.spawn({
+      x,
+      y,
+      vx: Math.cos(angle) * velocity,
+      vy: Math.sin(angle) * velocity,
+      drag: 0.05,
+      size: random(2, 4),
+      grow: -3,
+      life: random(0.35, 0.6),
+      color: pick(colors),
+    });
+  }
+};
+
+const dust = (effects: Effects, { x, y }: Point, count: number) => {
+  for (let index = 0; index < count; index += 1) {
+    const side = index % 2 === 0 ? -1 : 1;
+    effects.particles.spawn({
+      x: x + side * random(4, 14),
+      y: y - 2,
+      vx: side * random(40, 140),
+      vy: random(-60, -10),
+      drag: 0.02,
+      size: random(3, 6),
+      grow: 6,
+      life: random(0.3, 0.5),
+      color: 'rgba(226, 232, 240, 0.6)',
+    });
+  }
+};
+
+/** Turns a tick's engine events into particles, shake and squash; does nothing with reduced motion. */
+export const triggerEffects = (effects: Effects, events: EngineEvent[], reducedMotion: boolean) => {
+  if (reducedMotion) return;
+  events.forEach((event) => {
+    const speed = event.speed ?? 0;
+    switch (event.type) {
+      case 'coin':
+        burst(effects, event, 10, 220, COIN_COLORS);
+        break;
+      case 'land':
+        dust(effects, event, Math.round(Math.min(10, 2 + speed / 200)));
+        effects.stretch = -Math.min(0.3, speed / 4000);
+        if (speed > 1400) addTrauma(effects, 0.2);
+        break;
+      case 'bounce':
+        effects.particles.spawn({
+          shape: 'ring',
+          x: event.x,
+          y: event.y,
+          size: 8,
+          grow: 180,
+          life: 0.35,
+          color: '#fb923c',
+        });
+        burst(effects, event, 8, 260, ['#fb923c', '#fdba74']);
+        effects.stretch = 0.3;
+        addTrauma(effects, 0.3);
+        break;
+      case 'jump':
+        effects.stretch = 0.2;
+        break;
+      case 'wallJump':
+        dust(effects, event, 4);
+        effects.stretch = 0.2;
+        break;
+      case 'stomp':
+        burst(effects, event, 12, 240, ['#fb923c', '#f472b6']);
+        addTrauma(effects, 0.3);
+        break;
+      case 'checkpoint':
+        burst(effects, event, 14, 180, ['#4ade80', '#bbf7d0']);
+        break;
+      case 'hurt':
+        burst(effects, event, 18, 300, ['#f43f5e', '#fda4af']);
+        addTrauma(effects, 0.6);
+        break;
+      default:
+        break;
+    }
+  });
+};
+
+/** Confetti out of the portal for a finished run. */
+export const celebrate = (effects: Effects, goal: Goal, reducedMotion: boolean) => {
+  if (reducedMotion) return;
+  for (let index = 0; index < 120; index += 1) {
+    const angle = random(-Math.PI * 0.9, -Math.PI * 0.1);
+    const velocity = random(200, 620);
+    effects.particles.spawn({
+      shape: 'square',
+      x: goal.x + goal.width / 2,
+      y: goal.y + goal.height / 2,
+      vx: Math.cos(angle) * velocity,
+      vy: Math.sin(angle) * velocity,
+      gravity: 900,
+      drag: 0.3,
+      size: random(4, 8),
+      spin: random(-12, 12),
+      life: random(0.8, CELEBRATION_TIME),
+      color: pick(CONFETTI_COLORS),
+    });
+  }
+};
+
+const swirlAround = (effects: Effects, goal: Rect) => {
+  const centerX = goal.x + goal.width / 2;
+  const centerY = goal.y + goal.height / 2;
+  const angle = random(0, Math.PI * 2);
+  const radius = Math.max(goal.width, goal.height) * 0.6;
+  // Tangential plus inward velocity draws particles in a spiral towards the centre
+  const tangent = 140;
+  const inward = 50;
+  effects.particles.spawn({
+    x: centerX + Math.cos(angle) * radius,
+    y: centerY + Math.sin(angle) * radius,
+    vx: -Math.sin(angle) * tangent - Math.cos(angle) * inward,
+    vy: Math.cos(angle) * tangent - Math.sin(angle) * inward,
+    size: random(2, 3.5),
+    grow: -2,
+    life: random(0.6, 1),
+    color: pick(['#67e8f9', '#a5f3fc', '#ffffff']),
+  });
+};
+
+/** Ages everything by `dt` seconds and keeps the portal swirling. */
+export const updateEffects = (
+  effects: Effects,
+  dt: number,
+  goal: Goal | null,
+  reducedMotion: boolean,
+) => {
+  if (reducedMotion) {
+    effects.particles.clear();
+    effects.trauma = 0;
+    effects.stretch = 0;
+    return;
+  }
+  effects.particles.update(dt);
+  effects.trauma = Math.max(0, effects.trauma - SHAKE_DECAY * dt);
+  effects.stretch *= Math.max(0, 1 - STRETCH_RECOVERY * dt);
+  if (!goal) return;
+  effects.swirl += SWIRL_RATE * dt;
+  for (; effects.swirl >= 1; effects.swirl -= 1) swirlAround(effects, goal);
+};
+
+/** How far to nudge the camera this frame; shake grows with the square of trauma. */
+export const shakeOffset = (effects: Effects, time: number): Point => {
+  const amount = effects.trauma * effects.trauma * MAX_SHAKE;
+  return {
+    x: amount * Math.sin(time * 71),
+    y: amount * Math.cos(time * 89),
+  };
+};
@@ -0,0 +1,39 @@
+import type { Enemy, Point } from './types';
+
+/** Defaults for patrollers: distance walked right of their start, and speed. */
+export const PATROL_RANGE = 160;
+export const PATROL_SPEED = 80;
+
+/** Jumpers leave the ground at this speed once every period, under their own gravity. */
+export const JUMPER_PERIOD = 1.6;
+const JUMPER_SPEED = 640;
+const JUMPER_GRAVITY = 1800;
+
+/** Upward speed the player gets from stomping an enemy. */
+export const STOMP_BOUNCE = 620;
+
+export type EnemyState = Enemy & {
+  origin: Point;
+  defeated: boolean;
+};
+
+export const createEnemyStates = (enemies: Enemy[]): EnemyState[] =>
+  enemies.map((enemy) => ({ ...enemy, origin: { x: enemy.x, y: enemy.y }, defeated: false }));
+
+/** Where an enemy is `time` seconds into a run; both kinds follow fixed, repeating routes. */
+export const enemyPosition = (enemy: Enemy, origin: Point, time: number): Point => {
+  if (enemy.type === 'patrol') {
+    const range = enemy.range ?? PATROL_RANGE;
+    if (range <= 0) return origin;
+    const travelled = (time * (enemy.speed ?? PATROL_SPEED)) % (range * 2);
+    return { x: origin.x + (travelled <= range ? travelled : range * 2 - travelled), y: origin.y };
+  }
+  const airborne = time % JUMPER_PERIOD;
+  const height = Math.max(0, JUMPER_SPEED * airborne - (JUMPER_GRAVITY * airborne * airborne) / 2);
+  return { x: origin.x, y: origin.y - height };
+};
+
+export const advanceEnemies = (enemies: EnemyState[], time: number) =>
+  enemies.map((enemy) =>
+    enemy.defeated ? enemy : { ...enemy, ...enemyPosition(enemy, enemy.origin, time) },
+  );
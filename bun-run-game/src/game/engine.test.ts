@@ -0,0 +1,264 @@
+import { describe, expect, test } from 'bun:test';
+import { GAME_CONFIG, MOVEMENT_PRESETS } from './config';
+import { createEngineState, createInput, FIXED_TIMESTEP, simulate, step } from './engine';
+import { STOMP_BOUNCE } from './enemies';
+import { LEVELS } from './levels';
+import { LEVEL_FORMAT_VERSION } from './levels/loader';
+import { CRUMBLE_DELAY } from './platforms';
+import type { Enemy, InputState, LevelDefinition, Platform, Point } from './types';
+
+const level = LEVELS[0];
+const idle = (ticks: number): InputState[] => Array.from({ length: ticks }, createInput);
+const hold = (input: Partial<InputState>, ticks: number): InputState[] =>
+  Array.from({ length: ticks }, () => ({ ...createInput(), ...input }));
+
+const testLevel = (
+  platforms: Platform[],
+  spawn: Point = { x: 100, y: 100 },
+  enemies: Enemy[] = [],
+): LevelDefinition => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'test',
+  name: 'Test',
+  timeLimit: 75,
+  world: { width: 4000, height: 4000 },
+  spawn,
+  goal: { x: 3800, y: 3800, width: 80, height: 100 },
+  platforms,
+  coins: [],
+  hazards: [],
+  enemies,
+  checkpoints: [],
+});
+
+describe('step', () => {
+  test('leaves the previous state untouched', () => {
+    const state = createEngineState(level);
+    const player = { ...state.player };
+
+    const next = step(state, { ...createInput(), right: true }, FIXED_TIMESTEP);
+
+    expect(state.player).toEqual(player);
+    expect(state.tick).toBe(0);
+    expect(next.tick).toBe(1);
+  });
+
+  test('settles the player on the floor', () => {
+    const state = simulate(createEngineState(level), idle(60));
+
+    expect(state.player.onGround).toBe(true);
+    expect(state.player.y + state.player.height).toBe(500);
+    expect(state.player.vy).toBe(0);
+  });
+
+  test('jumps when a press arrives on the ground', () => {
+    const grounded = simulate(createEngineState(level), idle(60));
+
+    const next = step(grounded, { ...createInput(), jump: true, jumpBuffer: true }, FIXED_TIMESTEP);
+
+    expect(next.player.vy).toBeLessThan(0);
+    expect(next.player.onGround).toBe(false);
+  });
+
+  test('plays the same inputs back to the same state', () => {
+    const inputs = [...idle(30), ...Array.from({ length: 90 }, () => ({ ...createInput(), right: true }))];
+
+    expect(simulate(createEngineState(level), inputs)).toEqual(simulate(createEngineState(level), inputs));
+  });
+
+  test('loses the run when the clock runs out', () => {
+    const state = createEngineState(level);
+
+    const next = step({ ...state, timeLeft: FIXED_TIMESTEP / 2 }, createInput(), FIXED_TIMESTEP);
+
+    expect(next.status).toBe('lost');
+    expect(next.timeLeft).toBe(0);
+  });
+});
+
+describe('step at low frame rates', () => {
+  test('lands on a thin platform instead of falling through it', () => {
+    const ledge: Platform = { x: 0, y: 600, width: 400, height: 16, type: 'solid' };
+    const state = createEngineState(testLevel([ledge]));
+    const falling = { ...state, player: { ...state.player, vy: 2000 } };
+
+    // One 250ms tick covers hundreds of pixels, many times the ledge's thickness
+    const next = step(falling, createInput(), 0.25);
+
+    expect(next.player.y + next.player.height).toBe(ledge.y);
+    expect(next.player.onGround).toBe(true);
+    expect(next.standingOn).toBe(0);
+  });
+
+  test('stops at a thin wall instead of passing through it', () => {
+    const wall: Platform = { x: 160, y: 0, width: 16, height: 400, type: 'solid' };
+    const state = createEngineState(testLevel([wall]));
+
+    // One 250ms tick carries the player further than the gap and the wall together
+    const next = step(state, { ...createInput(), right: true }, 0.25);
+
+    expect(next.player.x + next.player.width).toBe(wall.x);
+    expect(next.player.vx).toBe(0);
+    expect(next.wall).toBe(1);
+  });
+});
+
+describe('platform types', () => {
+  const floor: Platform = { x: 0, y: 600, width: 4000, height: 40, type: 'solid' };
+
+  test('lets the player jump up through a one-way platform and land on top', () => {
+    const oneWay: Platform = { x: 0, y: 500, width: 400, height: 16, type: 'oneWay' };
+    const grounded = simulate(createEngineState(testLevel([floor, oneWay], { x: 100, y: 540 })), idle(30));
+    expect(grounded.standingOn).toBe(0);
+
+    const next = simulate(grounded, [...hold({ jump: true, jumpBuffer: true }, 1), ...hold({ jump: true }, 60)]);
+
+    expect(next.standingOn).toBe(1);
+    expect(next.player.y + next.player.height).toBe(oneWay.y);
+  });
+
+  test('drops through a one-way platform while down is held', () => {
+    const oneWay: Platform = { x: 0, y: 500, width: 400, height: 16, type: 'oneWay' };
+    const onTop = simulate(createEngineState(testLevel([floor, oneWay])), idle(60));
+    expect(onTop.standingOn).toBe(1);
+
+    const next = simulate(onTop, hold({ down: true }, 30));
+
+    expect(next.standingOn).toBe(0);
+  });
+
+  test('gives way under the player shortly after they land on a crumbling platform', () => {
+    const crumbling: Platform = { x: 0, y: 500, width: 400, height: 16, type: 'crumbling' };
+    const landed = simulate(createEngineState(testLevel([floor, crumbling])), idle(60));
+    expect(landed.standingOn).toBe(1);
+
+    const next = simulate(landed, idle(Math.ceil(CRUMBLE_DELAY / FIXED_TIMESTEP) + 30));
+
+    expect(next.standingOn).toBe(0);
+    expect(next.platforms[1].crumbleTime).not.toBeNull();
+  });
+
+  test('carries a player standing still along a conveyor', () => {
+    const conveyor: Platform = { x: 0, y: 600, width: 4000, height: 40, type: 'conveyor', speed: 80 };
+    const landed = simulate(createEngineState(testLevel([conveyor])), idle(60));
+
+    const next = simulate(landed, idle(60));
+
+    expect(next.player.x - landed.player.x).toBeCloseTo(80);
+  });
+});
+
+describe('enemies', () => {
+  const floor: Platform = { x: 0, y: 600, width: 4000, height: 40, type: 'solid' };
+  // A patroller with no range stands guard in one place
+  const guard: Enemy = { x: 300, y: 568, width: 36, height: 32, type: 'patrol', range: 0 };
+
+  test('are defeated by landing on them from above', () => {
+    const state = createEngineState(testLevel([floor], { x: guard.x, y: 400 }, [guard]));
+
+    let next = state;
+    while (next.enemies[0].defeated === false && next.tick < 60) next = step(next, createInput(), FIXED_TIMESTEP);
+
+    expect(next.enemies[0].defeated).toBe(true);
+    expect(next.player.vy).toBe(-STOMP_BOUNCE);
+    expect(next.lives).toBe(GAME_CONFIG.lives);
+    expect(next.events.map(({ type }) => type)).toContain('stomp');
+  });
+
+  test('cost a life when walked into from the side', () => {
+    const state = createEngineState(testLevel([floor], { x: 100, y: 540 }, [guard]));
+
+    const next = simulate(state, hold({ right: true }, 90));
+
+    expect(next.enemies[0].defeated).toBe(false);
+    expect(next.lives).toBe(GAME_CONFIG.lives - 1);
+    expect(next.respawns).toBe(1);
+  });
+});
+
+describe('jumping', () => {
+  const { coyoteTime, jumpBufferTime, wallSlideSpeed } = MOVEMENT_PRESETS.responsive;
+  const ticksOf = (seconds: number) => Math.round(seconds / FIXED_TIMESTEP);
+  const press = { ...createInput(), jump: true, jumpBuffer: true };
+  const floor: Platform = { x: 0, y: 600, width: 4000, height: 40, type: 'solid' };
+
+  /** Walks right off a short ledge and returns the first tick in the air. */
+  const offTheLedge = () => {
+    const ledge: Platform = { x: 0, y: 600, width: 200, height: 40, type: 'solid' };
+    let state = simulate(createEngineState(testLevel([ledge])), idle(60));
+    while (state.player.onGround) state = step(state, { ...createInput(), right: true }, FIXED_TIMESTEP);
+    return state;
+  };
+
+  test('still works for a moment after running off a ledge', () => {
+    const late = simulate(offTheLedge(), idle(ticksOf(coyoteTime) - 2));
+
+    expect(step(late, press, FIXED_TIMESTEP).player.vy).toBeLessThan(0);
+  });
+
+  test('does not work once the coyote time has run out', () => {
+    const tooLate = simulate(offTheLedge(), idle(ticksOf(coyoteTime) + 2));
+
+    expect(step(tooLate, press, FIXED_TIMESTEP).player.vy).toBeGreaterThan(0);
+  });
+
+  test('remembers a press made just before landing', () => {
+    const state = createEngineState(testLevel([floor]));
+    const falling = { ...state, player: { ...state.player, y: floor.y - state.player.height - 10, vy: 300 } };
+
+    const pressed = step(falling, press, FIXED_TIMESTEP);
+    expect(pressed.player.onGround).toBe(false);
+    const next = simulate(pressed, hold({ jump: true }, ticksOf(jumpBufferTime) - 2));
+
+    expect(next.player.vy).toBeLessThan(0);
+  });
+
+  test('forgets a press made long before landing', () => {
+    const state = createEngineState(testLevel([floor], { x: 100, y: 300 }));
+
+    const next = simulate(step(state, press, FIXED_TIMESTEP), hold({ jump: true }, 60));
+
+    expect(next.player.onGround).toBe(true);
+  });
+
+  test('turns into a short hop when jump is let go early', () => {
+    const grounded = simulate(createEngineState(testLevel([floor])), idle(60));
+    const peakOf = (inputs: InputState[]) => {
+      let highest = grounded.player.y;
+      inputs.reduce((state, input) => {
+        const next = step(state, input, FIXED_TIMESTEP);
+        highest = Math.min(highest, next.player.y);
+        return next;
+      }, grounded);
+      return grounded.player.y - highest;
+    };
+
+    const full = peakOf([press, ...hold({ jump: true }, 60)]);
+    const short = peakOf([press, ...hold({ jump: true }, 2), ...idle(60)]);
+
+    expect(short).toBeLessThan(full / 2);
+  });
+
+  test('pushes the player off a wall they are sliding down', () => {
+    const wall: Platform = { x: 300, y: 0, width: 40, height: 4000, type: 'solid' };
+    const sliding = simulate(createEngineState(testLevel([wall])), hold({ right: true }, 60));
+    expect(sliding.wall).toBe(1);
+    expect(sliding.player.vy).toBeLessThanOrEqual(wallSlideSpeed);
+
+    const next = step(sliding, { ...press, right: true }, FIXED_TIMESTEP);
+
+    expect(next.player.vx).toBeLessThan(0);
+    expect(next.player.vy).toBeLessThan(0);
+    expect(next.events.map(({ type }) => type)).toContain('wallJump');
+  });
+
+  test('cannot push off walls with the classic preset', () => {
+    const wall: Platform = { x: 300, y: 0, width: 40, height: 4000, type: 'solid' };
+    const state = createEngineState(testLevel([wall]), MOVEMENT_PRESETS.classic);
+    const against = simulate(state, hold({ right: true }, 60));
+
+    const next = step(against, { ...press, right: true }, FIXED_TIMESTEP);
+
+    expect(next.player.vy).toBeGreaterThan(0);
+  });
+});
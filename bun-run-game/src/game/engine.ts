@@ -0,0 +1,457 @@
+import { sweepAxis } from './collision';
+import { DEFAULT_MOVEMENT_PRESET, GAME_CONFIG, MOVEMENT_PRESETS, type MovementProfile } from './config';
+import { advanceEnemies, createEnemyStates, STOMP_BOUNCE, type EnemyState } from './enemies';
+import { advanceHazards, createHazardStates, type HazardState } from './hazards';
+import {
+  advancePlatforms,
+  CONVEYOR_SPEED,
+  createPlatformStates,
+  isCrumbled,
+  type PlatformState,
+} from './platforms';
+import type {
+  Checkpoint,
+  Coin,
+  GameStatus,
+  Goal,
+  InputState,
+  LevelDefinition,
+  Player,
+  Point,
+  Rect,
+  Size,
+} from './types';
+
+/** Length of one simulation tick in seconds. */
+export const FIXED_TIMESTEP = 1 / 60;
+
+/**
+ * Bumped whenever `step` changes behaviour, so recorded replays can tell that
+ * they may no longer play back the same way.
+ */
+export const ENGINE_VERSION = 5;
+
+/**
+ * Something noteworthy that happened during a tick, for effects and sound.
+ * `x`/`y` is where it happened; `speed` is how hard the player hit the ground.
+ */
+export type EngineEvent = {
+  type: 'jump' | 'wallJump' | 'land' | 'bounce' | 'coin' | 'stomp' | 'checkpoint' | 'hurt';
+  x: number;
+  y: number;
+  speed?: number;
+};
+
+/** The win and lose conditions a run is played under; game modes pick these. */
+export type RunRules = {
+  /** Whether running out of time loses the run; untimed runs still count `timeLeft` down for scoring. */
+  timed: boolean;
+  /** Whether respawns use up lives; without it they are free. */
+  limitedLives: boolean;
+  /** Whether the goal stays shut until every coin has been collected. */
+  goalNeedsAllCoins: boolean;
+};
+
+export const DEFAULT_RULES: RunRules = {
+  timed: true,
+  limitedLives: true,
+  goalNeedsAllCoins: false,
+};
+
+export type EngineState = {
+  levelId: string;
+  world: Size;
+  player: Player;
+  platforms: PlatformState[];
+  /** Index of the platform the player is standing on, or `null` in the air or on the world floor. */
+  standingOn: number | null;
+  coins: Coin[];
+  hazards: HazardState[];
+  enemies: EnemyState[];
+  checkpoints: Checkpoint[];
+  /** Index of the last checkpoint touched, which is where the player respawns. */
+  checkpoint: number | null;
+  goal: Goal;
+  spawn: Point;
+  status: GameStatus;
+  timeLimit: number;
+  timeLeft: number;
+  collected: number;
+  lives: number;
+  /** Lives lost so far. */
+  respawns: number;
+  /** Seconds of grace after a respawn during which nothing can hurt the player. */
+  invulnerable: number;
+  /** Tuning the run is played with. */
+  movement: MovementProfile;
+  rules: RunRules;
+  /** Seconds a buffered jump press stays usable. */
+  jumpBuffer: number;
+  /** Seconds left to jump after leaving the ground. */
+  coyote: number;
+  /** Whether the player is rising from their own jump, which releasing jump cuts short. */
+  jumping: boolean;
+  /** Side of the wall the player is pushing against: -1 left, 1 right, 0 none. */
+  wall: -1 | 0 | 1;
+  tick: number;
+  /** Seconds simulated so far; drives moving platforms. */
+  time: number;
+  /** What happened during the last tick. */
+  events: EngineEvent[];
+  /** How far everything has been moved down to make room above, which only endless climbs do. */
+  scroll: number;
+};
+
+export const createInput = (): InputState => ({
+  left: false,
+  right: false,
+  jump: false,
+  down: false,
+  jumpBuffer: false,
+});
+
+export const rectsOverlap = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+export const createPlayer = (spawn: Point): Player => ({
+  x: spawn.x,
+  y: spawn.y,
+  width: 36,
+  height: 42,
+  vx: 0,
+  vy: 0,
+  onGround: false,
+});
+
+const feetOf = (player: Player) => ({ x: player.x + player.width / 2, y: player.y + player.height });
+
+/** Seconds of grace after a respawn. */
+export const RESPAWN_GRACE = 1.5;
+
+/** How far below an enemy's top the player's feet may be and still count as a stomp. */
+const STOMP_TOLERANCE = 12;
+
+export const createCoins = (level: LevelDefinition): Coin[] =>
+  level.coins.map((coin, index) => ({
+    ...coin,
+    active: true,
+    spinOffset: (index * Math.PI) / 4,
+  }));
+
+/** Moves `value` towards `target` by at most `delta`. */
+const approach = (value: number, target: number, delta: number) =>
+  value < target ? Math.min(value + delta, target) : Math.max(value - delta, target);
+
+export const createEngineState = (
+  level: LevelDefinition,
+  movement: MovementProfile = MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET],
+  rules: RunRules = DEFAULT_RULES,
+): EngineState => ({
+  levelId: level.id,
+  world: { ...level.world },
+  player: createPlayer(level.spawn),
+  platforms: createPlatformStates(level.platforms),
+  standingOn: null,
+  coins: createCoins(level),
+  hazards: createHazardStates(level.hazards),
+  enemies: createEnemyStates(level.enemies),
+  checkpoints: level.checkpoints.map((checkpoint) => ({ ...checkpoint })),
+  checkpoint: null,
+  goal: { ...level.goal },
+  spawn: { ...level.spawn },
+  status: 'running',
+  timeLimit: level.timeLimit,
+  timeLeft: level.timeLimit,
+  collected: 0,
+  lives: GAME_CONFIG.lives,
+  respawns: 0,
+  invulnerable: 0,
+  movement: { ...movement },
+  rules,
+  jumpBuffer: 0,
+  coyote: 0,
+  jumping: false,
+  wall: 0,
+  tick: 0,
+  time: 0,
+  events: [],
+  scroll: 0,
+});
+
+/** Whether touching the goal finishes the run yet. */
+export const isGoalOpen = (state: EngineState) =>
+  !state.rules.goalNeedsAllCoins || state.collected >= state.coins.length;
+
+/**
+ * Advances the simulation by `dt` seconds. The previous state is left untouched,
+ * so callers can keep it around for interpolation, replays or comparisons.
+ * `input.jumpBuffer` marks a fresh jump press; it is remembered for
+ * `movement.jumpBufferTime` in case the player cannot act on it yet.
+ */
+export const step = (state: EngineState, input: InputState, dt: number): EngineState => {
+  if (state.status !== 'running') return state;
+
+  const tick = state.tick + 1;
+  const timeLeft = Math.max(0, state.timeLeft - dt);
+  if (timeLeft <= 0 && state.rules.timed) {
+    return { ...state, timeLeft: 0, status: 'lost', tick, events: [] };
+  }
+
+  const { goal, movement, world } = state;
+  const time = state.time + dt;
+  const platforms = advancePlatforms(state.platforms, time, dt);
+  const solid = platforms.filter((platform) => !isCrumbled(platform));
+  const player = { ...state.player };
+  const events: EngineEvent[] = [];
+
+  // Whatever the player stood on last tick carries them along
+  const { standingOn: riding } = state;
+  const ride = riding === null ? null : platforms[riding];
+  if (ride?.type === 'moving' && riding !== null) {
+    const previous = state.platforms[riding];
+    player.y += ride.y - previous.y;
+    player.x = sweepAxis(player, ride.x - previous.x, 'x', solid).position;
+  }
+  const belt = ride?.type === 'conveyor' ? (ride.speed ?? CONVEYOR_SPEED) : 0;
+
+  // Speed up towards the held direction, or slow down when none is held
+  const direction = Number(input.right) - Number(input.left);
+  const grounded = state.player.onGround;
+  if (direction !== 0) {
+    const rate = grounded ? movement.groundAcceleration : movement.airAcceleration;
+    player.vx = approach(player.vx, direction * movement.moveSpeed, rate * dt);
+  } else {
+    const rate = grounded ? movement.groundFriction : movement.airFriction;
+    player.vx = approach(player.vx, 0, rate * dt);
+  }
+
+  // Letting go of jump while still rising turns it into a short hop
+  let { jumping } = state;
+  if (player.vy >= 0) {
+    jumping = false;
+  } else if (jumping && !input.jump) {
+    player.vy *= movement.jumpCutMultiplier;
+    jumping = false;
+  }
+
+  // Horizontal movement, swept so fast moves stop at the first wall in the way
+  const shift = (player.vx + belt) * dt;
+  const horizontal = sweepAxis(player, shift, 'x', solid);
+  player.x = horizontal.position;
+  let wall: EngineState['wall'] = 0;
+  if (horizontal.hit) {
+    player.vx = 0;
+    wall = shift < 0 ? -1 : 1;
+  }
+  if (player.x < 0) {
+    player.x = 0;
+  }
+  if (player.x + player.width > world.width) {
+    player.x = world.width - player.width;
+  }
+
+  // Pushing into a wall while falling slides down it
+  player.vy += movement.gravity * dt;
+  const sliding = movement.wallSlide && wall !== 0 && wall === direction && player.vy > 0;
+  player.vy = Math.min(player.vy, sliding ? movement.wallSlideSpeed : movement.maxFallSpeed);
+
+  // Vertical movement; holding down on a one-way platform drops through it
+  const dropping = input.down && ride?.type === 'oneWay';
+  const vertical = sweepAxis(
+    player,
+    player.vy * dt,
+    'y',
+    dropping ? solid.filter((platform) => platform !== ride) : solid,
+  );
+  player.y = vertical.position;
+  player.onGround = false;
+  let standingOn: number | null = null;
+
+  const { hit } = vertical;
+  const impact = player.vy;
+  const airborne = !state.player.onGround;
+  if (hit && player.vy > 0) {
+    player.vy = 0;
+    player.onGround = true;
+    standingOn = platforms.indexOf(hit);
+    if (hit.type === 'bounce') {
+      player.vy = -(hit.strength ?? movement.bounceBonus);
+      player.onGround = false;
+      standingOn = null;
+      events.push({ type: 'bounce', ...feetOf(player), speed: impact });
+    } else if (hit.type === 'crumbling' && hit.crumbleTime === null) {
+      platforms[standingOn] = { ...hit, crumbleTime: 0 };
+    }
+    if (airborne && hit.type !== 'bounce') {
+      events.push({ type: 'land', ...feetOf(player), speed: impact });
+    }
+  } else if (hit) {
+    player.vy = 0;
+  }
+
+  if (player.y + player.height >= world.height) {
+    player.y = world.height - player.height;
+    player.vy = 0;
+    if (airborne && !player.onGround) events.push({ type: 'land', ...feetOf(player), speed: impact });
+    player.onGround = true;
+    standingOn = null;
+  }
+
+  // Jump handling: from the ground, shortly after leaving it, or off a wall
+  let jumpBuffer = input.jumpBuffer ? movement.jumpBufferTime : Math.max(0, state.jumpBuffer - dt);
+  let coyote = 0;
+  if (player.onGround) {
+    coyote = movement.coyoteTime;
+  } else if (player.vy >= 0) {
+    coyote = Math.max(0, state.coyote - dt);
+  }
+  if (jumpBuffer > 0 && (player.onGround || coyote > 0)) {
+    player.vy = -movement.jumpSpeed;
+    player.onGround = false;
+    jumpBuffer = 0;
+    coyote = 0;
+    jumping = true;
+    standingOn = null;
+    events.push({ type: 'jump', ...feetOf(player) });
+  } else if (jumpBuffer > 0 && movement.wallSlide && wall !== 0) {
+    player.vx = -wall * movement.wallJumpSpeedX;
+    player.vy = -movement.wallJumpSpeedY;
+    jumpBuffer = 0;
+    jumping = true;
+    events.push({
+      type: 'wallJump',
+      x: wall < 0 ? player.x : player.x + player.width,
+      y: player.y + player.height / 2,
+    });
+  }
+
+  // Coin collection
+  let collected = state.collected;
+  const coins = state.coins.map((coin) => {
+    if (!coin.active || !rectsOverlap(player, coin)) {
+      return coin;
+    }
+    collected += 1;
+    events.push({ type: 'coin', x: coin.x + coin.width / 2, y: coin.y });
+    return { ...coin, active: false };
+  });
+
+  const hazards = advanceHazards(state.hazards, time);
+  let enemies = advanceEnemies(state.enemies, time);
+
+  let { checkpoint } = state;
+  state.checkpoints.forEach((flag, index) => {
+    if (!rectsOverlap(player, flag) || checkpoint === index) return;
+    checkpoint = index;
+    events.push({ type: 'checkpoint', x: flag.x + flag.width / 2, y: flag.y });
+  });
+
+  // Landing on an enemy from above defeats it; any other contact hurts
+  let hurt = false;
+  enemies.forEach((enemy, index) => {
+    if (enemy.defeated || !rectsOverlap(player, enemy)) return;
+    const feet = state.player.y + state.player.height;
+    if (player.vy > 0 && feet <= state.enemies[index].y + STOMP_TOLERANCE) {
+      enemies = enemies.map((other) => (other === enemy ? { ...other, defeated: true } : other));
+      player.vy = -STOMP_BOUNCE;
+      player.onGround = false;
+      standingOn = null;
+      events.push({ type: 'stomp', x: enemy.x + enemy.width / 2, y: enemy.y });
+    } else {
+      hurt = true;
+    }
+  });
+  hurt ||= hazards.some((hazard) => hazard.active && rectsOverlap(player, hazard));
+
+  const next: EngineState = {
+    ...state,
+    player,
+    platforms,
+    hazards,
+    enemies,
+    checkpoint,
+    standingOn,
+    coins: collected === state.collected ? state.coins : coins,
+    collected,
+    jumpBuffer,
+    coyote,
+    jumping,
+    wall,
+    timeLeft,
+    tick,
+    time,
+    events,
+  };
+
+  // Goal check
+  if (rectsOverlap(player, goal) && isGoalOpen(next)) {
+    return { ...next, status: 'won' };
+  }
+
+  if (next.invulnerable > 0) {
+    return { ...next, invulnerable: Math.max(0, next.invulnerable - dt) };
+  }
+  if (hurt || player.y > world.height + 200) {
+    return loseLife(next);
+  }
+
+  return next;
+};
+
+/** Where the player comes back: standing at the last checkpoint, or at the level spawn. */
+export const respawnPoint = (state: EngineState): Point => {
+  if (state.checkpoint === null) return state.spawn;
+  const flag = state.checkpoints[state.checkpoint];
+  const { width, height } = createPlayer(state.spawn);
+  return { x: flag.x + flag.width / 2 - width / 2, y: flag.y + flag.height - height };
+};
+
+/** Puts a fresh player at `point` with a moment of grace. */
+const respawnAt = (state: EngineState, point: Point): EngineState => ({
+  ...state,
+  player: createPlayer(point),
+  standingOn: null,
+  jumpBuffer: 0,
+  coyote: 0,
+  jumping: false,
+  wall: 0,
+  invulnerable: RESPAWN_GRACE,
+});
+
+const loseLife = (state: EngineState): EngineState => {
+  const lives = state.rules.limitedLives ? state.lives - 1 : state.lives;
+  const respawns = state.respawns + 1;
+  const { x, y, width, height } = state.player;
+  const events: EngineEvent[] = [
+    ...state.events,
+    { type: 'hurt', x: x + width / 2, y: y + height / 2 },
+  ];
+  if (lives <= 0) {
+    return { ...state, lives: 0, respawns, status: 'gameOver', events };
+  }
+  return { ...respawnAt(state, respawnPoint(state)), events, lives, respawns };
+};
+
+/**
+ * Moves the respawn point to stand on `platform` and puts the player there
+ * straight away, without costing a life.
+ */
+export const respawnOn = (state: EngineState, platform: Rect): EngineState => {
+  const { width, height } = state.player;
+  const spawn = {
+    x: Math.min(Math.max(0, platform.x + platform.width / 2 - width / 2), state.world.width - width),
+    y: platform.y - height,
+  };
+  return { ...respawnAt(state, spawn), spawn, checkpoint: null, events: [] };
+};
+
+/** Runs a whole input sequence headlessly, one fixed tick per entry. */
+export const simulate = (
+  state: EngineState,
+  inputs: InputState[],
+  dt: number = FIXED_TIMESTEP,
+): EngineState =>
+  inputs.reduce((current, input) => step(current, input, dt), state);
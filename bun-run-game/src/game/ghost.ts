@@ -0,0 +1,144 @@
+import type { EngineState } from './engine';
+import { readStorage, writeStorage } from './storage';
+import type { Point } from './types';
+
+export const GHOST_FORMAT_VERSION = 1;
+
+/**
+ * The player's position on every tick of a finished run, plus the tick on
+ * which each coin was picked up so later runs can compare splits against it.
+ */
+export type Ghost = {
+  version: number;
+  levelId: string;
+  name: string;
+  recordedAt: string;
+  timestep: number;
+  ticks: number;
+  /** Flattened `[x0, y0, x1, y1, …]`, rounded to whole pixels. */
+  path: number[];
+  /** `splits[n]` is the tick on which coin number `n + 1` was collected. */
+  splits: number[];
+};
+
+export class GhostFormatError extends Error {
+  constructor(source: string, problem: string) {
+    super(`${source} is not a valid ghost: ${problem}`);
+    this.name = 'GhostFormatError';
+  }
+}
+
+/** `boardId` is what `leaderboardIdOf` gives the run's mode, so each rule set keeps its own best ghost. */
+export const bestGhostKey = (boardId: string) => `bun-run:ghost:${boardId}`;
+
+/** Builds a ghost from the per-tick states of a run, e.g. from `simulateReplay`. */
+export const createGhost = (
+  frames: EngineState[],
+  { name, recordedAt, timestep }: Pick<Ghost, 'name' | 'recordedAt' | 'timestep'>,
+): Ghost => {
+  const path: number[] = [];
+  const splits: number[] = [];
+  frames.forEach((frame, index) => {
+    path.push(Math.round(frame.player.x), Math.round(frame.player.y));
+    const previous = frames[index - 1];
+    if (previous && frame.collected > previous.collected) {
+      for (let coin = previous.collected; coin < frame.collected; coin += 1) {
+        splits.push(frame.tick);
+      }
+    }
+  });
+  const last = frames[frames.length - 1];
+  return {
+    version: GHOST_FORMAT_VERSION,
+    levelId: last.levelId,
+    name,
+    recordedAt,
+    timestep,
+    ticks: last.tick,
+    path,
+    splits,
+  };
+};
+
+/** Where the ghost was on `tick`; it waits at its final position once its run is over. */
+export const ghostPositionAt = (ghost: Ghost, tick: number): Point => {
+  const frame = Math.max(0, Math.min(ghost.path.length / 2 - 1, tick));
+  return { x: ghost.path[frame * 2], y: ghost.path[frame * 2 + 1] };
+};
+
+/**
+ * Seconds the player is behind (positive) or ahead of (negative) the ghost after
+ * collecting `collected` coins on `tick`, or `null` when the ghost never got that far.
+ */
+export const splitDelta = (ghost: Ghost, collected: number, tick: number) => {
+  const ghostTick = ghost.splits[collected - 1];
+  return ghostTick === undefined ? null : (tick - ghostTick) * ghost.timestep;
+};
+
+/** Same as `splitDelta`, but for crossing the finish line. */
+export const finishDelta = (ghost: Ghost, tick: number) => (tick - ghost.ticks) * ghost.timestep;
+
+const isWholeNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isInteger(item));
+
+export const parseGhost = (text: string, source = 'Ghost'): Ghost => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new GhostFormatError(
+      source,
+      `could not be parsed as JSON (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new GhostFormatError(source, 'expected an object');
+  }
+  const ghost = data as Partial<Ghost>;
+  if (ghost.version !== GHOST_FORMAT_VERSION) {
+    throw new GhostFormatError(source, `unsupported format version ${String(ghost.version)}`);
+  }
+  if (typeof ghost.levelId !== 'string' || ghost.levelId.length === 0) {
+    throw new GhostFormatError(source, 'levelId must be a non-empty string');
+  }
+  if (typeof ghost.name !== 'string') {
+    throw new GhostFormatError(source, 'name must be a string');
+  }
+  if (typeof ghost.timestep !== 'number' || !(ghost.timestep > 0)) {
+    throw new GhostFormatError(source, 'timestep must be a positive number');
+  }
+  if (!isWholeNumberList(ghost.path) || ghost.path.length < 2 || ghost.path.length % 2 !== 0) {
+    throw new GhostFormatError(source, 'path must be a flat list of whole-pixel x/y pairs');
+  }
+  if (!isWholeNumberList(ghost.splits)) {
+    throw new GhostFormatError(source, 'splits must be a list of tick numbers');
+  }
+  if (typeof ghost.ticks !== 'number' || !Number.isInteger(ghost.ticks) || ghost.ticks < 0) {
+    throw new GhostFormatError(source, 'ticks must be a whole number');
+  }
+  return ghost as Ghost;
+};
+
+export const serializeGhost = (ghost: Ghost) => `${JSON.stringify(ghost)}\n`;
+
+/** Reads a stored best ghost, treating anything unreadable as no ghost at all. */
+export const parseStoredGhost = (text: string | null): Ghost | null => {
+  if (!text) return null;
+  try {
+    return parseGhost(text);
+  } catch {
+    return null;
+  }
+};
+
+export const loadBestGhost = (boardId: string) => parseStoredGhost(readStorage(bestGhostKey(boardId)));
+
+/** Stores `ghost` as the personal best for `boardId` if it beats the current one. */
+export const saveBestGhost = (ghost: Ghost, boardId = ghost.levelId) => {
+  const best = loadBestGhost(boardId);
+  if (best && best.ticks * best.timestep <= ghost.ticks * ghost.timestep) {
+    return false;
+  }
+  return writeStorage(bestGhostKey(boardId), serializeGhost(ghost));
+};
@@ -0,0 +1,25 @@
+import type { Hazard } from './types';
+
+/** Default on/off cycle of lasers in seconds. */
+export const LASER_PERIOD = 3;
+
+export type HazardState = Hazard & {
+  /** Whether touching it hurts right now; spikes always do. */
+  active: boolean;
+};
+
+export const isLaserOn = (hazard: Hazard, time: number) => {
+  const period = hazard.period ?? LASER_PERIOD;
+  const cycle = (((time + (hazard.phase ?? 0)) % period) + period) % period;
+  return cycle < period / 2;
+};
+
+export const createHazardStates = (hazards: Hazard[]): HazardState[] =>
+  hazards.map((hazard) => ({ ...hazard, active: hazard.type === 'spikes' || isLaserOn(hazard, 0) }));
+
+export const advanceHazards = (hazards: HazardState[], time: number) =>
+  hazards.map((hazard) => {
+    if (hazard.type !== 'laser') return hazard;
+    const active = isLaserOn(hazard, time);
+    return active === hazard.active ? hazard : { ...hazard, active };
+  });
@@ -0,0 +1,63 @@
+import { FIXED_TIMESTEP, type EngineState } from './engine';
+import { metresClimbed } from './score';
+
+export type HudStats = {
+  /** Rounded to the tenth of a second the header shows. */
+  timeLeft: number;
+  /** Seconds since the run started, rounded the same way. */
+  elapsed: number;
+  collected: number;
+  total: number;
+  lives: number;
+  /** Metres above the start, for endless climbs. */
+  height: number;
+  /** Seconds ahead of (negative) or behind (positive) the ghost at the last coin or the finish. */
+  split: number | null;
+};
+
+/** Everything but the split, which only the page knows how to work out. */
+export const hudStatsOf = (state: EngineState): Omit<HudStats, 'split'> => ({
+  timeLeft: Math.max(0, Math.round(state.timeLeft * 10) / 10),
+  elapsed: Math.round(state.tick * FIXED_TIMESTEP * 10) / 10,
+  collected: state.collected,
+  total: state.coins.length,
+  lives: state.lives,
+  height: metresClimbed(state),
+});
+
+const sameStats = (a: HudStats, b: HudStats) =>
+  a.timeLeft === b.timeLeft &&
+  a.elapsed === b.elapsed &&
+  a.collected === b.collected &&
+  a.total === b.total &&
+  a.lives === b.lives &&
+  a.height === b.height &&
+  a.split === b.split;
+
+/**
+ * Run stats for the page header, kept outside React so the game loop can
+ * report them every frame. Subscribers only hear about changes they would
+ * actually display.
+ */
+export const createHud = (initial: HudStats) => {
+  let stats = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getSnapshot: () => stats,
+    subscribe: (onChange: () => void) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+    update: (changes: Partial<HudStats>) => {
+      const next = { ...stats, ...changes };
+      if (sameStats(stats, next)) return;
+      stats = next;
+      listeners.forEach((listener) => listener());
+    },
+  };
+};
+
+export type Hud = ReturnType<typeof createHud>;
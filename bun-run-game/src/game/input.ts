@@ -0,0 +1,235 @@
+import { startFrameLoop } from './loop';
+import { readStorage, writeStorage } from './storage';
+import type { InputState } from './types';
+
+export type Action = 'left' | 'right' | 'jump' | 'down';
+
+export const ACTIONS: Action[] = ['left', 'right', 'jump', 'down'];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  jump: 'Jump',
+  down: 'Drop down',
+};
+
+export type InputDevice = 'keyboard' | 'gamepad' | 'touch';
+
+/** `KeyboardEvent.code` values per action, so bindings survive keyboard layout changes. */
+export type KeyBindings = Record<Action, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  jump: ['ArrowUp', 'KeyW', 'Space'],
+  down: ['ArrowDown', 'KeyS'],
+};
+
+export const KEY_BINDINGS_KEY = 'bun-run:key-bindings';
+
+/** Local races split the keyboard: WASD for the first player, the arrow keys for the second. */
+export const RACE_KEY_BINDINGS: KeyBindings[] = [
+  { left: ['KeyA'], right: ['KeyD'], jump: ['KeyW', 'Space'], down: ['KeyS'] },
+  { left: ['ArrowLeft'], right: ['ArrowRight'], jump: ['ArrowUp'], down: ['ArrowDown'] },
+];
+
+/**
+ * Keys that pause and resume a run; not rebindable so there is always a way out.
+ * They cannot be bound to actions either, since the pause check would swallow them.
+ */
+export const PAUSE_KEYS = ['Escape', 'KeyP'];
+
+/** Stick travel below this is treated as centred. */
+export const GAMEPAD_DEADZONE = 0.35;
+
+/** Button indices in the browser's "standard" gamepad mapping. */
+const GAMEPAD_BUTTONS: Record<Action, number[]> = {
+  left: [14],
+  right: [15],
+  jump: [0, 12],
+  down: [13],
+};
+
+const GAMEPAD_START_BUTTON = 9;
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '◀︎',
+  ArrowRight: '▶︎',
+  ArrowUp: '▲',
+  ArrowDown: '▼',
+  Space: 'Space',
+  Enter: 'Enter',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+};
+
+/** A short human-readable name for a `KeyboardEvent.code`, e.g. `KeyA` → `A`. */
+export const formatKey = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Num ');
+
+export const parseKeyBindings = (text: string | null): KeyBindings => {
+  if (!text) return DEFAULT_KEY_BINDINGS;
+  try {
+    const data = JSON.parse(text) as Partial<Record<Action, unknown>>;
+    return ACTIONS.reduce<KeyBindings>(
+      (bindings, action) => {
+        const codes = data[action];
+        if (Array.isArray(codes) && codes.every((code) => typeof code === 'string')) {
+          // Saved before pause keys were refused, a binding to one would never fire
+          bindings[action] = codes.filter((code) => !PAUSE_KEYS.includes(code));
+        }
+        return bindings;
+      },
+      { ...DEFAULT_KEY_BINDINGS },
+    );
+  } catch {
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+export const loadKeyBindings = () => parseKeyBindings(readStorage(KEY_BINDINGS_KEY));
+
+export const saveKeyBindings = (bindings: KeyBindings) =>
+  writeStorage(KEY_BINDINGS_KEY, JSON.stringify(bindings));
+
+/** Binds `code` to `action`, taking it away from any other action that had it. */
+export const bindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings =>
+  ACTIONS.reduce<KeyBindings>(
+    (next, other) => {
+      const codes = bindings[other].filter((bound) => bound !== code);
+      next[other] = other === action ? [...codes, code] : codes;
+      return next;
+    },
+    { ...bindings },
+  );
+
+export const unbindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter((bound) => bound !== code),
+});
+
+const findAction = (bindings: KeyBindings, code: string) =>
+  ACTIONS.find((action) => bindings[action].includes(code));
+
+/**
+ * Merges every device into one set of held actions and mirrors it onto
+ * whichever input state `getInput` returns. A fresh press of jump on any
+ * device also latches `jumpBuffer`.
+ */
+export const createInputMapper = (getInput: () => InputState) => {
+  const held: Record<InputDevice, Set<Action>> = {
+    keyboard: new Set(),
+    gamepad: new Set(),
+    touch: new Set(),
+  };
+  let jumping = false;
+
+  const sync = () => {
+    const input = getInput();
+    const devices = Object.values(held);
+    ACTIONS.forEach((action) => {
+      input[action] = devices.some((actions) => actions.has(action));
+    });
+    if (input.jump && !jumping) input.jumpBuffer = true;
+    jumping = input.jump;
+  };
+
+  return {
+    set: (device: InputDevice, action: Action, pressed: boolean) => {
+      if (held[device].has(action) === pressed) return;
+      if (pressed) {
+        held[device].add(action);
+      } else {
+        held[device].delete(action);
+      }
+      sync();
+    },
+    releaseAll: (device: InputDevice) => {
+      if (held[device].size === 0) return;
+      held[device].clear();
+      sync();
+    },
+  };
+};
+
+export type InputMapper = ReturnType<typeof createInputMapper>;
+
+/**
+ * Maps bound keys onto `mapper` and calls `onPause`, if given, for `PAUSE_KEYS`.
+ * Returns a function that removes the listeners.
+ */
+export const bindKeyboard = (mapper: InputMapper, bindings: KeyBindings, onPause?: () => void) => {
+  const handleKey = (event: KeyboardEvent) => {
+    if (event.target instanceof HTMLInputElement) return;
+    if (onPause && PAUSE_KEYS.includes(event.code)) {
+      if (event.type === 'keydown' && !event.repeat) onPause();
+      return;
+    }
+    const action = findAction(bindings, event.code);
+    if (!action) return;
+    mapper.set('keyboard', action, event.type === 'keydown');
+  };
+  const handleBlur = () => mapper.releaseAll('keyboard');
+
+  window.addEventListener('keydown', handleKey);
+  window.addEventListener('keyup', handleKey);
+  window.addEventListener('blur', handleBlur);
+
+  return () => {
+    window.removeEventListener('keydown', handleKey);
+    window.removeEventListener('keyup', handleKey);
+    window.removeEventListener('blur', handleBlur);
+    mapper.releaseAll('keyboard');
+  };
+};
+
+/**
+ * Polls connected gamepads once per frame: the d-pad or left stick moves and
+ * drops, the bottom face button (or d-pad up) jumps and Start calls `onPause`.
+ * With `padIndex` only that pad is read, so each local racer can have one.
+ */
+export const bindGamepads = (mapper: InputMapper, onPause?: () => void, padIndex?: number) => {
+  let startHeld = false;
+  const stop = startFrameLoop(() => {
+    const pads = navigator.getGamepads?.() ?? [];
+    const pressed = new Set<Action>();
+    let start = false;
+    pads.forEach((pad) => {
+      if (!pad || (padIndex !== undefined && pad.index !== padIndex)) return;
+      if (pad.buttons[GAMEPAD_START_BUTTON]?.pressed) start = true;
+      const stickX = pad.axes[0] ?? 0;
+      if (stickX < -GAMEPAD_DEADZONE) pressed.add('left');
+      if (stickX > GAMEPAD_DEADZONE) pressed.add('right');
+      if ((pad.axes[1] ?? 0) > GAMEPAD_DEADZONE) pressed.add('down');
+      ACTIONS.forEach((action) => {
+        if (GAMEPAD_BUTTONS[action].some((index) => pad.buttons[index]?.pressed)) {
+          pressed.add(action);
+        }
+      });
+    });
+    ACTIONS.forEach((action) => mapper.set('gamepad', action, pressed.has(action)));
+    if (start && !startHeld) onPause?.();
+    startHeld = start;
+  });
+
+  return () => {
+    stop();
+    mapper.releaseAll('gamepad');
+  };
+};
+
+/** Keyboard plus gamepads, the way both the game and the editor playtest read input. */
+export const bindInputDevices = (
+  mapper: InputMapper,
+  bindings: KeyBindings,
+  onPause?: () => void,
+) => {
+  const unbindKeyboard = bindKeyboard(mapper, bindings, onPause);
+  const unbindGamepads = bindGamepads(mapper, onPause);
+  return () => {
+    unbindKeyboard();
+    unbindGamepads();
+  };
+};
@@ -0,0 +1,77 @@
+import { readStorage, writeStorage } from './storage';
+import type { GameStatus } from './types';
+
+/** How many runs each level's leaderboard keeps. */
+export const LEADERBOARD_SIZE = 10;
+
+export const PLAYER_NAME_KEY = 'bun-run:player-name';
+
+export type LeaderboardEntry = {
+  name: string;
+  score: number;
+  status: GameStatus;
+  collected: number;
+  elapsed: number;
+  recordedAt: string;
+};
+
+export const leaderboardKey = (levelId: string) => `bun-run:leaderboard:${levelId}`;
+
+export const personalBestKey = (levelId: string) => `bun-run:best-score:${levelId}`;
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.name === 'string' &&
+    typeof entry.score === 'number' &&
+    typeof entry.status === 'string' &&
+    typeof entry.collected === 'number' &&
+    typeof entry.elapsed === 'number' &&
+    typeof entry.recordedAt === 'string'
+  );
+};
+
+/** Reads a stored leaderboard, dropping anything that does not look like an entry. */
+export const parseLeaderboard = (text: string | null): LeaderboardEntry[] => {
+  if (!text) return [];
+  try {
+    const data: unknown = JSON.parse(text);
+    return Array.isArray(data) ? data.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Higher scores first; ties go to the faster run, then to whoever got there first. */
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  b.score - a.score || a.elapsed - b.elapsed || a.recordedAt.localeCompare(b.recordedAt);
+
+/** The 1-based place `entry` would take, or `null` if it would not make the board. */
+export const rankOf = (entries: LeaderboardEntry[], entry: LeaderboardEntry) => {
+  const rank = entries.filter((other) => compareEntries(other, entry) < 0).length + 1;
+  return rank <= LEADERBOARD_SIZE ? rank : null;
+};
+
+export const addLeaderboardEntry = (levelId: string, entry: LeaderboardEntry) => {
+  const entries = parseLeaderboard(readStorage(leaderboardKey(levelId)));
+  const rank = rankOf(entries, entry);
+  if (rank === null) return null;
+  const next = [...entries, entry].sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+  writeStorage(leaderboardKey(levelId), JSON.stringify(next));
+  return rank;
+};
+
+export const loadPersonalBest = (levelId: string) => {
+  const best = Number(readStorage(personalBestKey(levelId)));
+  return Number.isFinite(best) && best > 0 ? best : null;
+};
+
+/** Records `score` if it beats the stored personal best; returns the previous best. */
+export const updatePersonalBest = (levelId: string, score: number) => {
+  const previous = loadPersonalBest(levelId);
+  if (previous === null || score > previous) {
+    writeStorage(personalBestKey(levelId), String(score));
+  }
+  return previous;
+};
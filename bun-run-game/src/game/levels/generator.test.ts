@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { rectsOverlap } from '../engine';
+import { checkLevel } from '../solvability';
+import { dailySeed, generateLevel } from './generator';
+
+const SEEDS = [
+  'abc',
+  'bun-run',
+  '42',
+  'zzzzzzzz',
+  dailySeed(new Date('2026-01-01T00:00:00Z')),
+  dailySeed(new Date('2028-02-29T12:00:00Z')),
+  dailySeed(new Date('2026-10-19T23:59:59Z')),
+  dailySeed(new Date('2027-06-15T08:30:00Z')),
+];
+
+describe('generateLevel', () => {
+  test.each(SEEDS)('lays out a level from %s that can be finished with every coin', (seed) => {
+    const level = generateLevel(seed);
+    const check = checkLevel(level);
+
+    expect(check.completable).toBe(true);
+    expect(check.unreachableCoins).toEqual([]);
+    expect(level.coins.filter((coin) => rectsOverlap(coin, level.goal))).toEqual([]);
+  });
+
+  test('lays out the same level every time for the same seed', () => {
+    expect(generateLevel('2026-10-19')).toEqual(generateLevel('2026-10-19'));
+    // Seeds are normalized first, so these are the same seed typed differently
+    expect(generateLevel('  Bun Run ')).toEqual(generateLevel('bun-run'));
+  });
+});
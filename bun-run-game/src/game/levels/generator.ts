@@ -0,0 +1,262 @@
+import { GAME_CONFIG, MOVEMENT_PRESETS } from '../config';
+import { createPlayer, rectsOverlap } from '../engine';
+import { flightTime } from '../navigation';
+import { checkLevel } from '../solvability';
+import type { LevelDefinition, Platform, Rect } from '../types';
+import { LEVEL_FORMAT_VERSION } from './loader';
+
+/** Generated levels have ids of this form, so a seed can be recovered from a replay or ghost. */
+const ID_PREFIX = 'seed-';
+
+const MAX_SEED_LENGTH = 32;
+
+const DAILY_SEED_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Two screens tall, so every level is a climb. */
+const WORLD = { width: GAME_CONFIG.width, height: GAME_CONFIG.height * 2 };
+
+const FLOOR_HEIGHT = 40;
+const PLATFORM_HEIGHT = 16;
+const COIN_SIZE = 24;
+const GOAL_SIZE = { width: 80, height: 100 };
+
+/** Everything lines up on this, the way hand-placed levels do. */
+const SNAP = 20;
+
+/** Platforms keep this far in from the sides of the world. */
+const MARGIN = 20;
+
+/** Fractions of the highest jump that each step up may take. */
+const RISE_RANGE = [0.35, 0.7];
+
+/** Fraction of a jump's sideways reach that a gap may take, leaving room for a late take-off. */
+const GAP_SHARE = 0.55;
+
+const WIDTH_RANGE = [100, 200];
+const ONE_WAY_CHANCE = 0.15;
+const COIN_CHANCE = 0.6;
+
+/** Attempts at a layout before falling back to the gentlest steps, which always pass the check. */
+const MAX_ATTEMPTS = 12;
+
+/** Seconds allowed per second of the fastest route, plus a flat allowance for coins. */
+const TIME_FACTOR = 4;
+const TIME_ALLOWANCE = 30;
+
+/**
+ * Mulberry32: a tiny seeded generator returning numbers in [0, 1), so the
+ * same seed lays out the same level on every machine.
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+/** FNV-1a, folding a seed string into the generator's 32-bit state. */
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const between = (random: Random, [min, max]: number[]) => min + random() * (max - min);
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+/** Seeds are lower-case letters, digits and dashes, so they are easy to read out and type back in. */
+export const normalizeSeed = (seed: string) =>
+  seed
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SEED_LENGTH);
+
+/** Today's Daily Run seed: the UTC date, so everyone gets the same level on the same day. */
+export const dailySeed = (date = new Date()) => date.toISOString().slice(0, 10);
+
+/** A fresh seed for a custom run. */
+export const randomSeed = () => Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0');
+
+export const generatedLevelId = (seed: string) => `${ID_PREFIX}${normalizeSeed(seed)}`;
+
+/** The seed behind a generated level's id, or `null` for a hand-placed level. */
+export const seedOfLevel = (levelId: string) => {
+  const seed = levelId.startsWith(ID_PREFIX) ? levelId.slice(ID_PREFIX.length) : '';
+  return seed && seed === normalizeSeed(seed) ? seed : null;
+};
+
+const levelName = (seed: string) =>
+  DAILY_SEED_PATTERN.test(seed) ? `Daily Run ${seed}` : `Seed ${seed}`;
+
+const presets = Object.values(MOVEMENT_PRESETS);
+
+const PLAYER = createPlayer({ x: 0, y: 0 });
+
+/** The highest a standing jump lifts the feet with every movement preset. */
+const MAX_RISE = Math.min(...presets.map(({ jumpSpeed, gravity }) => (jumpSpeed * jumpSpeed) / (2 * gravity)));
+
+/** How far sideways every movement preset can carry the player while landing `rise` pixels higher. */
+const reachAt = (rise: number) =>
+  Math.min(
+    ...presets.map((movement) => movement.moveSpeed * (flightTime(movement.jumpSpeed, rise, movement) ?? 0)),
+  );
+
+/** Whether `platform` is low enough over `below` to catch the head of a player jumping from it. */
+const overhangs = (platform: Rect, below: Rect) =>
+  below.y > platform.y &&
+  below.y - platform.y < MAX_RISE + PLAYER.height &&
+  platform.x < below.x + below.width + PLAYER.width &&
+  platform.x + platform.width > below.x - PLAYER.width;
+
+/**
+ * Climbs from `start` to the top of the world one platform at a time,
+ * zigzagging between the sides. Every step up and every gap stays within
+ * what a jump reaches with every movement preset; `gentle` keeps to the
+ * smallest steps and gaps. Where the zigzag turns back over the steps
+ * below, including those in `below`, platforms are one-way so jumps pass up
+ * through them.
+ */
+const climb = (random: Random, start: Rect, below: Rect[], gentle: boolean) => {
+  const platforms: Platform[] = [];
+  const coins: Rect[] = [];
+  let from = start;
+  let direction = from.x + from.width / 2 < WORLD.width / 2 ? 1 : -1;
+
+  while (from.y - GOAL_SIZE.height - MARGIN > MAX_RISE * RISE_RANGE[1]) {
+    const rise = gentle ? MAX_RISE * RISE_RANGE[0] : MAX_RISE * between(random, RISE_RANGE);
+    const gap = gentle ? SNAP : Math.max(SNAP, between(random, [0, reachAt(rise) * GAP_SHARE]));
+    const width = snap(between(random, WIDTH_RANGE));
+    const fits = (x: number) => x >= MARGIN && x + width <= WORLD.width - MARGIN;
+    const beside = (side: number) =>
+      side > 0 ? Math.floor((from.x + from.width + gap) / SNAP) * SNAP : Math.ceil((from.x - gap - width) / SNAP) * SNAP;
+    // Turn back at the sides of the world
+    if (!fits(beside(direction))) direction = -direction;
+    const x = beside(direction);
+    if (!fits(x)) break;
+
+    const platform: Platform = {
+      x,
+      y: Math.floor((from.y - rise) / SNAP) * SNAP,
+      width,
+      height: PLATFORM_HEIGHT,
+      type: !gentle && random() < ONE_WAY_CHANCE ? 'oneWay' : 'solid',
+    };
+    // Steps are rounded towards the platform they leave from, never further away
+    if (from.y - platform.y > rise + SNAP) platform.y += SNAP;
+    if ([...below, ...platforms].some((other) => overhangs(platform, other))) platform.type = 'oneWay';
+    platforms.push(platform);
+    if (random() < COIN_CHANCE) {
+      coins.push({
+        x: snap(x + width / 2) - COIN_SIZE / 2,
+        y: platform.y - COIN_SIZE - snap(between(random, [20, MAX_RISE * 0.4])),
+        width: COIN_SIZE,
+        height: COIN_SIZE,
+      });
+    }
+    from = platform;
+  }
+
+  const goal = {
+    x: snap(from.x + from.width / 2) - GOAL_SIZE.width / 2,
+    y: from.y - GOAL_SIZE.height,
+    ...GOAL_SIZE,
+  };
+  // A coin over the last platform would sit inside the goal, where picking it up ends the run
+  return { platforms, coins: coins.filter((coin) => !rectsOverlap(coin, goal)), goal };
+};
+
+/** Seconds the slowest movement preset needs to reach the goal, or `null` if any preset misses it or a coin. */
+const slowestRoute = (level: LevelDefinition) => {
+  const checks = presets.map((movement) => checkLevel(level, movement));
+  if (checks.some((check) => check.minimumTime === null || check.unreachableCoins.length > 0)) {
+    return null;
+  }
+  return Math.max(...checks.map((check) => check.minimumTime ?? 0));
+};
+
+const EMPTY_LEVEL = {
+  version: LEVEL_FORMAT_VERSION,
+  timeLimit: GAME_CONFIG.timeLimit,
+  hazards: [],
+  enemies: [],
+  checkpoints: [],
+};
+
+/**
+ * Lays out a level from `seed`: platforms climbing to a goal at the top,
+ * with coins over some of them. Layouts that `checkLevel` says any movement
+ * preset cannot finish, or that leave a coin out of reach, are thrown away
+ * and another is tried, so the level returned can always be completed.
+ */
+export const generateLevel = (seed: string): LevelDefinition => {
+  const normalized = normalizeSeed(seed);
+  const random = createRandom(hashSeed(normalized));
+  const floor: Platform = {
+    x: 0,
+    y: WORLD.height - FLOOR_HEIGHT,
+    width: WORLD.width,
+    height: FLOOR_HEIGHT,
+    type: 'solid',
+  };
+  for (let attempt = 0; attempt <= MAX_ATTEMPTS; attempt += 1) {
+    // The first step leaves from the floor just right of the spawn
+    const { platforms, ...layout } = climb(
+      random,
+      { x: 0, y: floor.y, width: 120, height: 0 },
+      [],
+      attempt === MAX_ATTEMPTS,
+    );
+    const level: LevelDefinition = {
+      ...EMPTY_LEVEL,
+      ...layout,
+      id: generatedLevelId(normalized),
+      name: levelName(normalized),
+      world: { ...WORLD },
+      spawn: { x: 40, y: WORLD.height - FLOOR_HEIGHT - 80 },
+      platforms: [floor, ...platforms],
+    };
+    const slowest = slowestRoute(level);
+    if (slowest !== null) {
+      return { ...level, timeLimit: Math.ceil((slowest * TIME_FACTOR + TIME_ALLOWANCE) / 5) * 5 };
+    }
+  }
+  throw new Error(`Could not generate a completable level from seed "${seed}"`);
+};
+
+/**
+ * Lays out the next stretch of an endless climb from `seed`: platforms from
+ * `from` up to the top of the world, with the goal above the last one.
+ * `below` is everything already placed. Like whole levels, a stretch is only
+ * kept once every movement preset can reach its goal and coins from `from`.
+ */
+export const generateSection = (seed: string, from: Rect, below: Rect[]) => {
+  const random = createRandom(hashSeed(seed));
+  const start: Platform = { x: from.x, y: from.y, width: from.width, height: from.height, type: 'solid' };
+  for (let attempt = 0; attempt <= MAX_ATTEMPTS; attempt += 1) {
+    const section = climb(random, start, below, attempt === MAX_ATTEMPTS);
+    const level: LevelDefinition = {
+      ...EMPTY_LEVEL,
+      ...section,
+      id: seed,
+      name: seed,
+      // Deep enough that the world floor is no shortcut
+      world: { width: WORLD.width, height: from.y + WORLD.height },
+      spawn: { x: from.x + from.width / 2 - PLAYER.width / 2, y: from.y - PLAYER.height },
+      platforms: [start, ...section.platforms],
+    };
+    if (slowestRoute(level) !== null) return section;
+  }
+  throw new Error(`Could not generate a reachable section from seed "${seed}"`);
+};
@@ -0,0 +1,37 @@
+import type { LevelDefinition } from '../types';
+import bounceGarden from './bounce-garden.json';
+import { generateLevel, seedOfLevel } from './generator';
+import { parseLevel } from './loader';
+import neonRooftops from './neon-rooftops.json';
+import skylineClimb from './skyline-climb.json';
+
+export {
+  dailySeed,
+  generatedLevelId,
+  generateLevel,
+  normalizeSeed,
+  randomSeed,
+  seedOfLevel,
+} from './generator';
+export { LEVEL_FORMAT_VERSION, LevelValidationError, loadLevel, parseLevel, serializeLevel } from './loader';
+
+/** Built-in levels in the order a run plays through them. */
+export const LEVELS: LevelDefinition[] = [
+  parseLevel(neonRooftops, 'neon-rooftops.json'),
+  parseLevel(bounceGarden, 'bounce-garden.json'),
+  parseLevel(skylineClimb, 'skyline-climb.json'),
+];
+
+export const getLevelIndex = (id: string) => LEVELS.findIndex((level) => level.id === id);
+
+/** Returns the level that follows `id` in the sequence, or `null` after the last one. */
+export const getNextLevel = (id: string): LevelDefinition | null => {
+  const index = getLevelIndex(id);
+  return index >= 0 && index + 1 < LEVELS.length ? LEVELS[index + 1] : null;
+};
+
+/** Finds a built-in level by id, or lays a generated one out again from the seed in its id. */
+export const findLevel = (id: string): LevelDefinition | null => {
+  const seed = seedOfLevel(id);
+  return seed ? generateLevel(seed) : (LEVELS.find((level) => level.id === id) ?? null);
+};
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { LEVELS } from '.';
+import { LEVEL_FORMAT_VERSION, LevelValidationError, loadLevel, parseLevel, serializeLevel } from './loader';
+
+const validLevel = () => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'test',
+  name: 'Test',
+  timeLimit: 60,
+  world: { width: 960, height: 540 },
+  spawn: { x: 40, y: 420 },
+  goal: { x: 840, y: 400, width: 80, height: 100 },
+  platforms: [
+    { x: 0, y: 500, width: 960, height: 40, type: 'solid' },
+    { x: 300, y: 420, width: 120, height: 16, type: 'bounce', strength: 1080 },
+  ],
+  coins: [{ x: 120, y: 370 }],
+});
+
+/** Returns the issues `parseLevel` reports for `data`, or an empty list when it parses. */
+const issuesOf = (data: unknown) => {
+  try {
+    parseLevel(data);
+    return [];
+  } catch (error) {
+    if (!(error instanceof LevelValidationError)) throw error;
+    return error.issues;
+  }
+};
+
+describe('parseLevel', () => {
+  test('fills in coin sizes and the lists older files leave out', () => {
+    const level = parseLevel(validLevel());
+
+    expect(level.coins).toEqual([{ x: 120, y: 370, width: 24, height: 24 }]);
+    expect(level.platforms[1].strength).toBe(1080);
+    expect(level.hazards).toEqual([]);
+    expect(level.enemies).toEqual([]);
+    expect(level.checkpoints).toEqual([]);
+  });
+
+  test('reads back every built-in level it serializes', () => {
+    for (const level of LEVELS) {
+      expect(loadLevel(serializeLevel(level))).toEqual(level);
+    }
+  });
+
+  test('reports every problem in one go', () => {
+    const data = {
+      ...validLevel(),
+      version: 2,
+      name: '',
+      platforms: [{ x: 0, y: 500, width: 960, height: 40, type: 'lava' }],
+      coins: [{ x: 2000, y: 100 }],
+    };
+
+    expect(issuesOf(data)).toEqual([
+      'level.version must be 1, got 2',
+      'level.name must be a non-empty string',
+      "level.platforms[0].type must be one of 'solid', 'bounce', 'moving', 'oneWay', 'crumbling', 'conveyor'",
+      'level.coins[0] lies outside the 960×540 world',
+    ]);
+  });
+
+  test('rejects settings on types that do not use them', () => {
+    const data = {
+      ...validLevel(),
+      platforms: [{ x: 0, y: 500, width: 960, height: 40, type: 'solid', strength: 900 }],
+      hazards: [{ x: 400, y: 480, width: 80, height: 20, type: 'spikes', period: 2 }],
+    };
+
+    expect(issuesOf(data)).toEqual([
+      "level.platforms[0].strength is only allowed on 'bounce' platforms",
+      "level.hazards[0].period is only allowed on 'laser' hazards",
+    ]);
+  });
+
+  test('names the type of a value that is not an object', () => {
+    expect(issuesOf([])).toEqual(['level must be an object, got an array']);
+    expect(issuesOf({ ...validLevel(), spawn: 'start' })).toContain('level.spawn must be an object, got a string');
+  });
+});
+
+describe('loadLevel', () => {
+  test('reports malformed JSON as a validation error', () => {
+    expect(() => loadLevel('{ "version": 1,', 'broken.json')).toThrow(LevelValidationError);
+    expect(() => loadLevel('{ "version": 1,', 'broken.json')).toThrow(/broken\.json is not a valid level/);
+  });
+});
@@ -0,0 +1,292 @@
+import { PATROL_RANGE } from '../enemies';
+import type { Checkpoint, Enemy, Hazard, LevelDefinition, Platform, Point, Rect, Size } from '../types';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+const DEFAULT_COIN_SIZE = 24;
+const DEFAULT_CHECKPOINT_SIZE = { width: 32, height: 64 };
+const HAZARD_TYPES: Hazard['type'][] = ['spikes', 'laser'];
+const ENEMY_TYPES: Enemy['type'][] = ['patrol', 'jumper'];
+const PLATFORM_TYPES: Platform['type'][] = ['solid', 'bounce', 'moving', 'oneWay', 'crumbling', 'conveyor'];
+
+export class LevelValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`${source} is not a valid level:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'LevelValidationError';
+    this.issues = issues;
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  const type = typeof value;
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+};
+
+/**
+ * Collects every problem in a level instead of stopping at the first one, so a
+ * designer fixing a hand-edited file sees the full list in one go.
+ */
+class Validator {
+  readonly issues: string[] = [];
+
+  report(path: string, message: string) {
+    this.issues.push(`${path} ${message}`);
+  }
+
+  object(value: unknown, path: string): Fields | null {
+    if (isFields(value)) return value;
+    this.report(path, `must be an object, got ${describe(value)}`);
+    return null;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (Array.isArray(value)) return value;
+    this.report(path, `must be an array, got ${describe(value)}`);
+    return [];
+  }
+
+  string(fields: Fields, key: string, path: string) {
+    const value = fields[key];
+    if (typeof value === 'string' && value.trim().length > 0) return value;
+    this.report(`${path}.${key}`, 'must be a non-empty string');
+    return '';
+  }
+
+  number(fields: Fields, key: string, path: string, { min }: { min?: number } = {}) {
+    const value = fields[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(`${path}.${key}`, `must be a finite number, got ${describe(value)}`);
+      return 0;
+    }
+    if (min !== undefined && value < min) {
+      this.report(`${path}.${key}`, `must be at least ${min}, got ${value}`);
+    }
+    return value;
+  }
+
+  point(value: unknown, path: string): Point {
+    const fields = this.object(value, path);
+    if (!fields) return { x: 0, y: 0 };
+    return { x: this.number(fields, 'x', path), y: this.number(fields, 'y', path) };
+  }
+
+  size(fields: Fields, path: string): Size {
+    return {
+      width: this.number(fields, 'width', path, { min: 1 }),
+      height: this.number(fields, 'height', path, { min: 1 }),
+    };
+  }
+
+  rect(value: unknown, path: string): Rect {
+    const fields = this.object(value, path);
+    if (!fields) return { x: 0, y: 0, width: 0, height: 0 };
+    return { ...this.point(fields, path), ...this.size(fields, path) };
+  }
+
+  oneOf<T extends string>(fields: Fields, key: string, path: string, options: T[]): T {
+    const value = fields[key] as T;
+    if (!options.includes(value)) {
+      this.report(`${path}.${key}`, `must be one of ${options.map((option) => `'${option}'`).join(', ')}`);
+    }
+    return value;
+  }
+
+  /** Optional top-level lists may be left out of older level files entirely. */
+  optionalArray(value: unknown, path: string): unknown[] {
+    return value === undefined ? [] : this.array(value, path);
+  }
+
+  /** Reports `key` when it is set on an object whose type does not use it. */
+  onlyOn(fields: Fields, key: string, path: string, allowed: boolean, owners: string) {
+    if (fields[key] !== undefined && !allowed) {
+      this.report(`${path}.${key}`, `is only allowed on ${owners}`);
+    }
+  }
+
+  within(rect: Rect, world: Size, path: string) {
+    if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > world.width || rect.y + rect.height > world.height) {
+      this.report(path, `lies outside the ${world.width}×${world.height} world`);
+    }
+  }
+}
+
+const parsePlatform = (validator: Validator, value: unknown, path: string): Platform => {
+  const rect = validator.rect(value, path);
+  const fields = isFields(value) ? value : {};
+  const type = validator.oneOf(fields, 'type', path, PLATFORM_TYPES);
+  const platform: Platform = { ...rect, type };
+  if (fields.strength !== undefined) {
+    if (type !== 'bounce') {
+      validator.report(`${path}.strength`, "is only allowed on 'bounce' platforms");
+    }
+    platform.strength = validator.number(fields, 'strength', path, { min: 1 });
+  }
+  if (fields.speed !== undefined) {
+    if (type !== 'moving' && type !== 'conveyor') {
+      validator.report(`${path}.speed`, "is only allowed on 'moving' and 'conveyor' platforms");
+    }
+    platform.speed = validator.number(fields, 'speed', path, type === 'moving' ? { min: 1 } : {});
+  }
+  if (type === 'moving') {
+    const waypoints = validator.array(fields.path, `${path}.path`);
+    if (Array.isArray(fields.path) && waypoints.length === 0) {
+      validator.report(`${path}.path`, 'must list at least one waypoint');
+    }
+    platform.path = waypoints.map((waypoint, index) => validator.point(waypoint, `${path}.path[${index}]`));
+  } else if (fields.path !== undefined) {
+    validator.report(`${path}.path`, "is only allowed on 'moving' platforms");
+  }
+  return platform;
+};
+
+const parseHazard = (validator: Validator, value: unknown, path: string): Hazard => {
+  const rect = validator.rect(value, path);
+  const fields = isFields(value) ? value : {};
+  const type = validator.oneOf(fields, 'type', path, HAZARD_TYPES);
+  const hazard: Hazard = { ...rect, type };
+  validator.onlyOn(fields, 'period', path, type === 'laser', "'laser' hazards");
+  validator.onlyOn(fields, 'phase', path, type === 'laser', "'laser' hazards");
+  if (fields.period !== undefined) hazard.period = validator.number(fields, 'period', path, { min: 0.1 });
+  if (fields.phase !== undefined) hazard.phase = validator.number(fields, 'phase', path);
+  return hazard;
+};
+
+const parseEnemy = (validator: Validator, value: unknown, path: string): Enemy => {
+  const rect = validator.rect(value, path);
+  const fields = isFields(value) ? value : {};
+  const type = validator.oneOf(fields, 'type', path, ENEMY_TYPES);
+  const enemy: Enemy = { ...rect, type };
+  validator.onlyOn(fields, 'range', path, type === 'patrol', "'patrol' enemies");
+  validator.onlyOn(fields, 'speed', path, type === 'patrol', "'patrol' enemies");
+  if (fields.range !== undefined) enemy.range = validator.number(fields, 'range', path, { min: 0 });
+  if (fields.speed !== undefined) enemy.speed = validator.number(fields, 'speed', path, { min: 1 });
+  return enemy;
+};
+
+const parseCheckpoint = (validator: Validator, value: unknown, path: string): Checkpoint => {
+  const fields = validator.object(value, path);
+  if (!fields) return { x: 0, y: 0, ...DEFAULT_CHECKPOINT_SIZE };
+  return {
+    ...validator.point(fields, path),
+    width:
+      fields.width === undefined
+        ? DEFAULT_CHECKPOINT_SIZE.width
+        : validator.number(fields, 'width', path, { min: 1 }),
+    height:
+      fields.height === undefined
+        ? DEFAULT_CHECKPOINT_SIZE.height
+        : validator.number(fields, 'height', path, { min: 1 }),
+  };
+};
+
+const parseCoin = (validator: Validator, value: unknown, path: string): Rect => {
+  const fields = validator.object(value, path);
+  if (!fields) return { x: 0, y: 0, width: 0, height: 0 };
+  return {
+    ...validator.point(fields, path),
+    width: fields.width === undefined ? DEFAULT_COIN_SIZE : validator.number(fields, 'width', path, { min: 1 }),
+    height: fields.height === undefined ? DEFAULT_COIN_SIZE : validator.number(fields, 'height', path, { min: 1 }),
+  };
+};
+
+/**
+ * Validates already-parsed JSON and returns a typed level. Throws a
+ * `LevelValidationError` listing every problem found.
+ */
+export const parseLevel = (data: unknown, source = 'Level'): LevelDefinition => {
+  const validator = new Validator();
+  const root = validator.object(data, 'level');
+  if (!root) throw new LevelValidationError(source, validator.issues);
+
+  if (root.version !== LEVEL_FORMAT_VERSION) {
+    validator.report(
+      'level.version',
+      `must be ${LEVEL_FORMAT_VERSION}, got ${JSON.stringify(root.version) ?? 'nothing'}`,
+    );
+  }
+
+  const worldFields = validator.object(root.world, 'level.world');
+  const world = worldFields ? validator.size(worldFields, 'level.world') : { width: 0, height: 0 };
+
+  const level: LevelDefinition = {
+    version: LEVEL_FORMAT_VERSION,
+    id: validator.string(root, 'id', 'level'),
+    name: validator.string(root, 'name', 'level'),
+    timeLimit: validator.number(root, 'timeLimit', 'level', { min: 1 }),
+    world,
+    spawn: validator.point(root.spawn, 'level.spawn'),
+    goal: validator.rect(root.goal, 'level.goal'),
+    platforms: validator
+      .array(root.platforms, 'level.platforms')
+      .map((platform, index) => parsePlatform(validator, platform, `level.platforms[${index}]`)),
+    coins: validator
+      .array(root.coins, 'level.coins')
+      .map((coin, index) => parseCoin(validator, coin, `level.coins[${index}]`)),
+    hazards: validator
+      .optionalArray(root.hazards, 'level.hazards')
+      .map((hazard, index) => parseHazard(validator, hazard, `level.hazards[${index}]`)),
+    enemies: validator
+      .optionalArray(root.enemies, 'level.enemies')
+      .map((enemy, index) => parseEnemy(validator, enemy, `level.enemies[${index}]`)),
+    checkpoints: validator
+      .optionalArray(root.checkpoints, 'level.checkpoints')
+      .map((checkpoint, index) => parseCheckpoint(validator, checkpoint, `level.checkpoints[${index}]`)),
+  };
+
+  if (worldFields) {
+    validator.within({ ...level.spawn, width: 0, height: 0 }, world, 'level.spawn');
+    validator.within(level.goal, world, 'level.goal');
+    level.platforms.forEach((platform, index) => {
+      validator.within(platform, world, `level.platforms[${index}]`);
+      platform.path?.forEach((waypoint, stop) =>
+        validator.within(
+          { ...platform, ...waypoint },
+          world,
+          `level.platforms[${index}].path[${stop}]`,
+        ),
+      );
+    });
+    level.coins.forEach((coin, index) => validator.within(coin, world, `level.coins[${index}]`));
+    level.hazards.forEach((hazard, index) => validator.within(hazard, world, `level.hazards[${index}]`));
+    level.enemies.forEach((enemy, index) =>
+      validator.within(
+        enemy.type === 'patrol' ? { ...enemy, width: enemy.width + (enemy.range ?? PATROL_RANGE) } : enemy,
+        world,
+        `level.enemies[${index}]`,
+      ),
+    );
+    level.checkpoints.forEach((checkpoint, index) =>
+      validator.within(checkpoint, world, `level.checkpoints[${index}]`),
+    );
+  }
+
+  if (validator.issues.length > 0) {
+    throw new LevelValidationError(source, validator.issues);
+  }
+  return level;
+};
+
+/** Parses the text of a level file, reporting malformed JSON the same way as schema errors. */
+export const loadLevel = (text: string, source = 'Level'): LevelDefinition => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LevelValidationError(source, [
+      `could not be parsed as JSON (${error instanceof Error ? error.message : String(error)})`,
+    ]);
+  }
+  return parseLevel(data, source);
+};
+
+export const serializeLevel = (level: LevelDefinition) => `${JSON.stringify(level, null, 2)}\n`;
@@ -0,0 +1,53 @@
+import { FIXED_TIMESTEP } from './engine';
+
+/**
+ * Longest frame delta handed to `tick`. Browsers stop animation frames in
+ * background tabs, and the first frame back must not be simulated as one
+ * huge step.
+ */
+export const MAX_FRAME_DELTA = 0.1;
+
+/**
+ * Calls `tick` once per animation frame with the seconds elapsed since the
+ * previous frame (0 on the first one, never more than `MAX_FRAME_DELTA`).
+ * Returning `false` from `tick` ends the loop; so does calling the returned
+ * stop function.
+ */
+export const startFrameLoop = (tick: (delta: number, time: number) => boolean | void) => {
+  let frame: number | null = null;
+  let lastTimestamp: number | null = null;
+
+  const update = (timestamp: number) => {
+    const delta =
+      lastTimestamp === null ? 0 : Math.min(MAX_FRAME_DELTA, (timestamp - lastTimestamp) / 1000);
+    lastTimestamp = timestamp;
+    if (tick(delta, timestamp / 1000) === false) {
+      frame = null;
+      return;
+    }
+    frame = requestAnimationFrame(update);
+  };
+
+  frame = requestAnimationFrame(update);
+
+  return () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+  };
+};
+
+/**
+ * Turns variable frame deltas into a whole number of fixed-length ticks to run,
+ * carrying the remainder over to the next frame.
+ */
+export const createAccumulator = (timestep: number = FIXED_TIMESTEP) => {
+  let carry = 0;
+  return (delta: number) => {
+    carry += delta;
+    const ticks = Math.floor(carry / timestep);
+    carry -= ticks * timestep;
+    return ticks;
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { LEVELS } from './levels';
+import { createRun, GAME_MODES, getGameMode, respawnAtPoint } from './modes';
+
+const level = LEVELS[0];
+/** The highest platform, so the pick cannot land on the floor the player spawns on. */
+const target = level.platforms.reduce((highest, platform) => (platform.y < highest.y ? platform : highest));
+const onTarget = { x: target.x + target.width / 2, y: target.y - 10 };
+
+describe('respawning anywhere', () => {
+  test('is only offered in practice', () => {
+    expect(GAME_MODES.filter((mode) => mode.respawnAnywhere).map(({ id }) => id)).toEqual(['practice']);
+  });
+
+  test('puts a practice run on the picked platform without costing a life', () => {
+    const practice = getGameMode('practice');
+    const run = createRun(practice, level);
+
+    const next = respawnAtPoint(practice, run, onTarget);
+
+    expect(next.player.y + next.player.height).toBe(target.y);
+    expect(next.player.x + next.player.width / 2).toBe(target.x + target.width / 2);
+    expect(next.spawn).toEqual({ x: next.player.x, y: next.player.y });
+    expect(next.lives).toBe(run.lives);
+  });
+
+  test('leaves the run alone when nothing is picked', () => {
+    const practice = getGameMode('practice');
+    const run = createRun(practice, level);
+
+    expect(respawnAtPoint(practice, run, { x: onTarget.x, y: target.y - 500 })).toBe(run);
+  });
+
+  test('is ignored in other modes', () => {
+    const classic = getGameMode('classic');
+    const run = createRun(classic, level);
+
+    expect(respawnAtPoint(classic, run, onTarget)).toBe(run);
+  });
+});
+
+describe('lives', () => {
+  test('are only limited in modes that show them', () => {
+    for (const mode of GAME_MODES) {
+      expect([mode.id, mode.rules.limitedLives]).toEqual([mode.id, mode.hud.lives]);
+    }
+  });
+});
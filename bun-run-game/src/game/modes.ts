@@ -0,0 +1,253 @@
+import { GAME_CONFIG, type MovementProfile } from './config';
+import { createEngineState, DEFAULT_RULES, respawnOn, step, type EngineState, type RunRules } from './engine';
+import { generateSection, seedOfLevel } from './levels/generator';
+import { createPlatformStates } from './platforms';
+import type { Scoring } from './score';
+import type { InputState, LevelDefinition, Point } from './types';
+
+export type GameModeId = 'classic' | 'timeAttack' | 'coinRush' | 'endless' | 'practice';
+
+/**
+ * A rule set for a run: what wins and loses it, what the header shows, and
+ * what the run counts towards. `begin` and `update` let a mode change the
+ * run itself, at the start and after every tick.
+ */
+export type GameMode = {
+  id: GameModeId;
+  label: string;
+  /** One line for the mode picker. */
+  description: string;
+  rules: RunRules;
+  hud: {
+    /** The time left, the time taken so far, or no clock at all. */
+    clock: 'countdown' | 'elapsed' | null;
+    lives: boolean;
+    height: boolean;
+  };
+  scoring: Scoring;
+  /** Runs count towards a leaderboard per level, one for the whole mode, or none at all. */
+  leaderboard: 'level' | 'mode' | null;
+  /** Whether runs race ghosts and leave new ones, which needs the same level every time. */
+  ghosts: boolean;
+  /** Whether runs can be replayed from their inputs alone. */
+  replays: boolean;
+  /** Whether the autoplay bot knows how to play it. */
+  autoplay: boolean;
+  /** Whether runs need a generated level rather than a hand-placed one. */
+  generated: boolean;
+  /** Whether the player can pick any platform to respawn on. */
+  respawnAnywhere: boolean;
+  begin?: (state: EngineState) => EngineState;
+  update?: (state: EngineState) => EngineState;
+};
+
+/** Seconds on the clock at the start of an endless climb, and added by every stretch after. */
+const ENDLESS_START_TIME = 30;
+const SECTION_TIME = 20;
+
+/** Each new stretch of an endless climb is a screen tall. */
+const SECTION_HEIGHT = GAME_CONFIG.height;
+
+/** The next stretch is laid out once the player is within this of the top of the world. */
+const LOOKAHEAD = GAME_CONFIG.height;
+
+/** Platforms and coins further below the player than this are cleared away. */
+const KEEP_BELOW = GAME_CONFIG.height * 1.5;
+
+/** How far below the lowest platform left the floor moves up to, within reach of a jump. */
+const FLOOR_STEP = 60;
+
+const lower = <T extends Point>(item: T, distance: number): T => ({ ...item, y: item.y + distance });
+
+/**
+ * Makes room above an endless climb once the player nears the top: moves
+ * everything down a section, lays out the next stretch from the highest
+ * platform, and moves the goal to its top so it stays out of reach. What has
+ * dropped far below is cleared away and the floor follows it up, so the
+ * world never grows.
+ */
+const extendClimb = (state: EngineState): EngineState => {
+  if (state.status !== 'running' || state.player.y >= LOOKAHEAD) return state;
+
+  const moved = state.platforms.map((platform) => ({
+    ...lower(platform, SECTION_HEIGHT),
+    origin: lower(platform.origin, SECTION_HEIGHT),
+    path: platform.path?.map((stop) => lower(stop, SECTION_HEIGHT)),
+  }));
+  const [floor, ...steps] = moved;
+  const top = steps.reduce((highest, platform) => (platform.y < highest.y ? platform : highest), floor);
+  const scroll = state.scroll + SECTION_HEIGHT;
+  const seed = `${seedOfLevel(state.levelId) ?? state.levelId}/${Math.round(scroll / SECTION_HEIGHT)}`;
+  const section = generateSection(seed, top, steps);
+
+  const player = lower(state.player, SECTION_HEIGHT);
+  const kept = steps.filter((platform) => platform.y < player.y + KEEP_BELOW);
+  const floorY =
+    kept.length === steps.length
+      ? floor.y
+      : Math.max(
+          Math.max(...kept.map(({ y }) => y)) + FLOOR_STEP,
+          Math.ceil(player.y + player.height),
+        );
+  const raised = floorY === floor.y ? floor : { ...floor, y: floorY, origin: { x: floor.x, y: floorY } };
+  const platforms = [raised, ...kept, ...createPlatformStates(section.platforms)];
+  const riding = state.standingOn === null ? -1 : platforms.indexOf(moved[state.standingOn]);
+
+  const coins = state.coins
+    .map((coin) => lower(coin, SECTION_HEIGHT))
+    .filter((coin) => coin.y + coin.height <= floorY);
+  return {
+    ...state,
+    world: { ...state.world, height: floorY + floor.height },
+    player,
+    platforms,
+    standingOn: riding === -1 ? null : riding,
+    coins: [
+      ...coins,
+      ...section.coins.map((coin, index) => ({
+        ...coin,
+        active: true,
+        spinOffset: ((coins.length + index) * Math.PI) / 4,
+      })),
+    ],
+    hazards: state.hazards.map((hazard) => lower(hazard, SECTION_HEIGHT)),
+    enemies: state.enemies.map((enemy) => ({
+      ...lower(enemy, SECTION_HEIGHT),
+      origin: lower(enemy.origin, SECTION_HEIGHT),
+    })),
+    checkpoints: state.checkpoints.map((checkpoint) => lower(checkpoint, SECTION_HEIGHT)),
+    goal: section.goal,
+    spawn: lower(state.spawn, SECTION_HEIGHT),
+    timeLimit: state.timeLimit + SECTION_TIME,
+    timeLeft: state.timeLeft + SECTION_TIME,
+    scroll,
+  };
+};
+
+export const GAME_MODES: GameMode[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Reach the portal before the clock runs out, with three lives to spare.',
+    rules: DEFAULT_RULES,
+    hud: { clock: 'countdown', lives: true, height: false },
+    scoring: 'exit',
+    leaderboard: 'level',
+    ghosts: true,
+    replays: true,
+    autoplay: true,
+    generated: false,
+    respawnAnywhere: false,
+  },
+  {
+    id: 'timeAttack',
+    label: 'Time Attack',
+    description: 'No time limit: the clock counts up, so get to the portal as fast as you can.',
+    rules: { ...DEFAULT_RULES, timed: false },
+    hud: { clock: 'elapsed', lives: true, height: false },
+    scoring: 'exit',
+    leaderboard: 'level',
+    ghosts: true,
+    replays: true,
+    autoplay: true,
+    generated: false,
+    respawnAnywhere: false,
+  },
+  {
+    id: 'coinRush',
+    label: 'Coin Rush',
+    description: 'The portal stays shut until every coin is collected. The clock counts up.',
+    rules: { ...DEFAULT_RULES, timed: false, goalNeedsAllCoins: true },
+    hud: { clock: 'elapsed', lives: true, height: false },
+    scoring: 'exit',
+    leaderboard: 'level',
+    ghosts: true,
+    replays: true,
+    autoplay: false,
+    generated: false,
+    respawnAnywhere: false,
+  },
+  {
+    id: 'endless',
+    label: 'Endless',
+    description: `The level keeps building as you climb, and every new stretch adds ${SECTION_TIME}s to the clock.`,
+    rules: { ...DEFAULT_RULES, limitedLives: false },
+    hud: { clock: 'countdown', lives: false, height: true },
+    scoring: 'climb',
+    leaderboard: 'mode',
+    ghosts: false,
+    replays: true,
+    autoplay: false,
+    generated: true,
+    respawnAnywhere: false,
+    begin: (state) => ({ ...state, timeLimit: ENDLESS_START_TIME, timeLeft: ENDLESS_START_TIME }),
+    update: extendClimb,
+  },
+  {
+    id: 'practice',
+    label: 'Practice',
+    description: 'No clock and no lives to lose. Click or tap any platform to respawn on it.',
+    rules: { timed: false, limitedLives: false, goalNeedsAllCoins: false },
+    hud: { clock: null, lives: false, height: false },
+    scoring: 'exit',
+    leaderboard: null,
+    ghosts: false,
+    // Respawning on a platform is not an input, so a replay could not repeat it
+    replays: false,
+    autoplay: false,
+    generated: false,
+    respawnAnywhere: true,
+  },
+];
+
+export const DEFAULT_GAME_MODE: GameModeId = 'classic';
+
+export const isGameModeId = (value: unknown): value is GameModeId =>
+  GAME_MODES.some(({ id }) => id === value);
+
+export const getGameMode = (id: GameModeId) => GAME_MODES.find((mode) => mode.id === id) ?? GAME_MODES[0];
+
+/**
+ * The id whose leaderboard and personal best a run counts towards, or
+ * `null` if it counts towards none. Classic runs keep the plain level id.
+ */
+export const leaderboardIdOf = (mode: GameMode, levelId: string) => {
+  switch (mode.leaderboard) {
+    case 'level':
+      return mode.id === DEFAULT_GAME_MODE ? levelId : `${levelId}:${mode.id}`;
+    case 'mode':
+      return mode.id;
+    default:
+      return null;
+  }
+};
+
+export const createRun = (mode: GameMode, level: LevelDefinition, movement?: MovementProfile) => {
+  const state = createEngineState(level, movement, mode.rules);
+  return mode.begin ? mode.begin(state) : state;
+};
+
+/** Picks this far above a platform still count, so its thin top edge need not be hit exactly. */
+const RESPAWN_PICK_SLACK = 60;
+
+/**
+ * Respawns the player on the platform at `point`, in world coordinates, if
+ * `mode` allows respawning anywhere and there is one there.
+ */
+export const respawnAtPoint = (mode: GameMode, state: EngineState, point: Point) => {
+  if (!mode.respawnAnywhere || state.status !== 'running') return state;
+  const platform = state.platforms.find(
+    (candidate) =>
+      point.x >= candidate.x &&
+      point.x <= candidate.x + candidate.width &&
+      point.y >= candidate.y - RESPAWN_PICK_SLACK &&
+      point.y <= candidate.y + candidate.height,
+  );
+  return platform ? respawnOn(state, platform) : state;
+};
+
+/** Advances a run by one tick under `mode`'s rules. */
+export const stepRun = (mode: GameMode, state: EngineState, input: InputState, dt: number) => {
+  const next = step(state, input, dt);
+  return next !== state && mode.update ? mode.update(next) : next;
+};
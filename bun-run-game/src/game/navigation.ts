@@ -0,0 +1,401 @@
+import type { MovementProfile } from './config';
+import { createPlayer, FIXED_TIMESTEP, rectsOverlap } from './engine';
+import { MOVING_SPEED } from './platforms';
+import type { LevelDefinition, Rect, Size } from './types';
+
+/** Arcs still airborne after this many seconds are not worth following. */
+const MAX_FLIGHT_TIME = 5;
+
+/**
+ * Seconds from leaving the ground at `launchSpeed` until the feet come back
+ * down to `rise` pixels above the take-off height, integrated tick by tick the
+ * way `step` does. `null` when the arc never gets that high.
+ */
+export const flightTime = (launchSpeed: number, rise: number, movement: MovementProfile) => {
+  let vy = -launchSpeed;
+  let height = 0;
+  let peak = 0;
+  for (let tick = 1; tick * FIXED_TIMESTEP <= MAX_FLIGHT_TIME; tick += 1) {
+    vy = Math.min(vy + movement.gravity * FIXED_TIMESTEP, movement.maxFallSpeed);
+    height -= vy * FIXED_TIMESTEP;
+    peak = Math.max(peak, height);
+    if (vy > 0 && height <= rise) return peak >= rise ? tick * FIXED_TIMESTEP : null;
+  }
+  return null;
+};
+
+/** Somewhere the player can land and set off from again. */
+export type Surface = Rect & {
+  /** Index into the level's platforms, or `null` for the world floor. */
+  platform: number | null;
+  /** Upward speed the player leaves with: a full jump, or a bounce pad's launch. */
+  launch: number;
+  /** Whether the player can walk along it and step off the edge; bounce pads launch straight away. */
+  walkable: boolean;
+  /** Whether it blocks the player from below, unlike one-way platforms. */
+  solid: boolean;
+};
+
+/** Standing spots are sampled this far apart along each surface. */
+const SPOT_SPACING = 20;
+
+/** How far above its landing a short hop under a ceiling peaks, in pixels. */
+const HOP_CLEARANCE = 12;
+
+/** How far above a ledge a jump onto it must peak, to get over its edge before coming back down. */
+const LEDGE_CLEARANCE = 12;
+
+/** A place to stand: the player's centre `x` on top of a surface. */
+export type Spot = {
+  surface: Surface;
+  x: number;
+};
+
+/** Stretches of the world floor that no platform sits on. */
+const floorSurfaces = (level: LevelDefinition, movement: MovementProfile): Surface[] => {
+  const { width, height } = level.world;
+  const covered = level.platforms
+    .filter((platform) => platform.type !== 'moving' && platform.y + platform.height >= height)
+    .sort((a, b) => a.x - b.x);
+  const surfaces: Surface[] = [];
+  const addFloor = (from: number, to: number) => {
+    if (to <= from) return;
+    surfaces.push({
+      x: from,
+      y: height,
+      width: to - from,
+      height: 0,
+      platform: null,
+      launch: movement.jumpSpeed,
+      walkable: true,
+      solid: true,
+    });
+  };
+  let x = 0;
+  covered.forEach((platform) => {
+    addFloor(x, platform.x);
+    x = Math.max(x, platform.x + platform.width);
+  });
+  addFloor(x, width);
+  return surfaces;
+};
+
+/** Every platform as a surface; moving platforms become one surface per stop on their loop. */
+const platformSurfaces = (level: LevelDefinition, movement: MovementProfile): Surface[] =>
+  level.platforms.flatMap((platform, index) => {
+    const stops = platform.type === 'moving' ? [platform, ...(platform.path ?? [])] : [platform];
+    const bounce = platform.type === 'bounce';
+    return stops.map(({ x, y }) => ({
+      x,
+      y,
+      width: platform.width,
+      height: platform.height,
+      platform: index,
+      launch: bounce ? (platform.strength ?? movement.bounceBonus) : movement.jumpSpeed,
+      walkable: !bounce,
+      solid: platform.type !== 'oneWay',
+    }));
+  });
+
+const spotsOn = (surface: Surface): Spot[] => {
+  const count = Math.max(1, Math.ceil(surface.width / SPOT_SPACING));
+  return Array.from({ length: count + 1 }, (_, index) => ({
+    surface,
+    x: surface.x + (surface.width * index) / count,
+  }));
+};
+
+/** How far the player's centre must move sideways from `x` to overlap `target`. */
+const reachFor = (x: number, target: Rect, player: Size) =>
+  Math.max(0, target.x - player.width / 2 - x, x - (target.x + target.width + player.width / 2));
+
+/** `flightTime`, remembered by launch and rise since the same pairs come up again and again. */
+const createFlightTimes = (movement: MovementProfile) => {
+  const cache = new Map<string, number | null>();
+  return (launch: number, rise: number) => {
+    const key = `${launch}:${rise}`;
+    if (!cache.has(key)) cache.set(key, flightTime(launch, rise, movement));
+    return cache.get(key) ?? null;
+  };
+};
+
+/**
+ * One way of getting somewhere: `time` in seconds, and the upward speed the
+ * player leaves the ground with. A `launch` of 0 steps off an edge; `null`
+ * means no air time at all, just walking or riding.
+ */
+export type Move = {
+  time: number;
+  launch: number | null;
+};
+
+/**
+ * A graph of standing spots over a level, joined by the moves the player can
+ * make between them with `movement`: walks, rides, jumps, drops and bounces.
+ * Jumps under a solid platform either get out from under it in time or are
+ * cut short to stay beneath it, jumps onto a solid ledge have to peak a
+ * little above it, and walls too tall to jump block walks and arcs alike;
+ * hazards, enemies, wall jumps and platforms an arc only clips are ignored,
+ * and moving platforms count as surfaces at each of their stops.
+ */
+export const createNavGraph = (level: LevelDefinition, movement: MovementProfile) => {
+  const player: Size = createPlayer(level.spawn);
+  const flights = createFlightTimes(movement);
+  const surfaces = [...floorSurfaces(level, movement), ...platformSurfaces(level, movement)];
+  const spots = surfaces.flatMap(spotsOn);
+  // Moving platforms only pass overhead now and then, so they never count as ceilings
+  const ceilings = surfaces.filter(
+    ({ platform, solid }) => solid && platform !== null && level.platforms[platform].type !== 'moving',
+  );
+
+  /**
+   * The lowest solid platform the player's head reaches when rising straight
+   * up from centre `x` and feet at `feetY` at `speed`, if any.
+   */
+  const ceilingOver = (x: number, feetY: number, speed: number) => {
+    let lowest: Surface | null = null;
+    for (const ceiling of ceilings) {
+      const rise = feetY - player.height - (ceiling.y + ceiling.height);
+      const over = x > ceiling.x - player.width / 2 && x < ceiling.x + ceiling.width + player.width / 2;
+      if (!over || rise < 0 || speed * speed < 2 * movement.gravity * rise) continue;
+      if (lowest === null || ceiling.y > lowest.y) lowest = ceiling;
+    }
+    return lowest;
+  };
+
+  /**
+   * Whether a solid platform stands between centres `fromX` and `toX` and
+   * covers everything from `top` down to `bottom`, so nothing passing between
+   * those heights gets by it. Ceilings are walls from the side.
+   */
+  const walledOff = (fromX: number, toX: number, top: number, bottom: number) =>
+    ceilings.some(
+      (wall) =>
+        wall.x < Math.max(fromX, toX) + player.width / 2 &&
+        wall.x + wall.width > Math.min(fromX, toX) - player.width / 2 &&
+        wall.y <= top &&
+        wall.y + wall.height >= bottom,
+    );
+
+  /**
+   * Whether the player runs into `rect` on the way from standing at `from`
+   * towards centre `toX` with `move`, heading over at full speed and
+   * followed tick by tick through the air.
+   */
+  const meets = (rect: Rect | null, from: Spot, toX: number, move: Move) => {
+    if (rect === null) return false;
+    const distance = Math.abs(toX - from.x);
+    const direction = Math.sign(toX - from.x);
+    const at = (x: number, feet: number) => ({
+      x: x - player.width / 2,
+      y: feet - player.height,
+      width: player.width,
+      height: player.height,
+    });
+    if (move.launch === null) {
+      const walk = at(Math.min(from.x, toX), from.surface.y);
+      return rectsOverlap({ ...walk, width: walk.width + distance }, rect);
+    }
+    let vy = -move.launch;
+    let feet = from.surface.y;
+    for (let tick = 1; tick * FIXED_TIMESTEP <= move.time; tick += 1) {
+      vy = Math.min(vy + movement.gravity * FIXED_TIMESTEP, movement.maxFallSpeed);
+      feet += vy * FIXED_TIMESTEP;
+      const x = from.x + direction * Math.min(movement.moveSpeed * tick * FIXED_TIMESTEP, distance);
+      if (rectsOverlap(at(x, feet), rect)) return true;
+    }
+    return false;
+  };
+
+  /** Feet height at the top of a jump from `feetY` at `launch`, or `feetY` itself for a drop. */
+  const peakOf = (feetY: number, launch: number | null) =>
+    feetY - (launch ? (launch * launch) / (2 * movement.gravity) : 0);
+
+  /** How far the player's centre must move from `x` to get out from under `ceiling`, by the nearer side. */
+  const clearOfCeiling = (x: number, ceiling: Surface) =>
+    x < ceiling.x + ceiling.width / 2
+      ? ceiling.x - player.width / 2 - x
+      : ceiling.x + ceiling.width + player.width / 2 - x;
+
+  /** Which open end of its surface `spot` sits at, -1 or 1, or 0 when it cannot be walked off there. */
+  const edgeOf = ({ surface, x }: Spot) => {
+    if (x === surface.x && surface.x > 0) return -1;
+    if (x === surface.x + surface.width && x < level.world.width) return 1;
+    return 0;
+  };
+
+  /**
+   * Whether a player rising at `speed` from centre `x` and feet at `feetY`
+   * can move out from under `ceiling` before their head hits it.
+   */
+  const escapes = (x: number, feetY: number, speed: number, ceiling: Surface) => {
+    const rise = feetY - player.height - (ceiling.y + ceiling.height);
+    const time = (speed - Math.sqrt(speed * speed - 2 * movement.gravity * rise)) / movement.gravity;
+    return Math.abs(clearOfCeiling(x, ceiling)) <= time * movement.moveSpeed;
+  };
+
+  /**
+   * Shortest air time from `spot` to feet at `feetY` while `distance` pixels
+   * further sideways, either jumping or (from the open end of walkable
+   * ground) stepping off the edge, and peaking at least `clearance` above
+   * `feetY`. Air control is taken to be full `moveSpeed` throughout.
+   */
+  const airMove = (spot: Spot, feetY: number, distance: number, clearance = 0): Move | null => {
+    const { surface } = spot;
+    const rise = surface.y - feetY;
+    const launches = surface.walkable && edgeOf(spot) !== 0 ? [0, surface.launch] : [surface.launch];
+    let best: Move | null = null;
+    launches.forEach((launch) => {
+      let speed = launch;
+      const ceiling = launch > 0 ? ceilingOver(spot.x, surface.y, launch) : null;
+      if (ceiling && !escapes(spot.x, surface.y, launch, ceiling)) {
+        // Letting go of jump early keeps a hop under the ceiling, if that still gets high enough
+        const room = surface.y - player.height - (ceiling.y + ceiling.height);
+        const shortest = (movement.jumpCutMultiplier * launch) ** 2 / (2 * movement.gravity);
+        const peak = Math.max(rise + HOP_CLEARANCE, shortest);
+        if (!surface.walkable || peak >= room) return;
+        speed = Math.sqrt(2 * movement.gravity * peak);
+      }
+      const time = flights(speed, rise);
+      if (time === null || flights(speed, rise + clearance) === null || time * movement.moveSpeed < distance) return;
+      if (best === null || time < best.time) best = { time, launch };
+    });
+    return best;
+  };
+
+  /** Jumps and drops seen to fail, from a spot to the surfaces and targets it did not reach. */
+  const failed = new Map<Spot, Set<string>>();
+  const keyOf = ({ x, y, width, height }: Rect) => `${x},${y},${width},${height}`;
+
+  /** Leaves the move from `from` to `to`, a surface or a target, out of every later search. */
+  const forbid = (from: Spot, to: Rect) => {
+    const targets = failed.get(from) ?? new Set<string>();
+    targets.add(keyOf(to));
+    failed.set(from, targets);
+  };
+
+  /** Lets every forbidden move be tried again. */
+  const forgive = () => failed.clear();
+
+  const isForbidden = (from: Spot, to: Rect) => failed.get(from)?.has(keyOf(to)) ?? false;
+
+  /**
+   * How to get from standing at `from` to standing at `to` in one move, if at
+   * all, without running into `avoid`.
+   */
+  const move = (from: Spot, to: Spot, avoid: Rect | null = null): Move | null => {
+    const distance = Math.abs(to.x - from.x);
+    if (from.surface === to.surface) {
+      // A platform standing on the surface stops a walk along it
+      const blocked = walledOff(from.x, to.x, from.surface.y - 1, from.surface.y - 1);
+      const walk = { time: distance / movement.moveSpeed, launch: null };
+      return from.surface.walkable && !blocked && !meets(avoid, from, to.x, walk) ? walk : null;
+    }
+    // Riding a moving platform between its own stops
+    const platform = from.surface.platform === null ? null : level.platforms[from.surface.platform];
+    if (platform?.type === 'moving' && to.surface.platform === from.surface.platform) {
+      if (to.x - to.surface.x !== from.x - from.surface.x) return null;
+      const ride = Math.hypot(to.surface.x - from.surface.x, to.surface.y - from.surface.y);
+      return { time: ride / (platform.speed ?? MOVING_SPEED), launch: null };
+    }
+    // Solid ledges above have to be got over from the side rather than through
+    const ledge = to.surface.solid && to.surface.y < from.surface.y ? LEDGE_CLEARANCE : 0;
+    const jump = isForbidden(from, to.surface) ? null : airMove(from, to.surface.y, distance, ledge);
+    const top = peakOf(from.surface.y, jump?.launch ?? null) - player.height;
+    const bottom = Math.max(from.surface.y, to.surface.y);
+    return jump && !walledOff(from.x, to.x, top, bottom) && !meets(avoid, from, to.x, jump) ? jump : null;
+  };
+
+  /** How to get from standing at `from` to touching `target`, if it can be done from there, avoiding `avoid`. */
+  const touch = (from: Spot, target: Rect, avoid: Rect | null = null): Move | null => {
+    const distance = reachFor(from.x, target, player);
+    // The player touches `target` while their feet are anywhere strictly inside this band
+    const lowest = target.y + target.height + player.height;
+    const highest = target.y;
+    const feet = from.surface.y;
+    if (feet > highest && feet < lowest && distance === 0) return { time: 0, launch: null };
+    const feetY = feet >= lowest ? lowest - 1 : feet <= highest ? highest + 1 : feet;
+    const jump = isForbidden(from, target) ? null : airMove(from, feetY, distance);
+    const toX = from.x + (target.x + target.width / 2 < from.x ? -distance : distance);
+    const top = peakOf(feet, jump?.launch ?? null) - player.height;
+    const bottom = Math.max(feet, feetY);
+    // Nothing above a solid platform can be reached by jumping up at it from underneath
+    const shelf = jump?.launch ? ceilingOver(toX, feet, jump.launch) : null;
+    if (shelf && shelf.y >= target.y + target.height) return null;
+    return jump && !walledOff(from.x, toX, top, bottom) && !meets(avoid, from, toX, jump) ? jump : null;
+  };
+
+  /**
+   * Spots reachable by dropping straight down with the player's centre at
+   * `x` and feet at `feetY`, with the seconds it takes to fall there and walk
+   * to each spot on the surface caught on.
+   */
+  const landOn = (x: number, feetY: number) => {
+    const below = spots.filter(({ surface }) => surface.y >= feetY && reachFor(x, surface, player) === 0);
+    const landing = Math.min(...below.map(({ surface }) => surface.y));
+    const fall = flights(0, feetY - landing) ?? 0;
+    const start = new Map<number, number>();
+    below.forEach((spot) => {
+      if (spot.surface.y !== landing || walledOff(x, spot.x, landing - 1, landing - 1)) return;
+      start.set(spots.indexOf(spot), fall + Math.abs(spot.x - x) / movement.moveSpeed);
+    });
+    return start;
+  };
+
+  /**
+   * Shortest times to every spot from the `start` spots and their head
+   * starts, with the spot each was reached from (-1 for starts and
+   * unreachable spots). With `avoid`, only moves that keep clear of it count.
+   */
+  const search = (start: Map<number, number>, avoid: Rect | null = null) => {
+    const times = spots.map((_, index) => start.get(index) ?? Infinity);
+    const previous = spots.map(() => -1);
+    const settled = spots.map(() => false);
+    for (;;) {
+      let current = -1;
+      times.forEach((time, index) => {
+        if (!settled[index] && time < Infinity && (current < 0 || time < times[current])) current = index;
+      });
+      if (current < 0) break;
+      settled[current] = true;
+      spots.forEach((to, index) => {
+        if (settled[index]) return;
+        const next = move(spots[current], to, avoid);
+        if (next === null || times[current] + next.time >= times[index]) return;
+        times[index] = times[current] + next.time;
+        previous[index] = current;
+      });
+    }
+    return { times, previous };
+  };
+
+  /** The spot from which `target` is touched soonest, given `times` from `search`. */
+  const nearestTouch = (times: number[], target: Rect, avoid: Rect | null = null) => {
+    let best: { spot: number; time: number; move: Move } | null = null;
+    for (let index = 0; index < spots.length; index += 1) {
+      const next = times[index] === Infinity ? null : touch(spots[index], target, avoid);
+      if (next === null) continue;
+      const time = times[index] + next.time;
+      if (best === null || time < best.time) best = { spot: index, time, move: next };
+    }
+    return best;
+  };
+
+  return {
+    player,
+    spots,
+    edgeOf,
+    ceilingOver,
+    clearOfCeiling,
+    escapes,
+    forbid,
+    forgive,
+    move,
+    touch,
+    landOn,
+    search,
+    nearestTouch,
+  };
+};
+
+export type NavGraph = ReturnType<typeof createNavGraph>;
@@ -0,0 +1,161 @@
+import type { EngineState } from './engine';
+import {
+  addSample,
+  NET_PROTOCOL_VERSION,
+  parseServerMessage,
+  remotePositionAt,
+  snapshotOf,
+  type ClientMessage,
+  type NetPlayer,
+  type NetSnapshot,
+  type RemoteTrack,
+  type Standing,
+} from './netplay';
+
+export type RaceRoom = {
+  connection: 'closed' | 'connecting' | 'open';
+  /** This player's id, once the server has let them in. */
+  id: string | null;
+  room: string | null;
+  /** The level the room races on, which whoever opened it chose. */
+  levelId: string | null;
+  players: NetPlayer[];
+  standings: Standing[];
+  /** Whether `standings` are the final ones of a race. */
+  over: boolean;
+  error: string | null;
+};
+
+const DISCONNECTED: RaceRoom = {
+  connection: 'closed',
+  id: null,
+  room: null,
+  levelId: null,
+  players: [],
+  standings: [],
+  over: false,
+  error: null,
+};
+
+const now = () => performance.now() / 1000;
+
+/**
+ * Connection to a race server. Room membership and standings are kept as a
+ * snapshot for `useSyncExternalStore`; remote positions arrive many times a
+ * second, so they are kept apart and read by the game loop through `remotes`.
+ */
+export const createRaceClient = () => {
+  let room = DISCONNECTED;
+  let socket: WebSocket | null = null;
+  const listeners = new Set<() => void>();
+  const countdownListeners = new Set<(seconds: number) => void>();
+  const tracks = new Map<string, RemoteTrack>();
+
+  const update = (changes: Partial<RaceRoom>) => {
+    room = { ...room, ...changes };
+    listeners.forEach((listener) => listener());
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const disconnect = () => {
+    const closing = socket;
+    socket = null;
+    closing?.close();
+    tracks.clear();
+  };
+
+  return {
+    getSnapshot: () => room,
+    subscribe: (onChange: () => void) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+    /** Calls `onCountdown` with the seconds to go whenever the room's next race is about to start. */
+    onCountdown: (onCountdown: (seconds: number) => void) => {
+      countdownListeners.add(onCountdown);
+      return () => {
+        countdownListeners.delete(onCountdown);
+      };
+    },
+    /** Joins `roomName`, opening it on `levelId` if nobody is in it yet. */
+    connect: (url: string, roomName: string, name: string, levelId: string) => {
+      disconnect();
+      let opened: WebSocket;
+      try {
+        opened = new WebSocket(url);
+      } catch {
+        update({ ...DISCONNECTED, error: `${url} is not a WebSocket address.` });
+        return;
+      }
+      socket = opened;
+      update({ ...DISCONNECTED, connection: 'connecting' });
+      opened.onopen = () =>
+        send({ type: 'join', version: NET_PROTOCOL_VERSION, room: roomName, name, levelId });
+      opened.onmessage = (event) => {
+        if (socket !== opened || typeof event.data !== 'string') return;
+        const message = parseServerMessage(event.data);
+        switch (message?.type) {
+          case 'welcome':
+            update({ connection: 'open', id: message.id, room: message.room, levelId: message.levelId });
+            break;
+          case 'players': {
+            const present = new Set(message.players.map(({ id }) => id));
+            [...tracks.keys()].forEach((id) => {
+              if (!present.has(id)) tracks.delete(id);
+            });
+            update({ players: message.players });
+            break;
+          }
+          case 'countdown':
+            tracks.clear();
+            update({ over: false });
+            countdownListeners.forEach((listener) => listener(message.seconds));
+            break;
+          case 'state':
+            tracks.set(message.id, addSample(tracks.get(message.id), message, now()));
+            break;
+          case 'standings':
+            update({ standings: message.standings, over: message.over });
+            break;
+          case 'error':
+            update({ error: message.message });
+            break;
+          default:
+            break;
+        }
+      };
+      opened.onclose = () => {
+        if (socket !== opened) return;
+        socket = null;
+        tracks.clear();
+        update({
+          connection: 'closed',
+          id: null,
+          error: room.error ?? (room.id ? 'Lost the connection to the race server.' : `Could not reach ${url}.`),
+        });
+      };
+    },
+    disconnect: () => {
+      disconnect();
+      update(DISCONNECTED);
+    },
+    ready: () => send({ type: 'ready' }),
+    /** Streams where the player is; the page calls this every `NET_SEND_INTERVAL` ticks. */
+    sendState: (state: EngineState) => send({ type: 'state', ...snapshotOf(state) }),
+    finish: (state: EngineState) =>
+      send({ type: 'finish', status: state.status, tick: state.tick, collected: state.collected }),
+    /** Everyone else in the room who has moved yet, where they should be drawn right now. */
+    remotes: (): (NetSnapshot & { id: string; tint: string })[] =>
+      room.players.flatMap(({ id, tint }) => {
+        const track = tracks.get(id);
+        return id === room.id || !track ? [] : [{ ...remotePositionAt(track, now()), id, tint }];
+      }),
+  };
+};
+
+export type RaceClient = ReturnType<typeof createRaceClient>;
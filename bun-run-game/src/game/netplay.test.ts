@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { FIXED_TIMESTEP } from './engine';
+import { LEVELS } from './levels';
+import { checkFinish } from './netplay';
+import { checkLevel } from './solvability';
+
+const level = LEVELS[0];
+const fastest = checkLevel(level).minimumTime ?? 0;
+const ticksFor = (seconds: number) => Math.round(seconds / FIXED_TIMESTEP);
+
+describe('checkFinish', () => {
+  test('accepts a win that took about as long as the race has run', () => {
+    const time = fastest + 10;
+    const finish = { status: 'won' as const, tick: ticksFor(time), collected: 2 };
+
+    expect(checkFinish(level, finish, time + 0.2, fastest, 1)).toBeNull();
+  });
+
+  test('rejects a win claimed one tick in', () => {
+    const finish = { status: 'won' as const, tick: 1, collected: 0 };
+
+    expect(checkFinish(level, finish, 20, fastest)).toContain('after 20.00s of racing');
+    // Even sent straight after the countdown, no route is that quick
+    expect(checkFinish(level, finish, 0.05, fastest)).toContain('fastest route');
+  });
+
+  test('rejects a winning time far behind the server clock', () => {
+    const finish = { status: 'won' as const, tick: ticksFor(fastest + 5), collected: 0 };
+
+    expect(checkFinish(level, finish, fastest + 30, fastest)).not.toBeNull();
+  });
+
+  test('still accepts running out of time, whatever the clock says', () => {
+    const finish = { status: 'lost' as const, tick: ticksFor(level.timeLimit), collected: 0 };
+
+    expect(checkFinish(level, finish, level.timeLimit + 3, fastest)).toBeNull();
+  });
+});
@@ -0,0 +1,251 @@
+import { FIXED_TIMESTEP, type EngineState } from './engine';
+import type { GameStatus, LevelDefinition } from './types';
+
+/** Bumped whenever a message changes shape, so old clients are turned away instead of misread. */
+export const NET_PROTOCOL_VERSION = 1;
+
+export const DEFAULT_RACE_SERVER_PORT = 8787;
+
+export const DEFAULT_RACE_SERVER_URL = `ws://localhost:${DEFAULT_RACE_SERVER_PORT}`;
+
+/** Engine ticks between the snapshots each client streams: 20 a second. */
+export const NET_SEND_INTERVAL = 3;
+
+/** Seconds between everyone in a room being ready and the race starting. */
+export const COUNTDOWN_SECONDS = 3;
+
+/**
+ * Remote avatars are drawn this many ticks behind the newest snapshot, so
+ * there is nearly always one either side to blend between.
+ */
+export const INTERPOLATION_DELAY = 2 * NET_SEND_INTERVAL;
+
+/** Handed out in join order; a room is full once every colour is taken. */
+export const NET_TINTS = ['#22d3ee', '#a3e635', '#f97316', '#c084fc', '#fb7185', '#2dd4bf'];
+
+export const MAX_NAME_LENGTH = 16;
+
+/** Where a racer is and how their run is going, as streamed every `NET_SEND_INTERVAL` ticks. */
+export type NetSnapshot = {
+  tick: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  onGround: boolean;
+  status: GameStatus;
+  collected: number;
+};
+
+export type NetPlayer = {
+  id: string;
+  name: string;
+  tint: string;
+  ready: boolean;
+};
+
+export type Standing = {
+  id: string;
+  name: string;
+  tint: string;
+  status: GameStatus;
+  collected: number;
+  /** Seconds to the portal, once the server has accepted the finish. */
+  time: number | null;
+  /** Why the server threw the finish out, if it did. */
+  rejected: string | null;
+};
+
+export type ClientMessage =
+  | { type: 'join'; version: number; room: string; name: string; levelId: string }
+  | { type: 'ready' }
+  | ({ type: 'state' } & NetSnapshot)
+  | { type: 'finish'; status: GameStatus; tick: number; collected: number };
+
+export type ServerMessage =
+  | { type: 'welcome'; id: string; room: string; levelId: string }
+  | { type: 'players'; players: NetPlayer[] }
+  | { type: 'countdown'; seconds: number }
+  | ({ type: 'state'; id: string } & NetSnapshot)
+  | { type: 'standings'; standings: Standing[]; over: boolean }
+  | { type: 'error'; message: string };
+
+const GAME_STATUSES: GameStatus[] = ['idle', 'running', 'paused', 'won', 'lost', 'gameOver'];
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isStatus = (value: unknown): value is GameStatus => GAME_STATUSES.includes(value as GameStatus);
+
+const isSnapshot = (data: Record<string, unknown>) =>
+  isCount(data.tick) &&
+  ['x', 'y', 'vx', 'vy'].every((key) => Number.isFinite(data[key])) &&
+  typeof data.onGround === 'boolean' &&
+  isStatus(data.status) &&
+  isCount(data.collected);
+
+const parseObject = (text: string) => {
+  try {
+    const data: unknown = JSON.parse(text);
+    return typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Reads a message sent by a client, or returns `null` when it is not one. */
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  const data = parseObject(text);
+  switch (data?.type) {
+    case 'join':
+      return typeof data.version === 'number' &&
+        typeof data.room === 'string' &&
+        typeof data.name === 'string' &&
+        typeof data.levelId === 'string'
+        ? (data as ClientMessage)
+        : null;
+    case 'ready':
+      return { type: 'ready' };
+    case 'state':
+      return isSnapshot(data) ? (data as ClientMessage) : null;
+    case 'finish':
+      return isStatus(data.status) && isCount(data.tick) && isCount(data.collected)
+        ? (data as ClientMessage)
+        : null;
+    default:
+      return null;
+  }
+};
+
+/** Reads a message sent by the server, or returns `null` when it is not one. */
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  const data = parseObject(text);
+  switch (data?.type) {
+    case 'welcome':
+    case 'players':
+    case 'countdown':
+    case 'standings':
+    case 'error':
+      return data as ServerMessage;
+    case 'state':
+      return typeof data.id === 'string' && isSnapshot(data) ? (data as ServerMessage) : null;
+    default:
+      return null;
+  }
+};
+
+export const snapshotOf = (state: EngineState): NetSnapshot => ({
+  tick: state.tick,
+  x: state.player.x,
+  y: state.player.y,
+  vx: state.player.vx,
+  vy: state.player.vy,
+  onGround: state.player.onGround,
+  status: state.status,
+  collected: state.collected,
+});
+
+/**
+ * A winning time may fall this far short of the server's clock: the countdown
+ * and the finish both reach the server late, and slow frames lose a little
+ * game time. A game clock that stopped for longer, say in a hidden tab, does
+ * not count.
+ */
+const MIN_CLOCK_SHARE = 0.9;
+const CLOCK_SLACK = 1;
+
+/** Share of the estimated fastest route a winning time must take, leaving room for shortcuts the estimate misses. */
+const MIN_ROUTE_SHARE = 0.5;
+
+/**
+ * Checks a reported finish against the level it was run on: the clock can
+ * only have run for the level's time limit, a win can neither beat the
+ * level's `fastest` route nor the `raceTime` seconds the server has seen the
+ * race run for, and nobody collects more coins than the level has or fewer
+ * than they were last seen holding. `fastest` is `checkLevel`'s minimum time,
+ * worked out once per level since finding it is slow. Returns the reason a
+ * finish is refused, or `null` when it stands.
+ */
+export const checkFinish = (
+  level: LevelDefinition,
+  finish: { status: GameStatus; tick: number; collected: number },
+  raceTime: number,
+  fastest: number | null,
+  lastCollected = 0,
+): string | null => {
+  if (finish.status !== 'won' && finish.status !== 'lost' && finish.status !== 'gameOver') {
+    return `reported a finish while still ${finish.status}`;
+  }
+  const elapsed = finish.tick * FIXED_TIMESTEP;
+  // Running out of time lands on the tick that crosses the limit, which can be one past it
+  if (elapsed > level.timeLimit + FIXED_TIMESTEP) {
+    return `claimed ${elapsed.toFixed(2)}s on a ${level.timeLimit}s level`;
+  }
+  if (finish.status === 'won' && elapsed < raceTime * MIN_CLOCK_SHARE - CLOCK_SLACK) {
+    return `claimed ${elapsed.toFixed(2)}s after ${raceTime.toFixed(2)}s of racing`;
+  }
+  if (finish.status === 'won' && fastest !== null && elapsed < fastest * MIN_ROUTE_SHARE) {
+    return `claimed ${elapsed.toFixed(2)}s on a level whose fastest route takes about ${fastest.toFixed(2)}s`;
+  }
+  if (finish.collected > level.coins.length) {
+    return `claimed ${finish.collected} coins on a level with ${level.coins.length}`;
+  }
+  if (finish.collected < lastCollected) {
+    return `claimed ${finish.collected} coins after collecting ${lastCollected}`;
+  }
+  return null;
+};
+
+/** Portal finishes by time, then everyone else by coins; players still racing sit between the two. */
+export const rankStandings = (standings: Standing[]) => {
+  const finishTime = (standing: Standing) =>
+    standing.time === null || standing.rejected !== null ? Infinity : standing.time;
+  const stillRacing = (standing: Standing) => (standing.status === 'running' ? 0 : 1);
+  return [...standings].sort(
+    (a, b) =>
+      (finishTime(a) === finishTime(b) ? 0 : finishTime(a) < finishTime(b) ? -1 : 1) ||
+      stillRacing(a) - stillRacing(b) ||
+      b.collected - a.collected,
+  );
+};
+
+/** Snapshots received from one remote player, oldest first. */
+export type RemoteTrack = {
+  samples: NetSnapshot[];
+  /** When the newest sample arrived, in seconds on the receiving clock. */
+  receivedAt: number;
+};
+
+/** Older samples than this many are dropped; a second's worth is plenty to blend between. */
+const TRACK_LENGTH = 20;
+
+export const addSample = (track: RemoteTrack | undefined, sample: NetSnapshot, now: number): RemoteTrack => {
+  const samples = (track?.samples ?? []).filter(({ tick }) => tick < sample.tick);
+  samples.push(sample);
+  return { samples: samples.slice(-TRACK_LENGTH), receivedAt: now };
+};
+
+/**
+ * Where to draw a remote player at `now`: the sender's tick is extrapolated
+ * from when their last snapshot arrived, then drawn `INTERPOLATION_DELAY`
+ * ticks behind that, blending the two snapshots either side.
+ */
+export const remotePositionAt = (track: RemoteTrack, now: number): NetSnapshot => {
+  const { samples } = track;
+  const newest = samples[samples.length - 1];
+  const target = newest.tick + (now - track.receivedAt) / FIXED_TIMESTEP - INTERPOLATION_DELAY;
+  if (target >= newest.tick) return newest;
+  const after = samples.findIndex(({ tick }) => tick >= target);
+  if (after <= 0) return samples[0];
+  const from = samples[after - 1];
+  const to = samples[after];
+  const blend = (target - from.tick) / (to.tick - from.tick);
+  const mix = (a: number, b: number) => a + (b - a) * blend;
+  return {
+    ...to,
+    x: mix(from.x, to.x),
+    y: mix(from.y, to.y),
+    vx: mix(from.vx, to.vx),
+    vy: mix(from.vy, to.vy),
+  };
+};
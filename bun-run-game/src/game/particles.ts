@@ -0,0 +1,93 @@
+export type ParticleShape = 'circle' | 'ring' | 'square';
+
+export type Particle = {
+  active: boolean;
+  shape: ParticleShape;
+  color: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  /** Downward acceleration in px/s². */
+  gravity: number;
+  /** Fraction of speed kept per second, e.g. 0.2 slows to a fifth after one second. */
+  drag: number;
+  size: number;
+  /** Change in size per second; rings use it to expand. */
+  grow: number;
+  rotation: number;
+  spin: number;
+  /** Seconds the particle lives for. */
+  life: number;
+  age: number;
+};
+
+export type ParticleSpawn = Partial<Omit<Particle, 'active' | 'age'>> &
+  Pick<Particle, 'x' | 'y' | 'life' | 'color'>;
+
+/** Enough for a win celebration on top of everything else without allocating mid-run. */
+export const PARTICLE_CAPACITY = 400;
+
+const blankParticle = (): Particle => ({
+  active: false,
+  shape: 'circle',
+  color: '#ffffff',
+  x: 0,
+  y: 0,
+  vx: 0,
+  vy: 0,
+  gravity: 0,
+  drag: 1,
+  size: 4,
+  grow: 0,
+  rotation: 0,
+  spin: 0,
+  life: 1,
+  age: 0,
+});
+
+const PARTICLE_DEFAULTS = blankParticle();
+
+/**
+ * A fixed set of particles that are recycled rather than allocated. When every
+ * slot is busy the oldest spawn is overwritten.
+ */
+export const createParticlePool = (capacity = PARTICLE_CAPACITY) => {
+  const particles = Array.from({ length: capacity }, blankParticle);
+  let cursor = 0;
+
+  return {
+    particles,
+    spawn: (spawn: ParticleSpawn) => {
+      const particle = particles[cursor];
+      cursor = (cursor + 1) % capacity;
+      Object.assign(particle, PARTICLE_DEFAULTS, spawn);
+      particle.active = true;
+      particle.age = 0;
+    },
+    update: (dt: number) => {
+      particles.forEach((particle) => {
+        if (!particle.active) return;
+        particle.age += dt;
+        if (particle.age >= particle.life) {
+          particle.active = false;
+          return;
+        }
+        const damping = particle.drag ** dt;
+        particle.vx *= damping;
+        particle.vy = particle.vy * damping + particle.gravity * dt;
+        particle.x += particle.vx * dt;
+        particle.y += particle.vy * dt;
+        particle.size = Math.max(0, particle.size + particle.grow * dt);
+        particle.rotation += particle.spin * dt;
+      });
+    },
+    clear: () => {
+      particles.forEach((particle) => {
+        particle.active = false;
+      });
+    },
+  };
+};
+
+export type ParticlePool = ReturnType<typeof createParticlePool>;
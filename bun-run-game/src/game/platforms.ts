@@ -0,0 +1,63 @@
+import type { Platform, Point } from './types';
+
+/** Default speed of moving platforms in px/s. */
+export const MOVING_SPEED = 120;
+
+/** Default belt speed of conveyors in px/s; negative values run left. */
+export const CONVEYOR_SPEED = 160;
+
+/** Seconds a crumbling platform holds once stepped on, then how long it stays gone. */
+export const CRUMBLE_DELAY = 0.5;
+export const CRUMBLE_RESPAWN = 3;
+
+/** A platform plus the parts of it that change during a run. */
+export type PlatformState = Platform & {
+  /** Where the platform started; moving platforms loop back to it. */
+  origin: Point;
+  /** Seconds since a crumbling platform was first stepped on, or `null` while intact. */
+  crumbleTime: number | null;
+};
+
+export const createPlatformStates = (platforms: Platform[]): PlatformState[] =>
+  platforms.map((platform) => ({
+    ...platform,
+    origin: { x: platform.x, y: platform.y },
+    crumbleTime: null,
+  }));
+
+/** Whether a crumbling platform has fallen away and lets everything through. */
+export const isCrumbled = (platform: Pick<PlatformState, 'crumbleTime'>) =>
+  platform.crumbleTime !== null && platform.crumbleTime >= CRUMBLE_DELAY;
+
+/** Where a moving platform is `time` seconds into a run, travelling its loop at constant speed. */
+export const movingPlatformPosition = (platform: Platform, origin: Point, time: number): Point => {
+  const stops = [origin, ...(platform.path ?? []), origin];
+  const lengths = stops.slice(1).map((stop, index) => Math.hypot(stop.x - stops[index].x, stop.y - stops[index].y));
+  const loop = lengths.reduce((total, length) => total + length, 0);
+  if (loop === 0) return origin;
+
+  let distance = (time * (platform.speed ?? MOVING_SPEED)) % loop;
+  for (let index = 0; index < lengths.length; index += 1) {
+    if (distance <= lengths[index]) {
+      const from = stops[index];
+      const to = stops[index + 1];
+      const t = lengths[index] === 0 ? 0 : distance / lengths[index];
+      return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    }
+    distance -= lengths[index];
+  }
+  return origin;
+};
+
+/** Moves platforms to where they are at `time` and runs crumble timers on by `dt`. */
+export const advancePlatforms = (platforms: PlatformState[], time: number, dt: number) =>
+  platforms.map((platform) => {
+    if (platform.type === 'moving') {
+      return { ...platform, ...movingPlatformPosition(platform, platform.origin, time) };
+    }
+    if (platform.crumbleTime !== null) {
+      const crumbleTime = platform.crumbleTime + dt;
+      return { ...platform, crumbleTime: crumbleTime >= CRUMBLE_DELAY + CRUMBLE_RESPAWN ? null : crumbleTime };
+    }
+    return platform;
+  });
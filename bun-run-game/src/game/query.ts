@@ -0,0 +1,2 @@
+/** The query string never changes without a navigation, so there is nothing to subscribe to. */
+export const subscribeToNothing = () => () => {};
@@ -0,0 +1,105 @@
+import { DEFAULT_MOVEMENT_PRESET, MOVEMENT_PRESETS, type MovementProfile } from './config';
+import { createEngineState, FIXED_TIMESTEP, step, type EngineState } from './engine';
+import type { InputState, LevelDefinition } from './types';
+
+/** How a race is decided: reaching the portal first, or holding the most coins once everyone is done. */
+export type RaceRule = 'firstToPortal' | 'mostCoins';
+
+export const RACE_RULES: { id: RaceRule; label: string }[] = [
+  { id: 'firstToPortal', label: 'First to portal' },
+  { id: 'mostCoins', label: 'Most coins' },
+];
+
+export type Racer = {
+  name: string;
+  /** Washed over the player sprite and used for the racer's stats, to tell players apart. */
+  tint: string;
+};
+
+export const RACERS: Racer[] = [
+  { name: 'Player 1', tint: '#22d3ee' },
+  { name: 'Player 2', tint: '#a3e635' },
+];
+
+export type RaceState = {
+  rule: RaceRule;
+  /** One run per racer on the same level, so each has their own coins to collect. */
+  runs: EngineState[];
+  status: 'running' | 'over';
+  /** Index of the winning racer once the race is over; `null` while it runs or for a draw. */
+  winner: number | null;
+};
+
+export const createRace = (
+  level: LevelDefinition,
+  rule: RaceRule,
+  movement: MovementProfile = MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET],
+): RaceState => ({
+  rule,
+  runs: RACERS.map(() => createEngineState(level, movement)),
+  status: 'running',
+  winner: null,
+});
+
+/** Tick the run reached the portal on; runs that never did sort after every one that did. */
+const finishTick = (run: EngineState) => (run.status === 'won' ? run.tick : Infinity);
+
+/** Negative when `a` is ahead of `b` under `rule`, zero for a dead heat. */
+const compareRuns = (rule: RaceRule, a: EngineState, b: EngineState) => {
+  const byFinish = finishTick(a) === finishTick(b) ? 0 : finishTick(a) < finishTick(b) ? -1 : 1;
+  const byCoins = b.collected - a.collected;
+  return rule === 'firstToPortal' ? byFinish || byCoins : byCoins || byFinish;
+};
+
+/** Racer indices from first place to last. */
+export const raceStandings = (race: RaceState) =>
+  race.runs
+    .map((_, index) => index)
+    .sort((a, b) => compareRuns(race.rule, race.runs[a], race.runs[b]));
+
+const decideWinner = (race: RaceState) => {
+  // Nobody wins a race to the portal that nobody reached
+  if (race.rule === 'firstToPortal' && !race.runs.some((run) => run.status === 'won')) return null;
+  const [first, second] = raceStandings(race);
+  if (second !== undefined && compareRuns(race.rule, race.runs[first], race.runs[second]) === 0) {
+    return null;
+  }
+  return first;
+};
+
+/**
+ * Advances every racer still running by one tick, each with their own input.
+ * A race to the portal ends the moment someone reaches it; a race for coins
+ * runs until every racer has finished, run out of time or run out of lives.
+ */
+export const stepRace = (race: RaceState, inputs: InputState[], dt: number): RaceState => {
+  if (race.status !== 'running') return race;
+  const runs = race.runs.map((run, index) => step(run, inputs[index], dt));
+  const done = runs.every((run) => run.status !== 'running');
+  const over = done || (race.rule === 'firstToPortal' && runs.some((run) => run.status === 'won'));
+  if (!over) return { ...race, runs };
+  const finished: RaceState = { ...race, runs, status: 'over' };
+  return { ...finished, winner: decideWinner(finished) };
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/** One sentence on how a finished race was decided, for the results screen. */
+export const describeRaceResult = (race: RaceState) => {
+  if (race.winner === null) {
+    return race.rule === 'firstToPortal' && !race.runs.some((run) => run.status === 'won')
+      ? 'Nobody reached the portal in time.'
+      : 'Dead heat: nothing separates the racers.';
+  }
+  const { name } = RACERS[race.winner];
+  const run = race.runs[race.winner];
+  if (race.rule === 'firstToPortal') {
+    return `${name} reached the portal first in ${(run.tick * FIXED_TIMESTEP).toFixed(2)}s with ${plural(run.collected, 'coin')}.`;
+  }
+  const [, runnerUp] = raceStandings(race);
+  if (runnerUp !== undefined && race.runs[runnerUp].collected === run.collected) {
+    return `Level on ${plural(run.collected, 'coin')}, so ${name} wins for reaching the portal sooner.`;
+  }
+  const tally = race.runs.map((other) => other.collected).join(' to ');
+  return `${name} collected the most coins, ${tally}.`;
+};
@@ -0,0 +1,770 @@
+import { poseOf, type AnimatedPlayer, type PlayerAnimation } from './animation';
+import type { Camera } from './camera';
+import { rectsOverlap } from './engine';
+import type { Particle } from './particles';
+import { CONVEYOR_SPEED, CRUMBLE_DELAY, type PlatformState } from './platforms';
+import { animationFrame, drawSprite, type SpriteAtlas } from './sprites';
+import type { Checkpoint, Coin, Enemy, Goal, Hazard, Platform, Rect, Size } from './types';
+
+/** Spacing of the decorative background grid; the editor snaps to it as well. */
+export const GRID_SIZE = 40;
+
+/** The grid scrolls at this fraction of the camera speed; the gradient stays put. */
+const GRID_PARALLAX = 0.5;
+
+/**
+ * Side of the square chunks static platforms are cached in, in logical pixels.
+ * Small enough that a chunk stays within browser canvas limits at any density.
+ */
+const PLATFORM_CHUNK_SIZE = 1024;
+
+/** Level data draws as-is; engine state adds crumble progress. */
+export type DrawablePlatform = Platform & Partial<Pick<PlatformState, 'crumbleTime'>>;
+
+/** Lasers in level data are drawn switched on; engine state says whether they are. */
+export type DrawableHazard = Hazard & { active?: boolean };
+
+export type DrawableEnemy = Enemy & { defeated?: boolean };
+
+/** Level data and ghosts only know where the player is; engine state also says how they move. */
+export type DrawablePlayer = Rect & Partial<AnimatedPlayer>;
+
+/** Recorded runs and other racers, drawn see-through over the player's own world. */
+export type DrawableGhost = DrawablePlayer & { tint?: string };
+
+export type Scene = {
+  platforms: DrawablePlatform[];
+  hazards?: DrawableHazard[];
+  enemies?: DrawableEnemy[];
+  checkpoints?: Checkpoint[];
+  /** Index of the checkpoint that is currently the respawn point. */
+  checkpoint?: number | null;
+  goal: Goal;
+  /** Draws the goal faded while touching it would not finish the run yet. */
+  goalLocked?: boolean;
+  coins: Coin[];
+  player: DrawablePlayer;
+  /** Pose tracked across frames; without it one is guessed from the player's motion. */
+  animation?: PlayerAnimation;
+  /** Vector shapes stand in for the player, coins and goal until an atlas has loaded. */
+  sprites?: SpriteAtlas | null;
+  /** Seconds of respawn grace left; the player blinks until it runs out. */
+  invulnerable?: number;
+  /** Washed over the player sprite, to tell local racers apart. */
+  tint?: string;
+  ghosts?: DrawableGhost[];
+  particles?: Particle[];
+  /** Squash (negative) or stretch (positive) of the player sprite, anchored at the feet. */
+  stretch?: number;
+  /** Outlines the collision boxes on top of everything, for debugging. */
+  hitboxes?: boolean;
+};
+
+export const drawRoundedRect = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+) => {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + width - r, y);
+  ctx.quadraticCurveTo(x + width, y, x + width, y + r);
+  ctx.lineTo(x + width, y + height - r);
+  ctx.quadraticCurveTo(x + width, y + height, x + width - r, y + height);
+  ctx.lineTo(x + r, y + height);
+  ctx.quadraticCurveTo(x, y + height, x, y + height - r);
+  ctx.lineTo(x, y + r);
+  ctx.quadraticCurveTo(x, y, x + r, y);
+  ctx.closePath();
+};
+
+export const drawBackground = (ctx: CanvasRenderingContext2D, camera: Camera) => {
+  // background gradient
+  const gradient = ctx.createLinearGradient(0, 0, 0, camera.height);
+  gradient.addColorStop(0, '#1f2a63');
+  gradient.addColorStop(1, '#0d0f1d');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, camera.width, camera.height);
+
+  // decorative grids
+  const offsetX = -((((camera.x * GRID_PARALLAX) % GRID_SIZE) + GRID_SIZE) % GRID_SIZE);
+  const offsetY = -((((camera.y * GRID_PARALLAX) % GRID_SIZE) + GRID_SIZE) % GRID_SIZE);
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+  ctx.lineWidth = 1;
+  for (let x = offsetX; x < camera.width; x += GRID_SIZE) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, camera.height);
+    ctx.stroke();
+  }
+  for (let y = offsetY; y < camera.height; y += GRID_SIZE) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(camera.width, y);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/** Moves the origin so that world coordinates can be drawn as-is. */
+export const applyCamera = (ctx: CanvasRenderingContext2D, camera: Camera) => {
+  ctx.translate(-Math.round(camera.x), -Math.round(camera.y));
+};
+
+/** Seconds a crumbled platform takes to fall out of view. */
+const CRUMBLE_FALL_TIME = 0.6;
+
+const CONVEYOR_CHEVRON_SPACING = 24;
+
+const fillSlab = (ctx: CanvasRenderingContext2D, platform: Rect, body: string, top: string) => {
+  ctx.fillStyle = body;
+  ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
+  ctx.fillStyle = top;
+  ctx.fillRect(platform.x, platform.y, platform.width, 6);
+};
+
+const drawMovingPlatform = (ctx: CanvasRenderingContext2D, platform: Platform) => {
+  fillSlab(ctx, platform, '#0d9488', '#2dd4bf');
+  ctx.fillStyle = '#134e4a';
+  const centerY = platform.y + platform.height / 2 + 2;
+  [platform.x + 8, platform.x + platform.width - 8].forEach((x) => {
+    ctx.beginPath();
+    ctx.arc(x, centerY, 3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+};
+
+const drawOneWayPlatform = (ctx: CanvasRenderingContext2D, platform: Platform) => {
+  ctx.fillStyle = 'rgba(148, 163, 184, 0.25)';
+  ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
+  ctx.fillStyle = '#cbd5e1';
+  ctx.fillRect(platform.x, platform.y, platform.width, 4);
+  ctx.strokeStyle = 'rgba(203, 213, 225, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let x = platform.x + 12; x < platform.x + platform.width - 6; x += 20) {
+    ctx.moveTo(x - 4, platform.y + platform.height - 3);
+    ctx.lineTo(x, platform.y + 7);
+    ctx.lineTo(x + 4, platform.y + platform.height - 3);
+  }
+  ctx.stroke();
+};
+
+const drawCrumblingPlatform = (ctx: CanvasRenderingContext2D, platform: DrawablePlatform) => {
+  const crumbleTime = platform.crumbleTime ?? null;
+  let offsetX = 0;
+  let offsetY = 0;
+  ctx.save();
+  if (crumbleTime !== null && crumbleTime < CRUMBLE_DELAY) {
+    offsetX = Math.sin(crumbleTime * 80) * 2;
+  } else if (crumbleTime !== null) {
+    const falling = crumbleTime - CRUMBLE_DELAY;
+    if (falling >= CRUMBLE_FALL_TIME) {
+      ctx.strokeStyle = 'rgba(202, 138, 4, 0.25)';
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
+      ctx.restore();
+      return;
+    }
+    offsetY = 600 * falling * falling;
+    ctx.globalAlpha = 1 - falling / CRUMBLE_FALL_TIME;
+  }
+  const rect = { ...platform, x: platform.x + offsetX, y: platform.y + offsetY };
+  fillSlab(ctx, rect, '#a16207', '#ca8a04');
+  ctx.strokeStyle = '#422006';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  for (let x = rect.x + 18; x < rect.x + rect.width - 8; x += 34) {
+    ctx.moveTo(x, rect.y + 6);
+    ctx.lineTo(x + 5, rect.y + rect.height / 2 + 2);
+    ctx.lineTo(x - 2, rect.y + rect.height);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawConveyorPlatform = (ctx: CanvasRenderingContext2D, platform: Platform, time: number) => {
+  fillSlab(ctx, platform, '#334155', '#64748b');
+  const speed = platform.speed ?? CONVEYOR_SPEED;
+  const direction = Math.sign(speed) || 1;
+  const shift =
+    (((time * speed) % CONVEYOR_CHEVRON_SPACING) + CONVEYOR_CHEVRON_SPACING) % CONVEYOR_CHEVRON_SPACING;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(platform.x, platform.y, platform.width, platform.height);
+  ctx.clip();
+  ctx.strokeStyle = '#fbbf24';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  const middle = platform.y + platform.height / 2 + 2;
+  for (
+    let x = platform.x - CONVEYOR_CHEVRON_SPACING + shift;
+    x < platform.x + platform.width + CONVEYOR_CHEVRON_SPACING;
+    x += CONVEYOR_CHEVRON_SPACING
+  ) {
+    ctx.moveTo(x - 3 * direction, middle - 4);
+    ctx.lineTo(x + 3 * direction, middle);
+    ctx.lineTo(x - 3 * direction, middle + 4);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const drawPlatforms = (
+  ctx: CanvasRenderingContext2D,
+  platforms: DrawablePlatform[],
+  time = 0,
+) => {
+  platforms.forEach((platform) => {
+    switch (platform.type) {
+      case 'bounce':
+        fillSlab(ctx, platform, '#fb923c', '#f97316');
+        break;
+      case 'moving':
+        drawMovingPlatform(ctx, platform);
+        break;
+      case 'oneWay':
+        drawOneWayPlatform(ctx, platform);
+        break;
+      case 'crumbling':
+        drawCrumblingPlatform(ctx, platform);
+        break;
+      case 'conveyor':
+        drawConveyorPlatform(ctx, platform, time);
+        break;
+      default:
+        fillSlab(ctx, platform, '#4f46e5', '#6366f1');
+        break;
+    }
+  });
+};
+
+/** Dashed loop through a moving platform's waypoints, for the editor. */
+export const drawPlatformPath = (ctx: CanvasRenderingContext2D, platform: Platform) => {
+  if (!platform.path?.length) return;
+  const stops = [platform, ...platform.path];
+  ctx.save();
+  ctx.strokeStyle = 'rgba(45, 212, 191, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  stops.forEach((stop, index) => {
+    const x = stop.x + platform.width / 2;
+    const y = stop.y + platform.height / 2;
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.stroke();
+  ctx.setLineDash([3, 3]);
+  platform.path.forEach((stop) => ctx.strokeRect(stop.x, stop.y, platform.width, platform.height));
+  ctx.restore();
+};
+
+export const drawHazards = (ctx: CanvasRenderingContext2D, hazards: DrawableHazard[], time: number) => {
+  hazards.forEach((hazard) => {
+    if (hazard.type === 'spikes') {
+      const count = Math.max(1, Math.round(hazard.width / 16));
+      const spike = hazard.width / count;
+      ctx.fillStyle = '#e2e8f0';
+      ctx.beginPath();
+      for (let index = 0; index < count; index += 1) {
+        const x = hazard.x + index * spike;
+        ctx.moveTo(x, hazard.y + hazard.height);
+        ctx.lineTo(x + spike / 2, hazard.y);
+        ctx.lineTo(x + spike, hazard.y + hazard.height);
+      }
+      ctx.fill();
+      ctx.fillStyle = '#94a3b8';
+      ctx.fillRect(hazard.x, hazard.y + hazard.height - 3, hazard.width, 3);
+      return;
+    }
+
+    const horizontal = hazard.width >= hazard.height;
+    const emitter = 10;
+    ctx.fillStyle = '#475569';
+    if (horizontal) {
+      ctx.fillRect(hazard.x - emitter / 2, hazard.y - 4, emitter, hazard.height + 8);
+      ctx.fillRect(hazard.x + hazard.width - emitter / 2, hazard.y - 4, emitter, hazard.height + 8);
+    } else {
+      ctx.fillRect(hazard.x - 4, hazard.y - emitter / 2, hazard.width + 8, emitter);
+      ctx.fillRect(hazard.x - 4, hazard.y + hazard.height - emitter / 2, hazard.width + 8, emitter);
+    }
+    if (hazard.active ?? true) {
+      const flicker = 0.75 + Math.sin(time * 30) * 0.25;
+      ctx.save();
+      ctx.globalAlpha = flicker;
+      ctx.shadowColor = '#f43f5e';
+      ctx.shadowBlur = 12;
+      ctx.fillStyle = '#fb7185';
+      ctx.fillRect(hazard.x, hazard.y, hazard.width, hazard.height);
+      ctx.restore();
+    } else {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(251, 113, 133, 0.3)';
+      ctx.setLineDash([4, 6]);
+      ctx.strokeRect(hazard.x, hazard.y, hazard.width, hazard.height);
+      ctx.restore();
+    }
+  });
+};
+
+export const drawEnemies = (ctx: CanvasRenderingContext2D, enemies: DrawableEnemy[]) => {
+  enemies.forEach((enemy) => {
+    if (enemy.defeated) return;
+    ctx.fillStyle = enemy.type === 'patrol' ? '#a855f7' : '#22c55e';
+    drawRoundedRect(ctx, enemy.x, enemy.y, enemy.width, enemy.height, 10);
+    ctx.fill();
+    ctx.fillStyle = '#f8fafc';
+    ctx.beginPath();
+    ctx.arc(enemy.x + enemy.width * 0.32, enemy.y + enemy.height * 0.4, 5, 0, Math.PI * 2);
+    ctx.arc(enemy.x + enemy.width * 0.68, enemy.y + enemy.height * 0.4, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.arc(enemy.x + enemy.width * 0.32, enemy.y + enemy.height * 0.45, 2, 0, Math.PI * 2);
+    ctx.arc(enemy.x + enemy.width * 0.68, enemy.y + enemy.height * 0.45, 2, 0, Math.PI * 2);
+    ctx.fill();
+  });
+};
+
+/** Dashed outline of the stretch a patroller walks, for the editor. */
+export const drawPatrolRange = (ctx: CanvasRenderingContext2D, enemy: Enemy, range: number) => {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(168, 85, 247, 0.5)';
+  ctx.setLineDash([4, 4]);
+  ctx.strokeRect(enemy.x, enemy.y, enemy.width + range, enemy.height);
+  ctx.restore();
+};
+
+export const drawCheckpoints = (
+  ctx: CanvasRenderingContext2D,
+  checkpoints: Checkpoint[],
+  active: number | null = null,
+) => {
+  checkpoints.forEach((flag, index) => {
+    const poleX = flag.x + 4;
+    ctx.fillStyle = '#cbd5e1';
+    ctx.fillRect(poleX, flag.y, 4, flag.height);
+    ctx.fillStyle = index === active ? '#34d399' : '#64748b';
+    ctx.beginPath();
+    ctx.moveTo(poleX + 4, flag.y + 2);
+    ctx.lineTo(flag.x + flag.width, flag.y + 12);
+    ctx.lineTo(poleX + 4, flag.y + 22);
+    ctx.closePath();
+    ctx.fill();
+  });
+};
+
+/** Colours of the vector shapes drawn when no sprites are available. */
+const PALETTE = {
+  goal: '#22d3ee',
+  goalTop: '#0ea5e9',
+  goalGlass: 'rgba(255,255,255,0.35)',
+  coin: '#facc15',
+  coinShine: '#fde047',
+  player: '#f472b6',
+  playerEyes: '#1f2937',
+};
+
+/** How faint a goal that is still shut is drawn. */
+const LOCKED_GOAL_ALPHA = 0.3;
+
+export const drawGoal = (
+  ctx: CanvasRenderingContext2D,
+  goal: Goal,
+  time = 0,
+  sprites?: SpriteAtlas | null,
+  locked = false,
+) => {
+  ctx.save();
+  if (locked) ctx.globalAlpha = LOCKED_GOAL_ALPHA;
+  const frame = sprites && animationFrame(sprites, 'goal', time);
+  if (sprites && frame) {
+    drawSprite(ctx, sprites, frame, goal);
+  } else {
+    ctx.fillStyle = PALETTE.goal;
+    ctx.fillRect(goal.x, goal.y, goal.width, goal.height);
+    ctx.fillStyle = PALETTE.goalTop;
+    ctx.fillRect(goal.x, goal.y, goal.width, 8);
+    ctx.fillStyle = PALETTE.goalGlass;
+    ctx.fillRect(goal.x + 12, goal.y + 16, goal.width - 24, goal.height - 32);
+  }
+  ctx.restore();
+};
+
+export const drawCoins = (
+  ctx: CanvasRenderingContext2D,
+  coins: Coin[],
+  time: number,
+  sprites?: SpriteAtlas | null,
+) => {
+  coins.forEach((coin) => {
+    if (!coin.active) return;
+    const bounce = Math.sin(time * 4 + coin.spinOffset) * 4;
+    // Offsetting each coin's clock keeps them from spinning in lockstep
+    const frame = sprites && animationFrame(sprites, 'coin', time + coin.spinOffset);
+    if (sprites && frame) {
+      drawSprite(ctx, sprites, frame, {
+        x: coin.x,
+        y: coin.y + bounce - coin.height / 2,
+        width: coin.width,
+        height: coin.height,
+      });
+      return;
+    }
+    const shimmer = (Math.sin(time * 6 + coin.spinOffset) + 1) / 2;
+    const width = coin.width * (0.7 + shimmer * 0.3);
+
+    ctx.save();
+    ctx.translate(coin.x + coin.width / 2, coin.y + bounce);
+    ctx.fillStyle = PALETTE.coin;
+    ctx.beginPath();
+    ctx.ellipse(0, 0, width / 2, coin.height / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = PALETTE.coinShine;
+    ctx.beginPath();
+    ctx.ellipse(0, 0, (width / 2) * 0.6, (coin.height / 2) * 0.6, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+};
+
+const guessPose = (player: DrawablePlayer, time: number) =>
+  poseOf({ vx: player.vx ?? 0, vy: player.vy ?? 0, onGround: player.onGround ?? true }, time);
+
+/** How much of a tint colour shows through on a sprite, from 0 to 1. */
+const TINT_STRENGTH = 0.55;
+
+/** Scratch space for tinting sprite frames, reused from frame to frame. */
+let tintLayer: Layer | null = null;
+
+const drawTintedSprite = (
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas,
+  frame: Rect,
+  target: Rect,
+  flip: boolean,
+  tint: string,
+) => {
+  // Match the backing pixels the frame covers, so tinted sprites stay as sharp as plain ones
+  const scale = Math.max(1, Math.ceil(Math.abs(ctx.getTransform().a)));
+  if (tintLayer?.width !== target.width || tintLayer.height !== target.height || tintLayer.scale !== scale) {
+    tintLayer = createLayer(target.width, target.height, scale);
+  }
+  const layer = tintLayer.ctx;
+  layer.globalCompositeOperation = 'source-over';
+  layer.globalAlpha = 1;
+  layer.clearRect(0, 0, target.width, target.height);
+  drawSprite(layer, atlas, frame, { x: 0, y: 0, width: target.width, height: target.height }, flip);
+  // Only colours the pixels the frame painted, leaving its outline transparent
+  layer.globalCompositeOperation = 'source-atop';
+  layer.globalAlpha = TINT_STRENGTH;
+  layer.fillStyle = tint;
+  layer.fillRect(0, 0, target.width, target.height);
+  ctx.drawImage(tintLayer.canvas, target.x, target.y, target.width, target.height);
+};
+
+/** Sprite frames are drawn at their own size, standing on the bottom of the hitbox. */
+export const drawPlayer = (
+  ctx: CanvasRenderingContext2D,
+  player: DrawablePlayer,
+  sprites?: SpriteAtlas | null,
+  animation: PlayerAnimation = guessPose(player, 0),
+  tint?: string,
+) => {
+  const frame = sprites && animationFrame(sprites, animation.state, animation.time);
+  if (sprites && frame) {
+    const target = {
+      x: player.x + player.width / 2 - frame.width / 2,
+      y: player.y + player.height - frame.height,
+      width: frame.width,
+      height: frame.height,
+    };
+    if (tint) {
+      drawTintedSprite(ctx, sprites, frame, target, animation.facing < 0, tint);
+    } else {
+      drawSprite(ctx, sprites, frame, target, animation.facing < 0);
+    }
+    return;
+  }
+  ctx.save();
+  ctx.translate(player.x + player.width / 2, player.y + player.height / 2);
+  ctx.fillStyle = tint ?? PALETTE.player;
+  drawRoundedRect(
+    ctx,
+    -player.width / 2,
+    -player.height / 2,
+    player.width,
+    player.height,
+    12,
+  );
+  ctx.fill();
+
+  ctx.fillStyle = PALETTE.playerEyes;
+  ctx.beginPath();
+  ctx.arc(-6, -6, 5, 0, Math.PI * 2);
+  ctx.arc(6, -6, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+/** A translucent copy of the player sprite for racing against earlier runs. */
+export const drawGhost = (
+  ctx: CanvasRenderingContext2D,
+  ghost: DrawableGhost,
+  sprites?: SpriteAtlas | null,
+) => {
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  drawPlayer(ctx, ghost, sprites, undefined, ghost.tint);
+  ctx.restore();
+};
+
+export const drawParticles = (ctx: CanvasRenderingContext2D, particles: Particle[]) => {
+  ctx.save();
+  particles.forEach((particle) => {
+    if (!particle.active) return;
+    const { x, y, size } = particle;
+    ctx.globalAlpha = 1 - particle.age / particle.life;
+    ctx.fillStyle = particle.color;
+    ctx.strokeStyle = particle.color;
+    switch (particle.shape) {
+      case 'ring':
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.ellipse(x, y, size, size * 0.35, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 'square':
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(particle.rotation);
+        ctx.fillRect(-size / 2, -size / 4, size, size / 2);
+        ctx.restore();
+        break;
+      default:
+        ctx.beginPath();
+        ctx.arc(x, y, size, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+    }
+  });
+  ctx.restore();
+};
+
+const HITBOX_COLORS = {
+  platform: '#22d3ee',
+  hazard: '#f43f5e',
+  enemy: '#fb923c',
+  coin: '#facc15',
+  goal: '#a78bfa',
+  player: '#4ade80',
+};
+
+const strokeBox = (ctx: CanvasRenderingContext2D, box: Rect, color: string) => {
+  ctx.strokeStyle = color;
+  ctx.strokeRect(box.x + 0.5, box.y + 0.5, box.width - 1, box.height - 1);
+};
+
+/** Outlines the boxes the engine collides with, as opposed to what the sprites look like. */
+export const drawHitboxes = (ctx: CanvasRenderingContext2D, scene: Scene) => {
+  ctx.save();
+  ctx.lineWidth = 1;
+  scene.platforms.forEach((platform) => strokeBox(ctx, platform, HITBOX_COLORS.platform));
+  scene.hazards?.forEach((hazard) => {
+    if (hazard.active !== false) strokeBox(ctx, hazard, HITBOX_COLORS.hazard);
+  });
+  scene.enemies?.forEach((enemy) => {
+    if (!enemy.defeated) strokeBox(ctx, enemy, HITBOX_COLORS.enemy);
+  });
+  scene.coins.forEach((coin) => {
+    if (coin.active) strokeBox(ctx, coin, HITBOX_COLORS.coin);
+  });
+  strokeBox(ctx, scene.goal, HITBOX_COLORS.goal);
+  strokeBox(ctx, scene.player, HITBOX_COLORS.player);
+  ctx.restore();
+};
+
+/** Platforms that look the same every frame, so they can be drawn once and reused. */
+const isStaticPlatform = (platform: DrawablePlatform) =>
+  platform.type !== 'moving' && platform.type !== 'crumbling' && platform.type !== 'conveyor';
+
+/**
+ * Sets up `ctx` so that logical view coordinates fill its canvas, whatever the
+ * canvas's pixel density. Returns the device pixels per logical pixel.
+ */
+export const applyPixelScale = (ctx: CanvasRenderingContext2D, view: Size) => {
+  const scaleX = ctx.canvas.width / view.width;
+  const scaleY = ctx.canvas.height / view.height;
+  ctx.setTransform(scaleX, 0, 0, scaleY, 0, 0);
+  return scaleX;
+};
+
+/** An offscreen canvas of `width` × `height` logical pixels, `scale` device pixels each. */
+const createLayer = (width: number, height: number, scale: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width * scale));
+  canvas.height = Math.max(1, Math.ceil(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is unavailable');
+  ctx.scale(scale, scale);
+  return { canvas, ctx, width, height, scale };
+};
+
+type Layer = ReturnType<typeof createLayer>;
+
+/** A cached slice of the static platforms; `null` where no platform crosses it. */
+type PlatformChunk = { column: number; row: number; layer: Layer | null };
+
+const sameItems = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Draws scenes into `ctx`. The background gradient, grid and static platforms
+ * are painted once into offscreen layers and copied each frame; they are
+ * repainted only when the view size, the pixel density or the static
+ * platforms change. Engine state keeps static platform objects between ticks,
+ * so a new run is what usually triggers that. Static platforms are cached in
+ * chunks around the view rather than as one layer, which could outgrow what a
+ * canvas may hold on large worlds.
+ */
+export const createRenderer = (ctx: CanvasRenderingContext2D) => {
+  let background: Layer | null = null;
+  let grid: { pattern: CanvasPattern; tileSize: number } | null = null;
+  let platforms: { source: DrawablePlatform[]; scale: number; chunks: Map<string, PlatformChunk> } | null =
+    null;
+
+  const drawCachedBackground = (camera: Camera, scale: number) => {
+    if (
+      background?.width !== camera.width ||
+      background.height !== camera.height ||
+      background.scale !== scale
+    ) {
+      background = createLayer(camera.width, camera.height, scale);
+      const gradient = background.ctx.createLinearGradient(0, 0, 0, camera.height);
+      gradient.addColorStop(0, '#1f2a63');
+      gradient.addColorStop(1, '#0d0f1d');
+      background.ctx.fillStyle = gradient;
+      background.ctx.fillRect(0, 0, camera.width, camera.height);
+    }
+    ctx.drawImage(background.canvas, 0, 0, camera.width, camera.height);
+
+    // One-device-pixel lines, so the grid stays crisp at any density
+    const tileSize = Math.max(1, Math.round(GRID_SIZE * scale));
+    if (grid?.tileSize !== tileSize) {
+      const tile = createLayer(tileSize, tileSize, 1);
+      tile.ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+      tile.ctx.fillRect(0, 0, tileSize, 1);
+      tile.ctx.fillRect(0, 1, 1, tileSize - 1);
+      const pattern = ctx.createPattern(tile.canvas, 'repeat');
+      if (!pattern) return;
+      pattern.setTransform(new DOMMatrix().scaleSelf(GRID_SIZE / tileSize));
+      grid = { pattern, tileSize };
+    }
+    const offsetX = -((((camera.x * GRID_PARALLAX) % GRID_SIZE) + GRID_SIZE) % GRID_SIZE);
+    const offsetY = -((((camera.y * GRID_PARALLAX) % GRID_SIZE) + GRID_SIZE) % GRID_SIZE);
+    ctx.save();
+    ctx.translate(Math.round(offsetX), Math.round(offsetY));
+    ctx.fillStyle = grid.pattern;
+    ctx.fillRect(0, 0, camera.width + GRID_SIZE, camera.height + GRID_SIZE);
+    ctx.restore();
+  };
+
+  const createPlatformChunk = (source: DrawablePlatform[], column: number, row: number, scale: number) => {
+    const bounds = {
+      x: column * PLATFORM_CHUNK_SIZE,
+      y: row * PLATFORM_CHUNK_SIZE,
+      width: PLATFORM_CHUNK_SIZE,
+      height: PLATFORM_CHUNK_SIZE,
+    };
+    const inside = source.filter((platform) => rectsOverlap(platform, bounds));
+    if (inside.length === 0) return { column, row, layer: null };
+    const layer = createLayer(bounds.width, bounds.height, scale);
+    layer.ctx.translate(-bounds.x, -bounds.y);
+    drawPlatforms(layer.ctx, inside);
+    return { column, row, layer };
+  };
+
+  const drawStaticPlatforms = (source: DrawablePlatform[], camera: Camera, scale: number) => {
+    if (!platforms || platforms.scale !== scale || !sameItems(platforms.source, source)) {
+      platforms = { source, scale, chunks: new Map() };
+    }
+    const { chunks } = platforms;
+    const left = Math.floor(camera.x / PLATFORM_CHUNK_SIZE);
+    const top = Math.floor(camera.y / PLATFORM_CHUNK_SIZE);
+    const right = Math.floor((camera.x + camera.width) / PLATFORM_CHUNK_SIZE);
+    const bottom = Math.floor((camera.y + camera.height) / PLATFORM_CHUNK_SIZE);
+
+    // Chunks a step past the view are kept for when the camera turns back
+    chunks.forEach((chunk, key) => {
+      if (chunk.column < left - 1 || chunk.column > right + 1 || chunk.row < top - 1 || chunk.row > bottom + 1) {
+        chunks.delete(key);
+      }
+    });
+    for (let row = top; row <= bottom; row += 1) {
+      for (let column = left; column <= right; column += 1) {
+        const key = `${column},${row}`;
+        let chunk = chunks.get(key);
+        if (!chunk) {
+          chunk = createPlatformChunk(source, column, row, scale);
+          chunks.set(key, chunk);
+        }
+        if (chunk.layer) {
+          ctx.drawImage(
+            chunk.layer.canvas,
+            column * PLATFORM_CHUNK_SIZE,
+            row * PLATFORM_CHUNK_SIZE,
+            PLATFORM_CHUNK_SIZE,
+            PLATFORM_CHUNK_SIZE,
+          );
+        }
+      }
+    }
+  };
+
+  return {
+    draw: (scene: Scene, camera: Camera, time: number) => {
+      const scale = applyPixelScale(ctx, camera);
+      ctx.clearRect(0, 0, camera.width, camera.height);
+      drawCachedBackground(camera, scale);
+      ctx.save();
+      applyCamera(ctx, camera);
+      drawStaticPlatforms(scene.platforms.filter(isStaticPlatform), camera, scale);
+      drawPlatforms(
+        ctx,
+        scene.platforms.filter((platform) => !isStaticPlatform(platform)),
+        time,
+      );
+      drawHazards(ctx, scene.hazards ?? [], time);
+      drawCheckpoints(ctx, scene.checkpoints ?? [], scene.checkpoint);
+      drawGoal(ctx, scene.goal, time, scene.sprites, scene.goalLocked);
+      drawCoins(ctx, scene.coins, time, scene.sprites);
+      drawEnemies(ctx, scene.enemies ?? []);
+      scene.ghosts?.forEach((ghost) => drawGhost(ctx, ghost, scene.sprites));
+      if (!scene.invulnerable || Math.floor(time * 12) % 2 === 0) {
+        const { player, stretch = 0 } = scene;
+        ctx.save();
+        if (stretch !== 0) {
+          const feetX = player.x + player.width / 2;
+          const feetY = player.y + player.height;
+          ctx.translate(feetX, feetY);
+          ctx.scale(1 - stretch * 0.6, 1 + stretch);
+          ctx.translate(-feetX, -feetY);
+        }
+        drawPlayer(ctx, player, scene.sprites, scene.animation ?? guessPose(player, time), scene.tint);
+        ctx.restore();
+      }
+      if (scene.particles) drawParticles(ctx, scene.particles);
+      if (scene.hitboxes) drawHitboxes(ctx, scene);
+      ctx.restore();
+    },
+  };
+};
+
+export type Renderer = ReturnType<typeof createRenderer>;
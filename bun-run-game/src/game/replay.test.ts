@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { applyTuning, readTuning } from './debug';
+import { createInput, FIXED_TIMESTEP, step } from './engine';
+import { LEVELS } from './levels';
+import { createRun, getGameMode } from './modes';
+import { createRecorder, parseReplay, serializeReplay, simulateReplay } from './replay';
+
+describe('replays of tuned runs', () => {
+  test('start with the tuned time limit', () => {
+    const level = LEVELS[0];
+    const untuned = createRun(getGameMode('classic'), level);
+    const tuning = { ...readTuning(untuned), timeLimit: 5 };
+    let state = applyTuning(untuned, tuning);
+    const recorder = createRecorder(tuning.timeLimit);
+    while (state.status === 'running') {
+      recorder.record(createInput());
+      state = step(state, createInput(), FIXED_TIMESTEP);
+    }
+
+    const replay = parseReplay(serializeReplay(recorder.finish(state, FIXED_TIMESTEP)));
+    const frames = simulateReplay(replay, level);
+
+    expect(frames[0].timeLimit).toBe(5);
+    expect(frames[frames.length - 1].status).toBe('lost');
+    expect(frames.length - 1).toBe(replay.ticks);
+  });
+});
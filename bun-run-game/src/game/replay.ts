@@ -0,0 +1,190 @@
+import { DEFAULT_MOVEMENT_PRESET, MOVEMENT_PRESETS, type MovementProfile } from './config';
+import { ENGINE_VERSION, type EngineState } from './engine';
+import { createRun, DEFAULT_GAME_MODE, getGameMode, isGameModeId, stepRun, type GameModeId } from './modes';
+import type { GameStatus, InputState, LevelDefinition } from './types';
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** One `[mask, count]` run per stretch of identical ticks; see `INPUT_BITS` for the mask. */
+export type InputRun = [number, number];
+
+export type ReplayResult = {
+  status: GameStatus;
+  collected: number;
+  timeLeft: number;
+};
+
+export type Replay = {
+  version: number;
+  engineVersion: number;
+  levelId: string;
+  timestep: number;
+  /** Movement tuning the run was played with; missing values fall back to the default preset. */
+  movement?: Partial<MovementProfile>;
+  /** Game mode the run was played in; missing means the classic rules. */
+  mode?: GameModeId;
+  /** Time limit the run started with when tuning changed it; missing means the mode's own. */
+  timeLimit?: number;
+  recordedAt: string;
+  ticks: number;
+  inputs: InputRun[];
+  result: ReplayResult;
+};
+
+export class ReplayFormatError extends Error {
+  constructor(source: string, problem: string) {
+    super(`${source} is not a valid replay: ${problem}`);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+const INPUT_BITS: [keyof InputState, number][] = [
+  ['left', 1],
+  ['right', 2],
+  ['jump', 4],
+  ['jumpBuffer', 8],
+  ['down', 16],
+];
+
+const encodeInput = (input: InputState) =>
+  INPUT_BITS.reduce((mask, [key, bit]) => (input[key] ? mask | bit : mask), 0);
+
+const decodeInput = (mask: number): InputState => ({
+  left: (mask & 1) !== 0,
+  right: (mask & 2) !== 0,
+  jump: (mask & 4) !== 0,
+  jumpBuffer: (mask & 8) !== 0,
+  down: (mask & 16) !== 0,
+});
+
+export const encodeInputs = (inputs: InputState[]): InputRun[] =>
+  inputs.reduce<InputRun[]>((runs, input) => {
+    const mask = encodeInput(input);
+    const last = runs[runs.length - 1];
+    if (last && last[0] === mask) {
+      last[1] += 1;
+    } else {
+      runs.push([mask, 1]);
+    }
+    return runs;
+  }, []);
+
+export const decodeInputs = (runs: InputRun[]): InputState[] =>
+  runs.flatMap(([mask, count]) => Array.from({ length: count }, () => decodeInput(mask)));
+
+/**
+ * Collects the input fed to every engine tick of a run. `timeLimit` is the
+ * limit the run started with, if debug tuning changed it.
+ */
+export const createRecorder = (timeLimit?: number) => {
+  const inputs: InputState[] = [];
+  return {
+    record: (input: InputState) => {
+      inputs.push({ ...input });
+    },
+    finish: (state: EngineState, timestep: number, mode: GameModeId = DEFAULT_GAME_MODE): Replay => ({
+      version: REPLAY_FORMAT_VERSION,
+      engineVersion: ENGINE_VERSION,
+      levelId: state.levelId,
+      timestep,
+      movement: state.movement,
+      mode,
+      timeLimit,
+      recordedAt: new Date().toISOString(),
+      ticks: inputs.length,
+      inputs: encodeInputs(inputs),
+      result: {
+        status: state.status,
+        collected: state.collected,
+        timeLeft: state.timeLeft,
+      },
+    }),
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+/**
+ * Re-runs a replay through the engine and returns every intermediate state,
+ * starting with the initial one, so a viewer can seek to any tick instantly.
+ */
+export const simulateReplay = (replay: Replay, level: LevelDefinition): EngineState[] => {
+  const mode = getGameMode(replay.mode ?? DEFAULT_GAME_MODE);
+  const start = createRun(mode, level, { ...MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET], ...replay.movement });
+  const { timeLimit = start.timeLimit } = replay;
+  const frames = [{ ...start, timeLimit, timeLeft: timeLimit }];
+  decodeInputs(replay.inputs).forEach((input) => {
+    frames.push(stepRun(mode, frames[frames.length - 1], input, replay.timestep));
+  });
+  return frames;
+};
+
+const isMovementProfile = (value: unknown): value is Partial<MovementProfile> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  return Object.entries(MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET]).every(
+    ([key, fallback]) => profile[key] === undefined || typeof profile[key] === typeof fallback,
+  );
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const parseReplay = (text: string, source = 'Replay'): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ReplayFormatError(
+      source,
+      `could not be parsed as JSON (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new ReplayFormatError(source, 'expected an object');
+  }
+  const replay = data as Partial<Replay>;
+  if (replay.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(source, `unsupported format version ${String(replay.version)}`);
+  }
+  if (typeof replay.levelId !== 'string' || replay.levelId.length === 0) {
+    throw new ReplayFormatError(source, 'levelId must be a non-empty string');
+  }
+  if (!isCount(replay.engineVersion)) {
+    throw new ReplayFormatError(source, 'engineVersion must be a whole number');
+  }
+  if (typeof replay.timestep !== 'number' || !(replay.timestep > 0)) {
+    throw new ReplayFormatError(source, 'timestep must be a positive number');
+  }
+  if (replay.movement !== undefined && !isMovementProfile(replay.movement)) {
+    throw new ReplayFormatError(source, 'movement must be a movement profile');
+  }
+  if (replay.mode !== undefined && !isGameModeId(replay.mode)) {
+    throw new ReplayFormatError(source, `unknown game mode ${String(replay.mode)}`);
+  }
+  if (replay.timeLimit !== undefined && !(typeof replay.timeLimit === 'number' && replay.timeLimit > 0)) {
+    throw new ReplayFormatError(source, 'timeLimit must be a positive number');
+  }
+  if (
+    !Array.isArray(replay.inputs) ||
+    !replay.inputs.every(
+      (run) => Array.isArray(run) && run.length === 2 && isCount(run[0]) && run[0] < 32 && isCount(run[1]),
+    )
+  ) {
+    throw new ReplayFormatError(source, 'inputs must be a list of [mask, count] pairs');
+  }
+  const ticks = replay.inputs.reduce((total, [, count]) => total + count, 0);
+  if (replay.ticks !== ticks) {
+    throw new ReplayFormatError(source, `ticks says ${String(replay.ticks)} but the inputs cover ${ticks}`);
+  }
+  if (typeof replay.result !== 'object' || replay.result === null) {
+    throw new ReplayFormatError(source, 'result is missing');
+  }
+  return replay as Replay;
+};
+
+export const serializeReplay = (replay: Replay) => `${JSON.stringify(replay)}\n`;
+
+/** localStorage key of the most recently finished run. */
+export const LAST_REPLAY_KEY = 'bun-run:last-replay';
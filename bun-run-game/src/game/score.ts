@@ -0,0 +1,47 @@
+import type { EngineState } from './engine';
+
+export const SCORING = {
+  pointsPerSecondLeft: 100,
+  pointsPerCoin: 250,
+  respawnPenalty: 300,
+  allCoinsBonus: 1000,
+  pointsPerMetre: 50,
+};
+
+/** `'exit'` rewards reaching the goal quickly; `'climb'` rewards height, for runs without a goal to reach. */
+export type Scoring = 'exit' | 'climb';
+
+/** Pixels of height per metre climbed, one background grid square. */
+const METRE = 40;
+
+export type ScoreBreakdown = {
+  time: number;
+  coins: number;
+  respawns: number;
+  allCoins: number;
+  height: number;
+  total: number;
+};
+
+/** Whole metres the player stands above where the run started. */
+export const metresClimbed = (state: EngineState) =>
+  Math.max(0, Math.floor((state.spawn.y - state.player.y) / METRE));
+
+/** Scores a finished run. Remaining time only counts when the exit was reached. */
+export const scoreRun = (state: EngineState, scoring: Scoring = 'exit'): ScoreBreakdown => {
+  const climbing = scoring === 'climb';
+  const time = state.status === 'won' ? Math.round(state.timeLeft * SCORING.pointsPerSecondLeft) : 0;
+  const coins = state.collected * SCORING.pointsPerCoin;
+  const respawns = -state.respawns * SCORING.respawnPenalty;
+  const allCoins =
+    !climbing && state.coins.length > 0 && state.collected === state.coins.length ? SCORING.allCoinsBonus : 0;
+  const height = climbing ? metresClimbed(state) * SCORING.pointsPerMetre : 0;
+  return {
+    time,
+    coins,
+    respawns,
+    allCoins,
+    height,
+    total: Math.max(0, time + coins + respawns + allCoins + height),
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { LEVEL_FORMAT_VERSION } from './levels/loader';
+import { checkLevel } from './solvability';
+import type { LevelDefinition, Platform, Rect } from './types';
+
+const floor: Platform = { x: 0, y: 500, width: 960, height: 40, type: 'solid' };
+
+const testLevel = (platforms: Platform[], coins: Rect[]): LevelDefinition => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'test',
+  name: 'Test',
+  timeLimit: 75,
+  world: { width: 960, height: 540 },
+  spawn: { x: 40, y: 420 },
+  goal: { x: 400, y: 400, width: 80, height: 100 },
+  platforms: [floor, ...platforms],
+  coins,
+  hazards: [],
+  enemies: [],
+  checkpoints: [],
+});
+
+const coin = (x: number, y: number): Rect => ({ x, y, width: 24, height: 24 });
+
+describe('checkLevel', () => {
+  test('passes a level whose coins are all in reach', () => {
+    const check = checkLevel(testLevel([], [coin(300, 460), coin(600, 460)]));
+
+    expect(check.completable).toBe(true);
+    expect(check.unreachableCoins).toEqual([]);
+    expect(check.allCoinsTime).not.toBeNull();
+  });
+
+  test('fails a level with a coin walled off from the player', () => {
+    const wall: Platform = { x: 700, y: 0, width: 20, height: 500, type: 'solid' };
+    const check = checkLevel(testLevel([wall], [coin(300, 460), coin(840, 460)]));
+
+    expect(check.goalReachable).toBe(true);
+    expect(check.unreachableCoins).toEqual([1]);
+    expect(check.allCoinsTime).toBeNull();
+    expect(check.completable).toBe(false);
+  });
+
+  test('counts the detours to every coin on top of the way to the goal', () => {
+    const ledge: Platform = { x: 40, y: 380, width: 120, height: 16, type: 'solid' };
+    const check = checkLevel(testLevel([ledge], [coin(88, 300)]));
+
+    expect(check.minimumTime).not.toBeNull();
+    expect(check.allCoinsTime).toBeGreaterThan(check.minimumTime ?? Infinity);
+  });
+});
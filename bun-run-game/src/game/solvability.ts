@@ -0,0 +1,106 @@
+import { DEFAULT_MOVEMENT_PRESET, MOVEMENT_PRESETS, type MovementProfile } from './config';
+import { createNavGraph } from './navigation';
+import type { LevelDefinition, Rect } from './types';
+
+export type LevelCheck = {
+  levelId: string;
+  /** Indices into `level.platforms` that no route lands on. */
+  unreachablePlatforms: number[];
+  /** Indices into `level.coins` that no route touches. */
+  unreachableCoins: number[];
+  goalReachable: boolean;
+  /** Estimated seconds from the spawn to the goal along the fastest route, or `null` without one. */
+  minimumTime: number | null;
+  /**
+   * Estimated seconds to collect every coin and then reach the goal, taking
+   * the nearest coin next each time, or `null` if any of them is out of reach.
+   */
+  allCoinsTime: number | null;
+  timeLimit: number;
+  /** Whether the goal can be reached within the time limit, and every coin reached at all. */
+  completable: boolean;
+};
+
+/**
+ * Works out what a level's player can reach from its spawn, using the jump
+ * arcs that `movement` produces and each bounce pad's launch speed. Routes
+ * are estimated over a `createNavGraph` rather than played, so the check is
+ * generous about what it ignores but never rejects a level that a plain run
+ * of jumps and bounces can finish.
+ */
+export const checkLevel = (
+  level: LevelDefinition,
+  movement: MovementProfile = MOVEMENT_PRESETS[DEFAULT_MOVEMENT_PRESET],
+): LevelCheck => {
+  const graph = createNavGraph(level, movement);
+  const { player, spots } = graph;
+  const { times } = graph.search(
+    graph.landOn(level.spawn.x + player.width / 2, level.spawn.y + player.height),
+  );
+  const earliestTouch = (target: Rect) => graph.nearestTouch(times, target)?.time ?? Infinity;
+
+  const coinRoute = () => {
+    let current = times;
+    const left = [...level.coins];
+    while (left.length > 0) {
+      let nearest: { index: number; spot: number; time: number } | null = null;
+      for (let index = 0; index < left.length; index += 1) {
+        const touch = graph.nearestTouch(current, left[index]);
+        if (!touch) return null;
+        if (nearest === null || touch.time < nearest.time) nearest = { index, spot: touch.spot, time: touch.time };
+      }
+      if (nearest === null) break;
+      left.splice(nearest.index, 1);
+      // Carry on from where the coin was reached, with the time spent so far as a head start
+      current = graph.search(new Map([[nearest.spot, nearest.time]])).times;
+    }
+    return graph.nearestTouch(current, level.goal)?.time ?? null;
+  };
+
+  const reachedPlatforms = new Set(
+    spots.filter((_, index) => times[index] < Infinity).map(({ surface }) => surface.platform),
+  );
+  const goalTime = earliestTouch(level.goal);
+  const minimumTime = goalTime < Infinity ? goalTime : null;
+  const unreachableCoins = level.coins
+    .map((_, index) => index)
+    .filter((index) => earliestTouch(level.coins[index]) === Infinity);
+
+  return {
+    levelId: level.id,
+    unreachablePlatforms: level.platforms
+      .map((_, index) => index)
+      .filter((index) => !reachedPlatforms.has(index)),
+    unreachableCoins,
+    goalReachable: minimumTime !== null,
+    minimumTime,
+    allCoinsTime: minimumTime !== null && unreachableCoins.length === 0 ? coinRoute() : null,
+    timeLimit: level.timeLimit,
+    // Coin Rush keeps the goal shut until every coin is collected, so a coin out of reach fails the level
+    completable: minimumTime !== null && minimumTime <= level.timeLimit && unreachableCoins.length === 0,
+  };
+};
+
+/** Plain-text summary of a check, one finding per line. */
+export const describeLevelCheck = (check: LevelCheck) => {
+  const lines = [
+    `${check.completable ? 'ok  ' : 'FAIL'} ${check.levelId}: ${
+      check.minimumTime === null
+        ? 'the goal cannot be reached'
+        : `about ${check.minimumTime.toFixed(1)}s to the goal of ${check.timeLimit}s allowed`
+    }`,
+  ];
+  if (check.minimumTime !== null && check.minimumTime > check.timeLimit) {
+    lines.push('     the fastest route takes longer than the time limit');
+  }
+  if (check.allCoinsTime !== null) {
+    lines.push(`     about ${check.allCoinsTime.toFixed(1)}s to collect every coin on the way`);
+  }
+  if (check.unreachableCoins.length) {
+    lines.push(`     unreachable coins: ${check.unreachableCoins.map((index) => `#${index}`).join(', ')}`);
+  }
+  if (check.unreachablePlatforms.length) {
+    lines.push(`     unreachable platforms: ${check.unreachablePlatforms.map((index) => `#${index}`).join(', ')}`);
+  }
+  return lines.join('\n');
+};
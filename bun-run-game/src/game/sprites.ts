@@ -0,0 +1,149 @@
+import type { Rect } from './types';
+
+/** Served from `public/`; the JSON names the image and where each frame sits in it. */
+export const SPRITE_ATLAS_URL = '/sprites/atlas.json';
+
+export type SpriteAnimation = {
+  frames: string[];
+  fps: number;
+  /** Non-looping animations hold their last frame. */
+  loop: boolean;
+};
+
+export type SpriteAtlasData = {
+  image: string;
+  frames: Record<string, Rect>;
+  animations: Record<string, SpriteAnimation>;
+};
+
+export type SpriteAtlas = Omit<SpriteAtlasData, 'image'> & {
+  image: CanvasImageSource;
+};
+
+export class SpriteAtlasError extends Error {
+  constructor(source: string, problem: string) {
+    super(`${source} is not a valid sprite atlas: ${problem}`);
+    this.name = 'SpriteAtlasError';
+  }
+}
+
+const isRect = (value: unknown): value is Rect => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rect = value as Record<string, unknown>;
+  return ['x', 'y', 'width', 'height'].every((key) => typeof rect[key] === 'number');
+};
+
+export const parseSpriteAtlas = (data: unknown, source = 'Sprite atlas'): SpriteAtlasData => {
+  if (typeof data !== 'object' || data === null) {
+    throw new SpriteAtlasError(source, 'expected an object');
+  }
+  const atlas = data as Partial<SpriteAtlasData>;
+  if (typeof atlas.image !== 'string' || atlas.image.length === 0) {
+    throw new SpriteAtlasError(source, 'image must be a non-empty string');
+  }
+  if (typeof atlas.frames !== 'object' || atlas.frames === null || !Object.values(atlas.frames).every(isRect)) {
+    throw new SpriteAtlasError(source, 'frames must map names to rectangles');
+  }
+  const { frames } = atlas;
+  if (typeof atlas.animations !== 'object' || atlas.animations === null) {
+    throw new SpriteAtlasError(source, 'animations is missing');
+  }
+  Object.entries(atlas.animations).forEach(([name, animation]) => {
+    if (
+      !Array.isArray(animation?.frames) ||
+      animation.frames.length === 0 ||
+      !(animation.fps > 0) ||
+      typeof animation.loop !== 'boolean'
+    ) {
+      throw new SpriteAtlasError(source, `animation "${name}" needs frames, a positive fps and loop`);
+    }
+    const missing = animation.frames.find((frame) => !(frame in frames));
+    if (missing !== undefined) {
+      throw new SpriteAtlasError(source, `animation "${name}" uses unknown frame "${missing}"`);
+    }
+  });
+  return atlas as SpriteAtlasData;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new SpriteAtlasError(src, 'the image could not be loaded'));
+    image.src = src;
+  });
+
+let pending: Promise<SpriteAtlas> | null = null;
+let loaded: SpriteAtlas | null = null;
+
+/**
+ * Fetches the atlas and its image once per page load. Rejects when either is
+ * missing or malformed, in which case callers keep drawing vector shapes.
+ */
+export const loadSpriteAtlas = (url = SPRITE_ATLAS_URL): Promise<SpriteAtlas> => {
+  pending ??= (async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new SpriteAtlasError(url, `request failed with ${response.status}`);
+    const data = parseSpriteAtlas(await response.json(), url);
+    loaded = { ...data, image: await loadImage(new URL(data.image, response.url).href) };
+    return loaded;
+  })();
+  pending.catch(() => {
+    pending = null;
+  });
+  return pending;
+};
+
+/** The frame `animation` shows `time` seconds after it started, or `null` if the atlas lacks it. */
+export const animationFrame = (atlas: SpriteAtlas, animation: string, time: number) => {
+  const clip = atlas.animations[animation];
+  if (!clip) return null;
+  const index = Math.floor(Math.max(0, time) * clip.fps);
+  const { length } = clip.frames;
+  return atlas.frames[clip.frames[clip.loop ? index % length : Math.min(index, length - 1)]];
+};
+
+/** Draws `frame` into `target`, mirrored around its centre when `flip` is set. */
+export const drawSprite = (
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas,
+  frame: Rect,
+  target: Rect,
+  flip = false,
+) => {
+  ctx.save();
+  if (flip) {
+    ctx.translate(target.x * 2 + target.width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(
+    atlas.image,
+    frame.x,
+    frame.y,
+    frame.width,
+    frame.height,
+    target.x,
+    target.y,
+    target.width,
+    target.height,
+  );
+  ctx.restore();
+};
+
+/** The atlas once it has loaded, for `useSyncExternalStore`; `null` until then or if it failed. */
+export const getSpriteAtlas = () => loaded;
+
+/** Starts loading the atlas and calls `onChange` once it is ready. */
+export const subscribeToSprites = (onChange: () => void) => {
+  let subscribed = true;
+  // Without an atlas everything keeps its vector shapes, so a failed load needs no handling
+  loadSpriteAtlas().then(
+    () => {
+      if (subscribed) onChange();
+    },
+    () => {},
+  );
+  return () => {
+    subscribed = false;
+  };
+};
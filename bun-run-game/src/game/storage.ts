@@ -0,0 +1,34 @@
+/**
+ * localStorage wrappers that treat a missing, full or disabled store as
+ * "nothing saved" instead of throwing, so persistence never breaks a run.
+ */
+export const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+/** Fired on `window` after every successful `writeStorage`, since `storage` events only reach other tabs. */
+const STORAGE_CHANGE_EVENT = 'bun-run:storage';
+
+export const writeStorage = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    return false;
+  }
+  window.dispatchEvent(new Event(STORAGE_CHANGE_EVENT));
+  return true;
+};
+
+/** `useSyncExternalStore`-compatible subscription to writes from this tab and others. */
+export const subscribeToStorage = (onChange: () => void) => {
+  window.addEventListener('storage', onChange);
+  window.addEventListener(STORAGE_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('storage', onChange);
+    window.removeEventListener(STORAGE_CHANGE_EVENT, onChange);
+  };
+};
@@ -0,0 +1,91 @@
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+export type PlatformType = 'solid' | 'bounce' | 'moving' | 'oneWay' | 'crumbling' | 'conveyor';
+
+export type Platform = Rect & {
+  type: PlatformType;
+  /** Launch speed of a bounce pad. */
+  strength?: number;
+  /** Waypoints a moving platform visits after its own position, looping back to it. */
+  path?: Point[];
+  /** Travel speed of a moving platform, or belt speed of a conveyor (negative runs left). */
+  speed?: number;
+};
+
+export type Hazard = Rect & {
+  type: 'spikes' | 'laser';
+  /** Lasers: seconds per on/off cycle; the beam is on for the first half. */
+  period?: number;
+  /** Lasers: seconds into the cycle at the start of a run. */
+  phase?: number;
+};
+
+/** An enemy as placed in a level: patrollers pace right and back, jumpers hop in place. */
+export type Enemy = Rect & {
+  type: 'patrol' | 'jumper';
+  /** Patrollers: how far right of their start they walk before turning. */
+  range?: number;
+  /** Patrollers: walking speed in px/s. */
+  speed?: number;
+};
+
+/** A flag that becomes the respawn point once touched. */
+export type Checkpoint = Rect;
+
+export type Coin = Rect & {
+  active: boolean;
+  spinOffset: number;
+};
+
+export type Goal = Rect;
+
+export type Player = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vx: number;
+  vy: number;
+  onGround: boolean;
+};
+
+/** `'lost'` means the clock ran out; `'gameOver'` means the last life was lost. */
+export type GameStatus = 'idle' | 'running' | 'paused' | 'won' | 'lost' | 'gameOver';
+
+export type InputState = {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  down: boolean;
+  jumpBuffer: boolean;
+};
+
+export type Size = {
+  width: number;
+  height: number;
+};
+
+export type LevelDefinition = {
+  version: number;
+  id: string;
+  name: string;
+  timeLimit: number;
+  world: Size;
+  spawn: Point;
+  goal: Goal;
+  platforms: Platform[];
+  coins: Rect[];
+  hazards: Hazard[];
+  enemies: Enemy[];
+  checkpoints: Checkpoint[];
+};
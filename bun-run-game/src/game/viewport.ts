@@ -0,0 +1,100 @@
+import type { Point, Size } from './types';
+
+/** Where the letterboxed canvas sits inside its container, in CSS pixels. */
+export type Viewport = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** Device pixels per CSS pixel. */
+  pixelRatio: number;
+};
+
+/** The largest box with the logical aspect ratio that fits the container, centred in it. */
+export const fitViewport = (container: Size, logical: Size, pixelRatio: number): Viewport => {
+  const scale = Math.max(0, Math.min(container.width / logical.width, container.height / logical.height));
+  const width = logical.width * scale;
+  const height = logical.height * scale;
+  return {
+    left: (container.width - width) / 2,
+    top: (container.height - height) / 2,
+    width,
+    height,
+    pixelRatio,
+  };
+};
+
+/** Converts a pointer position on `canvas` into logical canvas coordinates. */
+export const toCanvasPoint = (
+  canvas: HTMLCanvasElement,
+  logical: Size,
+  clientX: number,
+  clientY: number,
+): Point => {
+  const bounds = canvas.getBoundingClientRect();
+  return {
+    x: ((clientX - bounds.left) * logical.width) / bounds.width,
+    y: ((clientY - bounds.top) * logical.height) / bounds.height,
+  };
+};
+
+/**
+ * Keeps an absolutely positioned `canvas` letterboxed inside its parent at the
+ * logical aspect ratio, with one backing pixel per device pixel. Drawing code
+ * keeps working in logical coordinates by scaling to `canvas.width`. Resizing
+ * clears the canvas, so `onResize` is called after every change to let static
+ * views redraw. Returns a function that stops watching.
+ */
+export const fitCanvas = (
+  canvas: HTMLCanvasElement,
+  logical: Size,
+  onResize?: (viewport: Viewport) => void,
+) => {
+  const container = canvas.parentElement;
+  if (!container) return () => {};
+
+  const update = () => {
+    const viewport = fitViewport(
+      { width: container.clientWidth, height: container.clientHeight },
+      logical,
+      window.devicePixelRatio || 1,
+    );
+    canvas.style.left = `${viewport.left}px`;
+    canvas.style.top = `${viewport.top}px`;
+    canvas.style.width = `${viewport.width}px`;
+    canvas.style.height = `${viewport.height}px`;
+    const width = Math.max(1, Math.round(viewport.width * viewport.pixelRatio));
+    const height = Math.max(1, Math.round(viewport.height * viewport.pixelRatio));
+    if (canvas.width === width && canvas.height === height) return;
+    canvas.width = width;
+    canvas.height = height;
+    onResize?.(viewport);
+  };
+
+  const observer = new ResizeObserver(update);
+  observer.observe(container);
+  // Dragging the window to a screen with another pixel density resizes nothing
+  window.addEventListener('resize', update);
+  update();
+  return () => {
+    observer.disconnect();
+    window.removeEventListener('resize', update);
+  };
+};
+
+export const isFullscreenSupported = () => document.fullscreenEnabled;
+
+export const isFullscreen = () => document.fullscreenElement !== null;
+
+/** `useSyncExternalStore`-compatible subscription to entering and leaving fullscreen. */
+export const subscribeToFullscreen = (onChange: () => void) => {
+  document.addEventListener('fullscreenchange', onChange);
+  return () => document.removeEventListener('fullscreenchange', onChange);
+};
+
+/** Shows `element` fullscreen, or leaves fullscreen if anything already is. */
+export const toggleFullscreen = (element: HTMLElement) => {
+  // Browsers refuse outside a user gesture; the page just stays as it is then
+  const request = document.fullscreenElement ? document.exitFullscreen() : element.requestFullscreen();
+  request.catch(() => {});
+};